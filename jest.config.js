@@ -0,0 +1,13 @@
+/** @type {import('jest').Config} */
+module.exports = {
+	testEnvironment: 'node',
+	roots: ['<rootDir>/tests'],
+	transform: {
+		// Type checking is done by tsc, the api/ typings do not resolve here
+		'^.+\\.ts$': ['ts-jest', { tsconfig: { isolatedModules: true } }],
+	},
+	moduleNameMapper: {
+		'^api$': '<rootDir>/tests/mocks/api.ts',
+		'^api/types$': '<rootDir>/api/types.ts',
+	},
+};
@@ -0,0 +1,148 @@
+/*****************************************************************************
+ * @file        : src/attempts.ts
+ * @description : Failed password attempts per note. After the attempt limit
+ *                every further wrong password locks the note for an
+ *                exponentially growing time. Counters are kept in the plugin
+ *                settings so they survive restarts.
+ *****************************************************************************/
+
+/** Imports */
+import joplin from "api";
+import { SETTINGS_MAIN } from "./index";
+
+/** Longest lockout, however many attempts failed. */
+const MAX_LOCKOUT = 24 * 60 * 60 * 1000;
+
+/**
+ * Key of the attempts of bulk decryption, used in place of a note id. A run
+ * counts one wrong password, not one per note it tried.
+ */
+export const BULK_ATTEMPTS_ID = "bulk";
+
+/**
+ * Failed attempts of a note as stored in the plugin settings.
+ * @interface
+ */
+interface AttemptRecord {
+  /** Consecutive wrong passwords. */
+  failures: number;
+
+  /** Time (ms since epoch) until which no password is tried. */
+  lockedUntil: number;
+}
+
+/**
+ * Outcome of a wrong password.
+ * @interface
+ */
+export interface AttemptStatus {
+  /** Wrong passwords left before the note locks, 0 once it is locked. */
+  attemptsLeft: number;
+
+  /** Remaining lockout in ms, 0 if the note is not locked. */
+  lockout: number;
+}
+
+/**
+ * Read the attempt records from the plugin settings.
+ * @returns Attempt records by note id
+ */
+async function loadAttempts(): Promise<{ [noteId: string]: AttemptRecord }> {
+  const stored = await joplin.settings.value(SETTINGS_MAIN.ATTEMPTS);
+  if (!stored) {
+    return {};
+  }
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Write the attempt records to the plugin settings.
+ * @param attempts - Attempt records by note id
+ */
+async function saveAttempts(attempts: {
+  [noteId: string]: AttemptRecord;
+}): Promise<void> {
+  await joplin.settings.setValue(
+    SETTINGS_MAIN.ATTEMPTS,
+    JSON.stringify(attempts),
+  );
+}
+
+/**
+ * Remaining lockout of a note.
+ * @param noteId - Id of the note
+ * @returns Remaining lockout in ms, 0 if passwords may be tried
+ */
+export async function lockoutRemaining(noteId: string): Promise<number> {
+  const record = (await loadAttempts())[noteId];
+  if (!record) {
+    return 0;
+  }
+  return Math.max(0, record.lockedUntil - Date.now());
+}
+
+/**
+ * Count a wrong password. Once the limit is reached the note is locked for
+ * the base lockout, doubled for every further wrong password.
+ * @param noteId - Id of the note
+ * @param limit - Wrong passwords allowed before the first lockout
+ * @param baseSeconds - Lockout after the limit is reached
+ * @returns Attempts left and lockout
+ */
+export async function recordFailure(
+  noteId: string,
+  limit: number,
+  baseSeconds: number,
+): Promise<AttemptStatus> {
+  const attempts = await loadAttempts();
+  const record = attempts[noteId] || { failures: 0, lockedUntil: 0 };
+
+  record.failures++;
+  let lockout = 0;
+  if (record.failures >= limit) {
+    const exponent = Math.min(record.failures - limit, 20);
+    lockout = Math.min(baseSeconds * 1000 * Math.pow(2, exponent), MAX_LOCKOUT);
+    record.lockedUntil = Date.now() + lockout;
+  }
+
+  attempts[noteId] = record;
+  await saveAttempts(attempts);
+
+  return { attemptsLeft: Math.max(0, limit - record.failures), lockout };
+}
+
+/**
+ * Reset the failed attempts of a note after a correct password.
+ * @param noteId - Id of the note
+ */
+export async function clearFailures(noteId: string): Promise<void> {
+  const attempts = await loadAttempts();
+  if (!(noteId in attempts)) {
+    return;
+  }
+  delete attempts[noteId];
+  await saveAttempts(attempts);
+}
+
+/**
+ * Format a lockout for messages.
+ * @param ms - Duration in ms
+ * @returns Duration like "1h 5m", "2m 30s" or "45s"
+ */
+export function formatLockout(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  if (h) {
+    return `${h}h ${m}m`;
+  }
+  if (m) {
+    return `${m}m ${s}s`;
+  }
+  return `${s}s`;
+}
@@ -0,0 +1,92 @@
+/*****************************************************************************
+ * @file        : src/bulk.ts
+ * @description : Note collection for bulk commands: the selected notes, all
+ *                notes of a notebook and its sub-notebooks, or all notes
+ *                with a tag.
+ *****************************************************************************/
+
+/** Imports */
+import joplin from "api";
+
+/**
+ * A note as loaded for bulk commands.
+ * @interface
+ */
+export interface BulkNote {
+  id: string;
+  title: string;
+  body: string;
+}
+
+/**
+ * Fetch every page of a data API collection.
+ * @param path - Data API path, e.g. ["folders", id, "notes"]
+ * @param fields - Fields to fetch
+ * @returns All items of the collection
+ */
+export async function getAllItems(
+  path: string[],
+  fields: string[],
+): Promise<any[]> {
+  const items: any[] = [];
+  let page = 1;
+  while (true) {
+    const result = await joplin.data.get(path, { fields, page, limit: 100 });
+    items.push(...result.items);
+    if (!result.has_more) {
+      return items;
+    }
+    page++;
+  }
+}
+
+/**
+ * Load notes by id.
+ * @param noteIds - Ids of the notes
+ * @returns The notes, in the given order
+ */
+export async function getNotes(noteIds: string[]): Promise<BulkNote[]> {
+  const notes: BulkNote[] = [];
+  for (const noteId of noteIds) {
+    notes.push(
+      await joplin.data.get(["notes", noteId], {
+        fields: ["id", "title", "body"],
+      }),
+    );
+  }
+  return notes;
+}
+
+/**
+ * Load the notes of a notebook, including its sub-notebooks.
+ * @param folderId - Id of the notebook
+ * @returns The notes
+ */
+export async function getNotebookNotes(folderId: string): Promise<BulkNote[]> {
+  const folders = await getAllItems(["folders"], ["id", "parent_id"]);
+  const folderIds = [folderId];
+  for (let i = 0; i < folderIds.length; i++) {
+    for (const folder of folders) {
+      if (folder.parent_id === folderIds[i]) {
+        folderIds.push(folder.id);
+      }
+    }
+  }
+
+  const notes: BulkNote[] = [];
+  for (const id of folderIds) {
+    notes.push(
+      ...(await getAllItems(["folders", id, "notes"], ["id", "title", "body"])),
+    );
+  }
+  return notes;
+}
+
+/**
+ * Load the notes with a tag.
+ * @param tagId - Id of the tag
+ * @returns The notes
+ */
+export async function getTaggedNotes(tagId: string): Promise<BulkNote[]> {
+  return getAllItems(["tags", tagId, "notes"], ["id", "title", "body"]);
+}
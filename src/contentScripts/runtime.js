@@ -1,15 +1,28 @@
 /**
  * @file        : src/contentScripts/runtime.js
- * @description : SecureView runtime script.
+ * @description : SecureView runtime script. A note is either one encrypted
+ *                fence or holds several inline encrypted blocks, every
+ *                .sn-md container is locked and unlocked on its own.
+ *                Inline secrets (.sn-secret) are revealed or copied on demand.
  */
 
 let contentScriptId = "SecureView";
+let sessionPoller = null;
 
 // Plugin Logger
 function logger(msg) {
   webviewApi.postMessage(contentScriptId, { type: "log", msg: msg });
 }
 
+// Message the plugin on behalf of a container, with the identity of the
+// fence, so the plugin decrypts exactly that ciphertext of the shown note
+function postBlockMessage(container, message) {
+  return webviewApi.postMessage(container.dataset.csId, {
+    ...message,
+    fence: container.dataset.fence || undefined,
+  });
+}
+
 // ShowInputBox Error function
 async function shakeInput(input, placeholderMsg) {
   input.value = "";
@@ -20,9 +33,8 @@ async function shakeInput(input, placeholderMsg) {
 }
 
 // Password handle function
-async function handleSubmit() {
-  const csID = document.getElementById("data-contentscript-id").innerText;
-  const input = document.getElementById("md-lock-input");
+async function handleSubmit(container) {
+  const input = container.querySelector(".md-lock-input");
   const password = input?.value?.trim() ?? "";
 
   if (!password) {
@@ -31,7 +43,7 @@ async function handleSubmit() {
     return;
   }
 
-  const decryptionStatus = await webviewApi.postMessage(csID, {
+  const decryptionStatus = await postBlockMessage(container, {
     type: "password",
     msg: password,
   });
@@ -41,54 +53,248 @@ async function handleSubmit() {
     return;
   }
 
-  const mdLock = document.getElementById("md-lock");
-  const mdUnlock = document.getElementById("md-unlock");
-  const mdUnlockContent = document.getElementById("md-unlock-content");
+  showUnlocked(container, decryptionStatus);
+}
+
+// Show decrypted content and watch the session for a lock
+function showUnlocked(container, decryptionStatus) {
+  container.querySelector(".md-lock").style.display = "none";
+  container.querySelector(".md-unlock").style.display = "flex";
+  // Decrypted HTML is never assigned as is, see sanitizer.js
+  const { nodes, blocked } = sanitizeHtml(decryptionStatus.msg);
+  container.querySelector(".md-unlock-content").replaceChildren(...nodes);
+  showBlocked(container, blocked);
+  container.classList.add("sn-unlocked");
+  addRendererStyles(decryptionStatus.css);
+
+  watchSession(container.dataset.csId, decryptionStatus.session);
+}
+
+// Tell the user what the sanitiser removed from the decrypted content
+function showBlocked(container, blocked) {
+  const notice = container.querySelector(".md-unlock-blocked");
+  notice.textContent = blocked.length
+    ? `⚠ Unsafe content was removed: ${describeBlocked(blocked)}`
+    : "";
+  notice.style.display = blocked.length ? "block" : "none";
+}
+
+// Add the styles of Joplin's renderer plugins (KaTeX, highlighting, ...)
+function addRendererStyles(cssStrings) {
+  const existing = Array.from(
+    document.querySelectorAll("style.sn-renderer-style"),
+  ).map((style) => style.textContent);
+
+  for (const css of cssStrings || []) {
+    if (existing.indexOf(css) !== -1) continue;
+    const style = document.createElement("style");
+    style.className = "sn-renderer-style";
+    style.textContent = css;
+    document.head.appendChild(style);
+    existing.push(css);
+  }
+}
+
+// Hide decrypted content again
+function showLocked(container) {
+  const input = container.querySelector(".md-lock-input");
+
+  container.querySelector(".md-unlock-content").innerHTML = "";
+  showBlocked(container, []);
+  container.querySelector(".md-unlock").style.display = "none";
+  container.querySelector(".md-lock").style.display = "";
+  container.classList.remove("sn-unlocked");
+  if (input) {
+    input.value = "";
+    input.placeholder = "Enter Password to View";
+  }
+}
+
+// Reveal an inline secret, or mask it again if it is revealed
+async function toggleSecret(pill) {
+  const value = pill.querySelector(".sn-secret-value");
+  if (pill.classList.contains("sn-revealed")) {
+    maskSecret(pill);
+    return;
+  }
+
+  const status = await postBlockMessage(pill, {
+    type: "revealSecret",
+    msg: pill.dataset.secret,
+  });
+  if (!status || status.type !== "success") {
+    if (status && status.type === "error") value.textContent = status.msg;
+    return;
+  }
+
+  value.textContent = status.msg;
+  pill.classList.add("sn-revealed");
+  watchSession(pill.dataset.csId, status.session);
+}
+
+// Copy an inline secret without showing it
+async function copySecret(pill) {
+  const copyBtn = pill.querySelector(".sn-secret-copy");
+  const status = await postBlockMessage(pill, {
+    type: "copySecret",
+    msg: pill.dataset.secret,
+  });
+  if (status && status.type === "success") {
+    copyBtn.textContent = "✓";
+    setTimeout(() => (copyBtn.textContent = "📋"), 1500);
+  }
+}
+
+// Mask an inline secret again
+function maskSecret(pill) {
+  pill.querySelector(".sn-secret-value").textContent = "••••••••";
+  pill.classList.remove("sn-revealed");
+}
+
+// Poll the plugin and re-lock all containers once the session was locked
+function watchSession(csID, generation) {
+  if (sessionPoller) clearInterval(sessionPoller);
+  sessionPoller = setInterval(async () => {
+    const status = await webviewApi.postMessage(csID, { type: "session" });
+    if (status.msg !== generation) {
+      clearInterval(sessionPoller);
+      sessionPoller = null;
+      document.querySelectorAll(".sn-md").forEach(showLocked);
+      document.querySelectorAll(".sn-secret").forEach(maskSecret);
+    }
+  }, 2000);
+}
+
+// Ask the plugin to lock the session if it is configured to on blur
+async function handleBlur() {
+  const container = document.querySelector(".sn-md, .sn-secret");
+  if (!container || !sessionPoller) return;
 
-  mdLock.style.display = "none";
-  mdUnlock.style.display = "flex";
-  mdUnlockContent.innerHTML = decryptionStatus.msg;
+  await webviewApi.postMessage(container.dataset.csId, { type: "blur" });
 }
 
 // Initializtion
 async function init() {
-  const snMd = document.getElementById("sn-md");
-  const snRte = document.getElementById("sn-rte");
-  const input = document.getElementById("md-lock-input");
-
+  const containers = document.querySelectorAll(".sn-md");
   const isRTE = document.body.classList.contains("mce-content-body");
 
-  if (!isRTE) {
-    // Show only MD div, remove RTE div entirely
-    if (snRte) snRte.remove();
-    if (snMd) snMd.style.display = "flex";
+  if (isRTE) {
+    // Show only RTE divs, remove MD divs entirely
+    containers.forEach((container) => container.remove());
+    document.querySelectorAll(".sn-rte").forEach((rte) => {
+      rte.style.display = "block";
+    });
+    return;
+  }
+
+  // Show only MD divs, remove RTE divs entirely
+  document.querySelectorAll(".sn-rte").forEach((rte) => rte.remove());
+  for (const container of containers) {
+    container.style.display = "flex";
+    const input = container.querySelector(".md-lock-input");
     if (input) {
       input.value = "";
-      input.placeholder = "Enter Password to View Note";
-      input.focus();
+      input.placeholder = "Enter Password to View";
+    }
+
+    // Skip the password if this session already unlocked the block
+    const status = await postBlockMessage(container, { type: "unlockCached" });
+    if (status && status.type === "success") {
+      showUnlocked(container, status);
     }
-  } else {
-    // Show only RTE div, remove MD div entirely
-    if (snMd) snMd.remove();
-    if (snRte) snRte.style.display = "block";
   }
+
+  const firstInput = document.querySelector(
+    ".sn-md:not(.sn-unlocked) .md-lock-input",
+  );
+  if (firstInput) firstInput.focus();
 }
 
 // Click event listener
 document.addEventListener("click", function (e) {
-  if (e.target.id === "md-lock-btn") {
-    handleSubmit();
+  // Controls are never part of decrypted content, see sanitizer.js
+  if (e.target.closest && e.target.closest(".md-unlock-content")) return;
+
+  const pill = e.target.closest && e.target.closest(".sn-secret");
+  if (pill) {
+    if (e.target.classList.contains("sn-secret-reveal")) {
+      toggleSecret(pill);
+    } else if (e.target.classList.contains("sn-secret-copy")) {
+      copySecret(pill);
+    }
+    return;
+  }
+
+  const container = e.target.closest && e.target.closest(".sn-md");
+  if (!container) return;
+
+  if (e.target.classList.contains("md-lock-btn")) {
+    handleSubmit(container);
+  } else if (e.target.classList.contains("md-edit-btn")) {
+    postBlockMessage(container, { type: "editSecurely" });
   }
 });
 
+// Download links of encrypted attachments, before Joplin handles the link.
+// The plugin checks the token of the link, see resources.ts
+document.addEventListener(
+  "click",
+  function (e) {
+    const link = e.target.closest && e.target.closest("a[href]");
+    const href = link ? link.getAttribute("href") : "";
+    if (!href || href.indexOf("#sn-resource=") !== 0) return;
+
+    e.preventDefault();
+    e.stopPropagation();
+    postBlockMessage(link.closest(".sn-md"), {
+      type: "downloadResource",
+      msg: href.slice("#sn-resource=".length),
+    });
+  },
+  true,
+);
+
+// Checkboxes of decrypted content are read-only, Joplin would toggle them
+// in the note body, which is the ciphertext
+document.addEventListener(
+  "click",
+  function (e) {
+    if (
+      e.target.matches &&
+      e.target.matches(".md-unlock-content input[type=checkbox]")
+    ) {
+      e.preventDefault();
+      e.stopPropagation();
+    }
+  },
+  true,
+);
+
 // Keypress eventlistener
 document.addEventListener("keydown", function (e) {
-  if (e.target.id === "md-lock-input" && e.key === "Enter") {
+  if (e.target.classList.contains("md-lock-input") && e.key === "Enter") {
     e.preventDefault();
-    handleSubmit();
+    handleSubmit(e.target.closest(".sn-md"));
+  }
+});
+
+// Lock on minimise, or when focus leaves Joplin altogether
+document.addEventListener("visibilitychange", function () {
+  if (document.visibilityState === "hidden") {
+    handleBlur();
   }
 });
 
+window.addEventListener("blur", function () {
+  setTimeout(() => {
+    try {
+      if (!window.top.document.hasFocus()) handleBlur();
+    } catch {
+      // Parent window not accessible, rely on visibilitychange
+    }
+  }, 100);
+});
+
 // Content update event listener
 document.addEventListener("joplin-noteDidUpdate", async () => {
   await init();
@@ -0,0 +1,165 @@
+/**
+ * @file        : src/contentScripts/sanitizer.js
+ * @description : Allowlist sanitiser for decrypted HTML. The HTML is parsed
+ *                into an inert document, everything that is not on the
+ *                allowlist is removed and reported before it reaches the
+ *                viewer.
+ */
+
+// Elements kept as they are
+const SN_ALLOWED_TAGS = (
+  "a abbr b blockquote br button caption cite code col colgroup dd del " +
+  "details dfn div dl dt em figcaption figure h1 h2 h3 h4 h5 h6 hr i " +
+  "img input ins kbd label li mark ol p pre q s samp small span " +
+  "strong sub summary sup table tbody td tfoot th thead tr u ul var " +
+  "math annotation semantics mrow mi mo mn ms mtext mspace msup msub " +
+  "msubsup mfrac msqrt mroot mover munder munderover mtable mtr mtd " +
+  "mstyle mpadded menclose svg g path line rect circle ellipse " +
+  "polygon polyline text tspan defs title desc"
+).split(" ");
+
+// Elements removed with their content, others are unwrapped
+const SN_DROPPED_TAGS = (
+  "script style iframe frame frameset object embed applet noscript " +
+  "template link meta base form textarea select audio video " +
+  "source track canvas portal foreignobject"
+).split(" ");
+
+// Attributes kept on HTML elements, besides data-* and aria-*
+const SN_ALLOWED_ATTRIBUTES = (
+  "class id title alt style lang dir colspan rowspan align width " +
+  "height start type checked disabled href src open name role cite " +
+  "datetime"
+).split(" ");
+
+// Class names of the plugin's own controls, decrypted content must not fake
+// them. The metadata header the plugin renders into the content is kept.
+const SN_PLUGIN_CLASS = /^(sn|md)-(?!meta(-|$))/;
+
+// Attributes holding a URL
+const SN_URL_ATTRIBUTES = ["href", "src", "xlink:href", "cite"];
+
+// Safe URLs: web links, anchors, resource links and inline images
+const SN_SAFE_URL =
+  /^(https?:|mailto:|#|:\/|data:image\/(png|jpeg|gif|webp);base64,)/i;
+
+// Image sources Joplin's renderer uses for resources
+const SN_SAFE_SRC = /^(file:|joplin-content:)/i;
+
+// Decide whether a URL attribute may stay
+function snSafeUrl(name, value) {
+  const url = value.replace(/[\u0000- ]/g, "");
+  return SN_SAFE_URL.test(url) || (name === "src" && SN_SAFE_SRC.test(url));
+}
+
+// Whether a removed attribute is Joplin's own, e.g. the onclick of its
+// checkboxes and resource links, and is not worth reporting
+function snRendererAttribute(element, name) {
+  return (
+    name.indexOf("on") === 0 &&
+    (element.hasAttribute("data-from-md") ||
+      (element.localName === "input" &&
+        element.getAttribute("type") === "checkbox"))
+  );
+}
+
+// Clean the attributes of an element
+function snSanitizeAttributes(element, blocked) {
+  const foreign = element.namespaceURI !== "http://www.w3.org/1999/xhtml";
+
+  for (const attribute of Array.from(element.attributes)) {
+    const name = attribute.name.toLowerCase();
+    let allowed =
+      name.indexOf("on") !== 0 &&
+      (foreign ||
+        SN_ALLOWED_ATTRIBUTES.indexOf(name) !== -1 ||
+        name.indexOf("data-") === 0 ||
+        name.indexOf("aria-") === 0);
+
+    if (allowed && SN_URL_ATTRIBUTES.indexOf(name) !== -1) {
+      allowed = snSafeUrl(name, attribute.value);
+    }
+    if (allowed && name === "style") {
+      allowed = !/url\s*\(|expression\s*\(|@import/i.test(attribute.value);
+    }
+    if (allowed) continue;
+
+    element.removeAttribute(attribute.name);
+    if (!snRendererAttribute(element, name)) {
+      blocked.push(`${name} attribute`);
+    }
+  }
+
+  // Class names of the plugin's controls
+  const pluginClasses = Array.from(element.classList).filter((name) =>
+    SN_PLUGIN_CLASS.test(name),
+  );
+  if (pluginClasses.length) {
+    element.classList.remove(...pluginClasses);
+    if (!element.classList.length) element.removeAttribute("class");
+    blocked.push("plugin class");
+  }
+
+  // Only checkboxes, read-only
+  if (element.localName === "input") {
+    if (element.getAttribute("type") !== "checkbox") {
+      element.remove();
+      blocked.push("<input>");
+    } else {
+      element.setAttribute("disabled", "");
+    }
+  }
+}
+
+// Clean the children of a node, depth first
+function snSanitizeNode(node, blocked) {
+  for (const child of Array.from(node.childNodes)) {
+    if (child.nodeType === Node.COMMENT_NODE) {
+      child.remove();
+      continue;
+    }
+    if (child.nodeType !== Node.ELEMENT_NODE) continue;
+
+    const tag = child.localName.toLowerCase();
+    if (SN_DROPPED_TAGS.indexOf(tag) !== -1) {
+      child.remove();
+      blocked.push(`<${tag}>`);
+      continue;
+    }
+
+    snSanitizeNode(child, blocked);
+    if (SN_ALLOWED_TAGS.indexOf(tag) === -1) {
+      child.replaceWith(...Array.from(child.childNodes));
+      blocked.push(`<${tag}>`);
+      continue;
+    }
+    snSanitizeAttributes(child, blocked);
+  }
+}
+
+// Sanitise HTML into nodes of the viewer document, with a list of what was
+// removed
+function sanitizeHtml(html) {
+  const doc = new DOMParser().parseFromString(
+    `<!DOCTYPE html><body>${html}</body>`,
+    "text/html",
+  );
+  const blocked = [];
+  snSanitizeNode(doc.body, blocked);
+
+  return {
+    nodes: Array.from(doc.body.childNodes).map((node) =>
+      document.importNode(node, true),
+    ),
+    blocked: blocked,
+  };
+}
+
+// Summary of removed content, e.g. "<script> ×2, onclick attribute"
+function describeBlocked(blocked) {
+  const counts = {};
+  for (const item of blocked) counts[item] = (counts[item] || 0) + 1;
+  return Object.keys(counts)
+    .map((item) => (counts[item] > 1 ? `${item} ×${counts[item]}` : item))
+    .join(", ");
+}
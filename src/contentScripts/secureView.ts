@@ -3,6 +3,9 @@
  * @description : SecureNotes MarkdownIt renderer (RTE-safe).
  */
 
+/** Imports */
+import { fenceIdentity } from "../fence";
+
 export default function (context: any) {
   const contentScriptId = context.contentScriptId;
   return {
@@ -26,53 +29,113 @@ export default function (context: any) {
         const info = (token.info || "").trim();
         const rendered = defaultFence(tokens, idx, options, env, self);
 
-        if (info !== "SecureNotes") {
+        // Whole note: "SecureNotes", inline block: "SecureNotes id=<hex>"
+        const match = info.match(/^SecureNotes(?:\s+id=([0-9a-f]+))?$/);
+        if (!match) {
           return rendered;
         }
 
+        const blockId = match[1] || "";
         const content = token.content;
         const escaped = markdownIt.utils.escapeHtml(content);
+        const what = blockId ? "block" : "note";
 
         return `
-          <div id="sn-md" class="sn-md joplin-editable">
+          <div
+            class="sn-md ${blockId ? "sn-block " : ""}joplin-editable"
+            data-fence="${fenceIdentity(content)}"
+            data-cs-id="${contentScriptId}"
+          >
             <pre
               class="joplin-source"
               data-joplin-language="SecureNotes"
-              data-joplin-source-open="\`\`\`SecureNotes\n"
+              data-joplin-source-open="\`\`\`${markdownIt.utils.escapeHtml(info)}\n"
               data-joplin-source-close="\`\`\`"
             >${escaped}</pre>
-            <div id="md-lock" class="md-lock">
-              <h1 id="md-lock-title" class="md-lock-title">🔒 Secure Notes</h1>
-              <p id="md-lock-info" class="md-lock-info">This is an encrypted note</p>
-              <form id="md-lock-form" class="md-lock-form">
+            <div class="md-lock">
+              <h1 class="md-lock-title">🔒 Secure Notes</h1>
+              <p class="md-lock-info">This is an encrypted ${what}</p>
+              <form class="md-lock-form">
                 <input
-                  id="md-lock-input"
+                  class="md-lock-input"
                   type="password"
-                  placeholder="Enter Password to View Note"
+                  placeholder="Enter Password to View"
                   autocomplete="off"
                 />
-                <button type="button" id="md-lock-btn">Unlock</button>
+                <button type="button" class="md-lock-btn">Unlock</button>
               </form>
             </div>
-            <div id="md-unlock" class="md-unlock">
-              <div id="md-unlock-info" class="md-unlock-info">
-                🔒 This note is read-only. To edit it, decrypt the note, make changes,
-                then re-encrypt.
+            <div class="md-unlock">
+              <div class="md-unlock-info">
+                🔒 This ${what} is read-only here. Edit it securely, it is
+                re-encrypted on every save.
+                <button type="button" class="md-edit-btn">Edit securely</button>
               </div>
-              <div id="md-unlock-box" class="md-unlock-box">
-                <div id="md-unlock-content" class="md-unlock-content"></div>
+              <div class="md-unlock-blocked"></div>
+              <div class="md-unlock-box">
+                <div class="md-unlock-content"></div>
               </div>
             </div>
-            <div class="md-joplin-data">
-              <div id="data-contentscript-id">${contentScriptId}</div>
-            </div>
           </div>
-          <div id="sn-rte" class="sn-rte">${rendered}</div>
+          <div class="sn-rte">${rendered}</div>
         `;
       };
+
+      // Inline secret: {{sn:<name>=<value>;...;data=<data>}}
+      markdownIt.inline.ruler.before(
+        "emphasis",
+        "sn_secret",
+        function (state: any, silent: boolean) {
+          if (state.src.charCodeAt(state.pos) !== 0x7b /* { */) {
+            return false;
+          }
+          const match = state.src
+            .slice(state.pos)
+            .match(/^\{\{sn:([^{}\s]+)\}\}/);
+          if (!match) {
+            return false;
+          }
+          if (!silent) {
+            const token = state.push("sn_secret", "", 0);
+            token.content = match[1];
+          }
+          state.pos += match[0].length;
+          return true;
+        },
+      );
+
+      markdownIt.renderer.rules.sn_secret = function (
+        tokens: any,
+        idx: number,
+      ) {
+        const payload = markdownIt.utils.escapeHtml(tokens[idx].content);
+
+        return `<span
+            class="sn-secret joplin-editable"
+            data-secret="${payload}"
+            data-cs-id="${contentScriptId}"
+          ><span
+              class="joplin-source"
+              data-joplin-language="SecureNotes"
+              data-joplin-source-open="{{sn:"
+              data-joplin-source-close="}}"
+            >${payload}</span><span class="sn-secret-value">••••••••</span><button
+              type="button"
+              class="sn-secret-reveal"
+              title="Reveal"
+            >👁</button><button
+              type="button"
+              class="sn-secret-copy"
+              title="Copy"
+            >📋</button></span>`;
+      };
     },
     assets: function () {
-      return [{ name: "runtime.js" }, { name: "secureView.css" }];
+      return [
+        { name: "sanitizer.js" },
+        { name: "runtime.js" },
+        { name: "secureView.css" },
+      ];
     },
   };
 }
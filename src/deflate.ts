@@ -0,0 +1,528 @@
+/*****************************************************************************
+ * @file        : src/deflate.ts
+ * @description : Raw DEFLATE (RFC 1951) in plain TypeScript, used to compress
+ *                large notes before they are encrypted. CompressionStream is
+ *                not available on every platform the plugin runs on, so the
+ *                codec is bundled. Compression writes fixed Huffman blocks,
+ *                decompression reads every block type.
+ *****************************************************************************/
+
+/** Base lengths of the length codes 257..285. */
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67,
+  83, 99, 115, 131, 163, 195, 227, 258,
+];
+
+/** Extra bits of the length codes 257..285. */
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5,
+  5, 5, 0,
+];
+
+/** Base distances of the distance codes 0..29. */
+const DIST_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769,
+  1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+
+/** Extra bits of the distance codes 0..29. */
+const DIST_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11,
+  11, 12, 12, 13, 13,
+];
+
+/** Order of the code length code lengths in a dynamic block header. */
+const CODE_LENGTH_ORDER = [
+  16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15,
+];
+
+/** Size of the sliding window, the largest distance. */
+const WINDOW = 32768;
+
+/** Longest match. */
+const MAX_MATCH = 258;
+
+/** Shortest match. */
+const MIN_MATCH = 3;
+
+/** Matches tried per position, trades speed for ratio. */
+const MAX_CHAIN = 128;
+
+/** Largest stored block. */
+const MAX_STORED = 65535;
+
+/**
+ * Compress bytes with raw DEFLATE. Input that does not compress is written
+ * in stored blocks, so the output is never much larger than the input.
+ * @param input - Bytes to compress
+ * @returns Raw DEFLATE stream, without zlib or gzip framing
+ */
+export function deflateRaw(input: Uint8Array): Uint8Array {
+  const compressed = fixedBlock(input);
+  const storedSize =
+    input.length + 5 * Math.max(1, Math.ceil(input.length / MAX_STORED));
+  return compressed.length <= storedSize ? compressed : storedBlocks(input);
+}
+
+/**
+ * Decompress a raw DEFLATE stream.
+ * @param input - Raw DEFLATE stream
+ * @returns The decompressed bytes
+ * @throws Error if the stream is malformed or truncated
+ */
+export function inflateRaw(input: Uint8Array): Uint8Array {
+  const reader = new BitReader(input);
+  const output = new ByteSink(input.length * 4);
+
+  let final = 0;
+  while (!final) {
+    final = reader.bits(1);
+    const type = reader.bits(2);
+    if (type === 0) {
+      reader.alignToByte();
+      const length = reader.bits(16);
+      if ((length ^ 0xffff) !== reader.bits(16)) {
+        throw new Error("Corrupt stored block length");
+      }
+      for (let i = 0; i < length; i++) {
+        output.push(reader.bits(8));
+      }
+    } else if (type === 1) {
+      inflateBlock(reader, output, FIXED_TABLES.lit, FIXED_TABLES.dist);
+    } else if (type === 2) {
+      const { lit, dist } = readDynamicTables(reader);
+      inflateBlock(reader, output, lit, dist);
+    } else {
+      throw new Error("Invalid block type");
+    }
+  }
+  return output.bytes();
+}
+
+/**
+ * ****************************************************************************
+ *                                Compression
+ * ****************************************************************************
+ */
+
+/**
+ * Write all input as a single fixed Huffman block. Matches are found with
+ * hash chains over the last 32 KiB, greedily.
+ * @param input - Bytes to compress
+ * @returns Raw DEFLATE stream
+ */
+function fixedBlock(input: Uint8Array): Uint8Array {
+  const writer = new BitWriter(input.length / 2 + 64);
+  writer.bits(1, 1);
+  writer.bits(1, 2);
+
+  const head = new Int32Array(1 << 15).fill(-1);
+  const prev = new Int32Array(WINDOW);
+  const hashAt = (i: number) =>
+    ((input[i] << 10) ^ (input[i + 1] << 5) ^ input[i + 2]) & 0x7fff;
+  const insert = (i: number) => {
+    if (i + MIN_MATCH <= input.length) {
+      const hash = hashAt(i);
+      prev[i % WINDOW] = head[hash];
+      head[hash] = i;
+    }
+  };
+
+  let i = 0;
+  while (i < input.length) {
+    let bestLength = 0;
+    let bestDistance = 0;
+    if (i + MIN_MATCH <= input.length) {
+      const limit = Math.min(MAX_MATCH, input.length - i);
+      let candidate = head[hashAt(i)];
+      for (
+        let chain = 0;
+        chain < MAX_CHAIN && candidate >= 0 && i - candidate <= WINDOW;
+        chain++
+      ) {
+        let length = 0;
+        while (
+          length < limit &&
+          input[candidate + length] === input[i + length]
+        ) {
+          length++;
+        }
+        if (length > bestLength) {
+          bestLength = length;
+          bestDistance = i - candidate;
+          if (length === limit) {
+            break;
+          }
+        }
+        const next = prev[candidate % WINDOW];
+        if (next >= candidate) {
+          break;
+        }
+        candidate = next;
+      }
+    }
+
+    if (bestLength >= MIN_MATCH) {
+      writeLength(writer, bestLength);
+      writeDistance(writer, bestDistance);
+      for (const end = i + bestLength; i < end; i++) {
+        insert(i);
+      }
+    } else {
+      writeLiteral(writer, input[i]);
+      insert(i);
+      i++;
+    }
+  }
+
+  writeLiteral(writer, 256);
+  return writer.bytes();
+}
+
+/**
+ * Write input uncompressed, in stored blocks.
+ * @param input - Bytes to store
+ * @returns Raw DEFLATE stream
+ */
+function storedBlocks(input: Uint8Array): Uint8Array {
+  const blocks = Math.max(1, Math.ceil(input.length / MAX_STORED));
+  const output = new Uint8Array(input.length + 5 * blocks);
+  let at = 0;
+  for (let block = 0; block < blocks; block++) {
+    const start = block * MAX_STORED;
+    const chunk = input.subarray(start, start + MAX_STORED);
+    output[at++] = block === blocks - 1 ? 1 : 0;
+    output[at++] = chunk.length & 0xff;
+    output[at++] = chunk.length >> 8;
+    output[at++] = ~chunk.length & 0xff;
+    output[at++] = (~chunk.length >> 8) & 0xff;
+    output.set(chunk, at);
+    at += chunk.length;
+  }
+  return output;
+}
+
+/**
+ * Write a literal or the end of block symbol with the fixed code.
+ * @param writer - Output
+ * @param symbol - Symbol 0..287
+ */
+function writeLiteral(writer: BitWriter, symbol: number) {
+  if (symbol < 144) {
+    writer.code(0x30 + symbol, 8);
+  } else if (symbol < 256) {
+    writer.code(0x190 + symbol - 144, 9);
+  } else if (symbol < 280) {
+    writer.code(symbol - 256, 7);
+  } else {
+    writer.code(0xc0 + symbol - 280, 8);
+  }
+}
+
+/**
+ * Write the length of a match with the fixed code.
+ * @param writer - Output
+ * @param length - Match length 3..258
+ */
+function writeLength(writer: BitWriter, length: number) {
+  let code = LENGTH_BASE.length - 1;
+  while (LENGTH_BASE[code] > length) {
+    code--;
+  }
+  writeLiteral(writer, 257 + code);
+  writer.bits(length - LENGTH_BASE[code], LENGTH_EXTRA[code]);
+}
+
+/**
+ * Write the distance of a match with the fixed code.
+ * @param writer - Output
+ * @param distance - Match distance 1..32768
+ */
+function writeDistance(writer: BitWriter, distance: number) {
+  let code = DIST_BASE.length - 1;
+  while (DIST_BASE[code] > distance) {
+    code--;
+  }
+  writer.code(code, 5);
+  writer.bits(distance - DIST_BASE[code], DIST_EXTRA[code]);
+}
+
+/**
+ * Writes bits least significant first, as DEFLATE packs them.
+ */
+class BitWriter {
+  private sink: ByteSink;
+  private buffer = 0;
+  private count = 0;
+
+  constructor(capacity: number) {
+    this.sink = new ByteSink(capacity);
+  }
+
+  /** Write a value of the given width, least significant bit first. */
+  bits(value: number, width: number) {
+    this.buffer |= value << this.count;
+    this.count += width;
+    while (this.count >= 8) {
+      this.sink.push(this.buffer & 0xff);
+      this.buffer >>>= 8;
+      this.count -= 8;
+    }
+  }
+
+  /** Write a Huffman code, most significant bit first. */
+  code(code: number, width: number) {
+    let reversed = 0;
+    for (let i = 0; i < width; i++) {
+      reversed = (reversed << 1) | ((code >> i) & 1);
+    }
+    this.bits(reversed, width);
+  }
+
+  /** The written bytes, the last one padded with zero bits. */
+  bytes(): Uint8Array {
+    if (this.count > 0) {
+      this.sink.push(this.buffer & 0xff);
+      this.buffer = 0;
+      this.count = 0;
+    }
+    return this.sink.bytes();
+  }
+}
+
+/**
+ * ****************************************************************************
+ *                               Decompression
+ * ****************************************************************************
+ */
+
+/**
+ * Canonical Huffman decoding table.
+ * @interface
+ */
+interface HuffmanTable {
+  /** Number of codes of each length. */
+  counts: Uint16Array;
+
+  /** Symbols ordered by code. */
+  symbols: Uint16Array;
+}
+
+/** Tables of the fixed Huffman code. */
+const FIXED_TABLES = (() => {
+  const lengths = new Uint8Array(288);
+  lengths.fill(8, 0, 144);
+  lengths.fill(9, 144, 256);
+  lengths.fill(7, 256, 280);
+  lengths.fill(8, 280, 288);
+  return {
+    lit: buildTable(lengths),
+    dist: buildTable(new Uint8Array(30).fill(5)),
+  };
+})();
+
+/**
+ * Build a decoding table from code lengths.
+ * @param lengths - Code length of each symbol, 0 for unused symbols
+ * @returns The table
+ */
+function buildTable(lengths: Uint8Array): HuffmanTable {
+  const counts = new Uint16Array(16);
+  for (const length of lengths) {
+    counts[length]++;
+  }
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(16);
+  for (let length = 1; length < 16; length++) {
+    offsets[length] = offsets[length - 1] + counts[length - 1];
+  }
+  const symbols = new Uint16Array(lengths.length);
+  lengths.forEach((length, symbol) => {
+    if (length) {
+      symbols[offsets[length]++] = symbol;
+    }
+  });
+  return { counts, symbols };
+}
+
+/**
+ * Read the code tables of a dynamic Huffman block.
+ * @param reader - Input
+ * @returns Literal/length and distance tables
+ */
+function readDynamicTables(reader: BitReader): {
+  lit: HuffmanTable;
+  dist: HuffmanTable;
+} {
+  const literals = reader.bits(5) + 257;
+  const distances = reader.bits(5) + 1;
+  const codeLengths = reader.bits(4) + 4;
+
+  const order = new Uint8Array(19);
+  for (let i = 0; i < codeLengths; i++) {
+    order[CODE_LENGTH_ORDER[i]] = reader.bits(3);
+  }
+  const codeLengthTable = buildTable(order);
+
+  const lengths = new Uint8Array(literals + distances);
+  for (let i = 0; i < lengths.length;) {
+    const symbol = reader.decode(codeLengthTable);
+    if (symbol < 16) {
+      lengths[i++] = symbol;
+      continue;
+    }
+    let repeat: number;
+    let value = 0;
+    if (symbol === 16) {
+      if (i === 0) {
+        throw new Error("Repeat without a previous length");
+      }
+      value = lengths[i - 1];
+      repeat = 3 + reader.bits(2);
+    } else if (symbol === 17) {
+      repeat = 3 + reader.bits(3);
+    } else {
+      repeat = 11 + reader.bits(7);
+    }
+    if (i + repeat > lengths.length) {
+      throw new Error("Too many code lengths");
+    }
+    lengths.fill(value, i, i + repeat);
+    i += repeat;
+  }
+
+  return {
+    lit: buildTable(lengths.subarray(0, literals)),
+    dist: buildTable(lengths.subarray(literals)),
+  };
+}
+
+/**
+ * Decode the symbols of a Huffman block up to its end.
+ * @param reader - Input
+ * @param output - Output
+ * @param lit - Literal/length table
+ * @param dist - Distance table
+ */
+function inflateBlock(
+  reader: BitReader,
+  output: ByteSink,
+  lit: HuffmanTable,
+  dist: HuffmanTable,
+) {
+  while (true) {
+    const symbol = reader.decode(lit);
+    if (symbol < 256) {
+      output.push(symbol);
+      continue;
+    }
+    if (symbol === 256) {
+      return;
+    }
+
+    const lengthCode = symbol - 257;
+    if (lengthCode >= LENGTH_BASE.length) {
+      throw new Error("Invalid length code");
+    }
+    const length =
+      LENGTH_BASE[lengthCode] + reader.bits(LENGTH_EXTRA[lengthCode]);
+    const distCode = reader.decode(dist);
+    if (distCode >= DIST_BASE.length) {
+      throw new Error("Invalid distance code");
+    }
+    const distance = DIST_BASE[distCode] + reader.bits(DIST_EXTRA[distCode]);
+    output.copy(distance, length);
+  }
+}
+
+/**
+ * Reads bits least significant first.
+ */
+class BitReader {
+  private position = 0;
+  private buffer = 0;
+  private count = 0;
+
+  constructor(private input: Uint8Array) {}
+
+  /** Read a value of the given width, least significant bit first. */
+  bits(width: number): number {
+    while (this.count < width) {
+      if (this.position >= this.input.length) {
+        throw new Error("Unexpected end of compressed data");
+      }
+      this.buffer |= this.input[this.position++] << this.count;
+      this.count += 8;
+    }
+    const value = this.buffer & ((1 << width) - 1);
+    this.buffer >>>= width;
+    this.count -= width;
+    return value;
+  }
+
+  /** Drop the bits left in the current byte. */
+  alignToByte() {
+    this.buffer = 0;
+    this.count = 0;
+  }
+
+  /** Decode one symbol, reading the code bit by bit. */
+  decode(table: HuffmanTable): number {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let length = 1; length < 16; length++) {
+      code |= this.bits(1);
+      const count = table.counts[length];
+      if (code - first < count) {
+        return table.symbols[index + code - first];
+      }
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error("Invalid Huffman code");
+  }
+}
+
+/**
+ * Growable byte buffer.
+ */
+class ByteSink {
+  private buffer: Uint8Array;
+  private length = 0;
+
+  constructor(capacity: number) {
+    this.buffer = new Uint8Array(Math.max(1024, capacity));
+  }
+
+  /** Append a byte. */
+  push(byte: number) {
+    if (this.length === this.buffer.length) {
+      this.grow();
+    }
+    this.buffer[this.length++] = byte;
+  }
+
+  /** Append a copy of earlier output, which may overlap what it appends. */
+  copy(distance: number, length: number) {
+    if (distance > this.length) {
+      throw new Error("Distance beyond the start of the data");
+    }
+    for (let i = 0; i < length; i++) {
+      this.push(this.buffer[this.length - distance]);
+    }
+  }
+
+  /** The bytes written so far. */
+  bytes(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+
+  private grow() {
+    const grown = new Uint8Array(this.buffer.length * 2);
+    grown.set(this.buffer);
+    this.buffer = grown;
+  }
+}
@@ -5,6 +5,9 @@
 
 /** Imports */
 import joplin from "api";
+import { AesOptions } from "../encryption";
+import { KeySlot } from "../keyslots";
+import { Contact } from "../recipients";
 
 /**
  * Shows a password input dialog for encryption (with confirm field).
@@ -128,3 +131,489 @@ export async function showDecryptionDialog(
     return password;
   }
 }
+
+/**
+ * Shows a dialog to name and set the password of a new keyslot.
+ * @param passwdDialogID - Password dialog instance to use
+ * @param msg - Message to display in the dialog
+ * @returns Label and password or null if cancelled
+ */
+export async function showKeyslotDialog(
+  passwdDialogID: any,
+  msg: string,
+): Promise<{ label: string; password: string } | null> {
+  const dialogs = joplin.views.dialogs;
+  let currentMsg = msg;
+  while (true) {
+    await dialogs.setHtml(
+      passwdDialogID,
+      `
+      <div class="passwd-container">
+        <h1 class="passwd-title">Secure Notes</h1>
+        <h3 class="passwd-msg">${currentMsg}</h3>
+        <form name="passwordForm" class="passwd-form">
+          <input
+            name="label"
+            class="passwd-input"
+            type="text"
+            placeholder="slot name (e.g. Team break-glass)"
+          />
+          <input
+            id="passwd-input"
+            name="password"
+            class="passwd-input"
+            type="password"
+            placeholder="password"
+          />
+          <input
+            name="confirmPassword"
+            class="passwd-input"
+            type="password"
+            placeholder="confirm password"
+          />
+          <input type="submit" style="display: none;" />
+        </form>
+      </div>
+      `,
+    );
+    await dialogs.addScript(
+      passwdDialogID,
+      "./dialogScripts/encryptionDialog.css",
+    );
+    await dialogs.addScript(
+      passwdDialogID,
+      "./dialogScripts/encryptionDialog.js",
+    );
+    await dialogs.setButtons(passwdDialogID, [
+      { id: "ok", title: "Ok" },
+      { id: "cancel", title: "Cancel" },
+    ]);
+    await dialogs.setFitToContent(passwdDialogID, true);
+    const result = await dialogs.open(passwdDialogID);
+    if (result.id !== "ok") return null;
+    const label = result.formData?.passwordForm?.label || "";
+    const password = result.formData?.passwordForm?.password || "";
+    const confirm = result.formData?.passwordForm?.confirmPassword || "";
+    if (!password) {
+      currentMsg = "Password cannot be empty";
+      continue;
+    }
+    if (password !== confirm) {
+      currentMsg = "Passwords do not match";
+      continue;
+    }
+    return { label, password };
+  }
+}
+
+/**
+ * Shows a dialog to pick a keyslot to remove, authorised by a password that
+ * opens any keyslot of the note.
+ * @param passwdDialogID - Password dialog instance to use
+ * @param msg - Message to display in the dialog
+ * @param slots - Keyslots of the note
+ * @returns Selected slot id and password or null if cancelled
+ */
+export async function showKeyslotRemovalDialog(
+  passwdDialogID: any,
+  msg: string,
+  slots: KeySlot[],
+): Promise<{ slotId: number; password: string } | null> {
+  const dialogs = joplin.views.dialogs;
+  const slotOptions = slots
+    .map(
+      (slot) =>
+        `<option value="${slot.id}">#${slot.id} ${escapeHtml(slot.label)}</option>`,
+    )
+    .join("");
+  let currentMsg = msg;
+  while (true) {
+    await dialogs.setHtml(
+      passwdDialogID,
+      `
+      <div class="passwd-container">
+        <h1 class="passwd-title">Secure Notes</h1>
+        <h3 class="passwd-msg">${currentMsg}</h3>
+        <form name="passwordForm" class="passwd-form">
+          <select name="slot" class="passwd-input">${slotOptions}</select>
+          <input
+            id="passwd-input"
+            name="password"
+            class="passwd-input"
+            type="password"
+            placeholder="password of any slot"
+          />
+          <input type="submit" style="display: none;" />
+        </form>
+      </div>
+      `,
+    );
+    await dialogs.addScript(
+      passwdDialogID,
+      "./dialogScripts/encryptionDialog.css",
+    );
+    await dialogs.addScript(
+      passwdDialogID,
+      "./dialogScripts/decryptionDialog.js",
+    );
+    await dialogs.setButtons(passwdDialogID, [
+      { id: "ok", title: "Remove" },
+      { id: "cancel", title: "Cancel" },
+    ]);
+    await dialogs.setFitToContent(passwdDialogID, true);
+    const result = await dialogs.open(passwdDialogID);
+    if (result.id !== "ok") return null;
+    const slotId = parseInt(result.formData?.passwordForm?.slot || "");
+    const password = result.formData?.passwordForm?.password || "";
+    if (!password) {
+      currentMsg = "Password cannot be empty";
+      continue;
+    }
+    return { slotId, password };
+  }
+}
+
+/**
+ * Shows a dialog to change a password, with the cipher and KDF to use from
+ * now on if options are given.
+ * @param passwdDialogID - Password dialog instance to use
+ * @param msg - Message to display in the dialog
+ * @param options - Current options of the note, preselected, or null to
+ *                  ask for the passwords only
+ * @returns Old and new password and the options or null if cancelled
+ */
+export async function showChangePasswordDialog(
+  passwdDialogID: any,
+  msg: string,
+  options: AesOptions | null = null,
+): Promise<{
+  oldPassword: string;
+  password: string;
+  options?: AesOptions;
+} | null> {
+  const dialogs = joplin.views.dialogs;
+  const select = (name: string, current: any, values: any[]) =>
+    `<select name="${name}" class="passwd-input">${values
+      .map(
+        (value) =>
+          `<option value="${value}"${value === current ? " selected" : ""}>${value}</option>`,
+      )
+      .join("")}</select>`;
+  let currentMsg = msg;
+  while (true) {
+    await dialogs.setHtml(
+      passwdDialogID,
+      `
+      <div class="passwd-container">
+        <h1 class="passwd-title">Secure Notes</h1>
+        <h3 class="passwd-msg">${currentMsg}</h3>
+        <form name="passwordForm" class="passwd-form">
+          <input
+            id="passwd-input"
+            name="oldPassword"
+            class="passwd-input"
+            type="password"
+            placeholder="current password"
+          />
+          <input
+            name="password"
+            class="passwd-input"
+            type="password"
+            placeholder="new password"
+          />
+          <input
+            name="confirmPassword"
+            class="passwd-input"
+            type="password"
+            placeholder="confirm new password"
+          />
+          ${
+            options
+              ? select("aesMode", options.AesMode, [
+                  "AES-GCM",
+                  "AES-CBC",
+                  "AES-CTR",
+                ]) +
+                select("keySize", options.KeySize, [256, 128]) +
+                select("kdf", options.Kdf, ["PBKDF2", "scrypt", "Argon2id"])
+              : ""
+          }
+          <input type="submit" style="display: none;" />
+        </form>
+      </div>
+      `,
+    );
+    await dialogs.addScript(
+      passwdDialogID,
+      "./dialogScripts/encryptionDialog.css",
+    );
+    await dialogs.addScript(
+      passwdDialogID,
+      "./dialogScripts/decryptionDialog.js",
+    );
+    await dialogs.setButtons(passwdDialogID, [
+      { id: "ok", title: "Change" },
+      { id: "cancel", title: "Cancel" },
+    ]);
+    await dialogs.setFitToContent(passwdDialogID, true);
+    const result = await dialogs.open(passwdDialogID);
+    if (result.id !== "ok") return null;
+    const form = result.formData?.passwordForm || {};
+    const oldPassword = form.oldPassword || "";
+    const password = form.password || "";
+    if (!oldPassword || !password) {
+      currentMsg = "Password cannot be empty";
+      continue;
+    }
+    if (password !== (form.confirmPassword || "")) {
+      currentMsg = "Passwords do not match";
+      continue;
+    }
+    if (!options) {
+      return { oldPassword, password };
+    }
+    return {
+      oldPassword,
+      password,
+      options: {
+        AesMode: form.aesMode as AesOptions["AesMode"],
+        KeySize: parseInt(form.keySize) as AesOptions["KeySize"],
+        Kdf: form.kdf as AesOptions["Kdf"],
+      },
+    };
+  }
+}
+
+/**
+ * Shows a dialog to import a teammate's public key.
+ * @param passwdDialogID - Dialog instance to use
+ * @param msg - Message to display in the dialog
+ * @returns Name and public key or null if cancelled
+ */
+export async function showPublicKeyImportDialog(
+  passwdDialogID: any,
+  msg: string,
+): Promise<{ name: string; publicKey: string } | null> {
+  const dialogs = joplin.views.dialogs;
+  let currentMsg = msg;
+  while (true) {
+    await dialogs.setHtml(
+      passwdDialogID,
+      `
+      <div class="passwd-container">
+        <h1 class="passwd-title">Secure Notes</h1>
+        <h3 class="passwd-msg">${currentMsg}</h3>
+        <form name="keyForm" class="passwd-form">
+          <input
+            id="passwd-input"
+            name="name"
+            class="passwd-input"
+            type="text"
+            placeholder="name"
+          />
+          <textarea
+            name="publicKey"
+            class="passwd-input"
+            rows="4"
+            placeholder="public key"
+          ></textarea>
+        </form>
+      </div>
+      `,
+    );
+    await dialogs.addScript(
+      passwdDialogID,
+      "./dialogScripts/encryptionDialog.css",
+    );
+    await dialogs.addScript(
+      passwdDialogID,
+      "./dialogScripts/decryptionDialog.js",
+    );
+    await dialogs.setButtons(passwdDialogID, [
+      { id: "ok", title: "Import" },
+      { id: "cancel", title: "Cancel" },
+    ]);
+    await dialogs.setFitToContent(passwdDialogID, true);
+    const result = await dialogs.open(passwdDialogID);
+    if (result.id !== "ok") return null;
+    const name = (result.formData?.keyForm?.name || "").trim();
+    const publicKey = (result.formData?.keyForm?.publicKey || "").trim();
+    if (!name || !publicKey) {
+      currentMsg = "Name and public key are required";
+      continue;
+    }
+    return { name, publicKey };
+  }
+}
+
+/**
+ * Shows a dialog to paste a vault exported on another device.
+ * @param passwdDialogID - Dialog instance to use
+ * @param msg - Message to display in the dialog
+ * @returns The exported vault or null if cancelled
+ */
+export async function showVaultImportDialog(
+  passwdDialogID: any,
+  msg: string,
+): Promise<string | null> {
+  const dialogs = joplin.views.dialogs;
+  let currentMsg = msg;
+  while (true) {
+    await dialogs.setHtml(
+      passwdDialogID,
+      `
+      <div class="passwd-container">
+        <h1 class="passwd-title">Secure Notes</h1>
+        <h3 class="passwd-msg">${currentMsg}</h3>
+        <form name="vaultForm" class="passwd-form">
+          <textarea
+            id="passwd-input"
+            name="vault"
+            class="passwd-input"
+            rows="4"
+            placeholder="securenotes-vault:..."
+          ></textarea>
+        </form>
+      </div>
+      `,
+    );
+    await dialogs.addScript(
+      passwdDialogID,
+      "./dialogScripts/encryptionDialog.css",
+    );
+    await dialogs.addScript(
+      passwdDialogID,
+      "./dialogScripts/decryptionDialog.js",
+    );
+    await dialogs.setButtons(passwdDialogID, [
+      { id: "ok", title: "Import" },
+      { id: "cancel", title: "Cancel" },
+    ]);
+    await dialogs.setFitToContent(passwdDialogID, true);
+    const result = await dialogs.open(passwdDialogID);
+    if (result.id !== "ok") return null;
+    const vault = (result.formData?.vaultForm?.vault || "").trim();
+    if (!vault) {
+      currentMsg = "Paste the exported vault";
+      continue;
+    }
+    return vault;
+  }
+}
+
+/**
+ * Shows a dialog to pick the recipients of a note.
+ * @param passwdDialogID - Dialog instance to use
+ * @param msg - Message to display in the dialog
+ * @param contacts - Imported public keys, the own key first if any
+ * @returns Fingerprints of the selected recipients or null if cancelled
+ */
+export async function showRecipientsDialog(
+  passwdDialogID: any,
+  msg: string,
+  contacts: Contact[],
+): Promise<string[] | null> {
+  const dialogs = joplin.views.dialogs;
+  const checkboxes = contacts
+    .map(
+      (contact) => `
+          <label class="recipient">
+            <input
+              type="checkbox"
+              name="recipient-${contact.fingerprint}"
+              value="${contact.fingerprint}"
+              checked
+            />
+            ${escapeHtml(contact.name)} <small>${contact.fingerprint}</small>
+          </label>`,
+    )
+    .join("");
+  let currentMsg = msg;
+  while (true) {
+    await dialogs.setHtml(
+      passwdDialogID,
+      `
+      <div class="passwd-container">
+        <h1 class="passwd-title">Secure Notes</h1>
+        <h3 class="passwd-msg">${currentMsg}</h3>
+        <form name="recipientsForm" class="passwd-form">${checkboxes}
+        </form>
+      </div>
+      `,
+    );
+    await dialogs.addScript(
+      passwdDialogID,
+      "./dialogScripts/encryptionDialog.css",
+    );
+    await dialogs.setButtons(passwdDialogID, [
+      { id: "ok", title: "Encrypt" },
+      { id: "cancel", title: "Cancel" },
+    ]);
+    await dialogs.setFitToContent(passwdDialogID, true);
+    const result = await dialogs.open(passwdDialogID);
+    if (result.id !== "ok") return null;
+    const selected = Object.keys(result.formData?.recipientsForm || {})
+      .filter((name) => name.indexOf("recipient-") === 0)
+      .map((name) => name.slice("recipient-".length));
+    if (!selected.length) {
+      currentMsg = "Select at least one recipient";
+      continue;
+    }
+    return selected;
+  }
+}
+
+/**
+ * Shows a dialog to pick a tag.
+ * @param passwdDialogID - Dialog instance to use
+ * @param msg - Message to display in the dialog
+ * @param tags - Tags to choose from
+ * @returns Id of the selected tag or null if cancelled
+ */
+export async function showTagDialog(
+  passwdDialogID: any,
+  msg: string,
+  tags: { id: string; title: string }[],
+): Promise<string | null> {
+  const dialogs = joplin.views.dialogs;
+  const tagOptions = tags
+    .map((tag) => `<option value="${tag.id}">${escapeHtml(tag.title)}</option>`)
+    .join("");
+  await dialogs.setHtml(
+    passwdDialogID,
+    `
+    <div class="passwd-container">
+      <h1 class="passwd-title">Secure Notes</h1>
+      <h3 class="passwd-msg">${msg}</h3>
+      <form name="tagForm" class="passwd-form">
+        <select name="tag" class="passwd-input">${tagOptions}</select>
+      </form>
+    </div>
+    `,
+  );
+  await dialogs.addScript(
+    passwdDialogID,
+    "./dialogScripts/encryptionDialog.css",
+  );
+  await dialogs.setButtons(passwdDialogID, [
+    { id: "ok", title: "Ok" },
+    { id: "cancel", title: "Cancel" },
+  ]);
+  await dialogs.setFitToContent(passwdDialogID, true);
+  const result = await dialogs.open(passwdDialogID);
+  if (result.id !== "ok") return null;
+  return result.formData?.tagForm?.tag || null;
+}
+
+/**
+ * Escape text for use inside dialog HTML.
+ * @param text - Text to escape
+ * @returns HTML-safe text
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,164 @@
+/*****************************************************************************
+ * @file        : dialogScripts/progressDialog.ts
+ * @description : Progress dialog and summary report for bulk commands.
+ *****************************************************************************/
+
+/** Imports */
+import joplin from "api";
+import { escapeHtml } from "./passwdDialogs";
+
+/**
+ * Result of a single item of a bulk task.
+ * @interface
+ */
+interface ItemResult {
+  title: string;
+  reason: string;
+}
+
+/**
+ * Summary of a bulk task.
+ * @interface
+ */
+export interface BulkReport {
+  /** Items the task completed. */
+  done: number;
+
+  /** Items the task left alone, with the reason. */
+  skipped: ItemResult[];
+
+  /** Items the task failed on, with the error. */
+  failed: ItemResult[];
+
+  /** Whether the user stopped the task before all items were processed. */
+  cancelled: boolean;
+}
+
+/**
+ * Runs a task over items while showing a progress dialog, then shows a
+ * summary report in the same dialog. Closing the dialog stops the task
+ * after the current item.
+ * @param progressDialogID - Dialog instance to use
+ * @param action - Verb shown in the dialog, e.g. "Encrypting"
+ * @param items - Items with a title
+ * @param task - Processes one item. Resolves to null when done or to a
+ *               reason when the item was skipped, rejects when it failed.
+ * @returns Summary of the task
+ */
+export async function runWithProgress<T extends { title: string }>(
+  progressDialogID: any,
+  action: string,
+  items: T[],
+  task: (item: T) => Promise<string | null>,
+): Promise<BulkReport> {
+  const dialogs = joplin.views.dialogs;
+  const report: BulkReport = {
+    done: 0,
+    skipped: [],
+    failed: [],
+    cancelled: false,
+  };
+
+  let closed = false;
+  await dialogs.addScript(
+    progressDialogID,
+    "./dialogScripts/encryptionDialog.css",
+  );
+  await dialogs.setButtons(progressDialogID, [{ id: "cancel", title: "Stop" }]);
+  await dialogs.setFitToContent(progressDialogID, true);
+  await setProgress(progressDialogID, action, 0, items.length, "");
+  const opened = dialogs.open(progressDialogID).then(() => {
+    closed = true;
+  });
+
+  for (let i = 0; i < items.length; i++) {
+    if (closed) {
+      report.cancelled = true;
+      break;
+    }
+    const title = items[i].title || "Untitled";
+    await setProgress(progressDialogID, action, i, items.length, title);
+
+    try {
+      const reason = await task(items[i]);
+      if (reason) {
+        report.skipped.push({ title, reason });
+      } else {
+        report.done++;
+      }
+    } catch (error) {
+      report.failed.push({ title, reason: error?.message || String(error) });
+    }
+  }
+
+  await dialogs.setHtml(
+    progressDialogID,
+    reportHtml(action, items.length, report),
+  );
+  await dialogs.setButtons(progressDialogID, [{ id: "ok", title: "Close" }]);
+  if (closed) {
+    await dialogs.open(progressDialogID);
+  } else {
+    await opened;
+  }
+
+  return report;
+}
+
+/**
+ * Update the progress dialog.
+ * @param progressDialogID - Dialog instance to use
+ * @param action - Verb shown in the dialog
+ * @param current - Items processed so far
+ * @param total - Number of items
+ * @param title - Title of the item being processed
+ */
+async function setProgress(
+  progressDialogID: any,
+  action: string,
+  current: number,
+  total: number,
+  title: string,
+) {
+  await joplin.views.dialogs.setHtml(
+    progressDialogID,
+    `
+    <div class="passwd-container">
+      <h1 class="passwd-title">Secure Notes</h1>
+      <h3 class="passwd-msg">${action} notes (${current}/${total})</h3>
+      <progress class="progress-bar" max="${total}" value="${current}"></progress>
+      <p class="progress-item">${escapeHtml(title)}</p>
+    </div>
+    `,
+  );
+}
+
+/**
+ * Build the summary report.
+ * @param action - Verb shown in the dialog
+ * @param total - Number of items
+ * @param report - Summary of the task
+ * @returns Dialog HTML
+ */
+function reportHtml(action: string, total: number, report: BulkReport) {
+  const list = (results: ItemResult[]) =>
+    results
+      .map(
+        (result) =>
+          `<li>${escapeHtml(result.title)}: ${escapeHtml(result.reason)}</li>`,
+      )
+      .join("");
+
+  return `
+    <div class="passwd-container">
+      <h1 class="passwd-title">Secure Notes</h1>
+      <h3 class="passwd-msg">
+        ${action} ${report.cancelled ? "stopped" : "finished"}:
+        ${report.done} of ${total} notes done,
+        ${report.skipped.length} skipped, ${report.failed.length} failed
+      </h3>
+      ${report.failed.length ? `<p>Failed</p><ul class="progress-report">${list(report.failed)}</ul>` : ""}
+      ${report.skipped.length ? `<p>Skipped</p><ul class="progress-report">${list(report.skipped)}</ul>` : ""}
+    </div>
+    `;
+}
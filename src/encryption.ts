@@ -1,67 +1,1051 @@
 /*****************************************************************************
  * @file        : src/encryption.ts
- * @description : AES encryption module using WebCrypto API with PBKDF2-based
- *                key derivation. Supports key sizes 128-bit and 256-bit, and
- *                AES modes: GCM, CBC, and CTR.
+ * @description : AES encryption module using WebCrypto API with password-based
+ *                key derivation (PBKDF2, scrypt or Argon2id). Supports key
+ *                sizes 128-bit and 256-bit, and AES modes: GCM, CBC, and CTR.
+ *                Data keys can be wrapped by passwords, other keys or ECDH
+ *                P-256 recipients. Plaintext can be compressed and padded
+ *                before encryption.
  * @author      : Aravind Potluri <aravindswami135@gmail.com>
  *****************************************************************************/
 
+/** Imports */
+import { argon2id, scrypt } from "hash-wasm";
+import { deflateRaw, inflateRaw } from "./deflate";
+
+/**
+ * Key derivation functions supported for password-based keys.
+ * NOTE: scrypt and Argon2id are memory-hard and not part of WebCrypto, they
+ * are computed with hash-wasm.
+ * @type {'PBKDF2' | 'scrypt' | 'Argon2id'}
+ */
+export type KdfName = "PBKDF2" | "scrypt" | "Argon2id";
+
+/**
+ * Cost parameters of the key derivation function. Only the parameters of the
+ * selected KDF are used, the names follow their usual notation.
+ * @interface
+ */
+export interface KdfParams {
+  /** PBKDF2 iteration count. */
+  i?: number;
+  /** scrypt CPU/memory cost, must be a power of two. */
+  N?: number;
+  /** scrypt block size. */
+  r?: number;
+  /** Argon2id time cost (passes over memory). */
+  t?: number;
+  /** Argon2id memory cost in KiB. */
+  m?: number;
+  /** scrypt / Argon2id parallelism. */
+  p?: number;
+}
+
+/**
+ * Default cost parameters per KDF (OWASP password storage recommendations).
+ * PBKDF2 keeps 100,000 iterations so that existing notes keep opening.
+ */
+export const KDF_DEFAULTS: Record<KdfName, KdfParams> = {
+  PBKDF2: { i: 100_000 },
+  scrypt: { N: 131_072, r: 8, p: 1 },
+  Argon2id: { t: 2, m: 19_456, p: 1 },
+};
+
+/**
+ * Accepted range of each KDF cost parameter. Notes and exported keys come
+ * from anywhere, costs that would stall the app or exhaust its memory are
+ * refused before deriving, as are values the KDF implementations reject.
+ */
+export const KDF_PARAM_RANGES: Record<
+  KdfName,
+  { [name in keyof KdfParams]?: { min: number; max: number } }
+> = {
+  PBKDF2: { i: { min: 1_000, max: 10_000_000 } },
+  scrypt: {
+    N: { min: 1_024, max: 1_048_576 },
+    r: { min: 1, max: 32 },
+    p: { min: 1, max: 16 },
+  },
+  Argon2id: {
+    t: { min: 1, max: 16 },
+    m: { min: 8, max: 262_144 },
+    p: { min: 1, max: 16 },
+  },
+};
+
+/**
+ * Largest memory a memory-hard KDF may use, in bytes.
+ */
+const KDF_MEMORY_MAX = 256 * 1024 * 1024;
+
+/**
+ * Current format version of the encrypted envelope.
+ * 1: Header is not authenticated (notes without a format-version line).
+ * 2: Header is authenticated as AAD and the payload carries a key check value.
+ * 3: AES key, HMAC key and key check value are expanded from a single KDF
+ *    output with HKDF, so they are independent of each other.
+ * 4: The header may name a compression and a padding of the content. Readers
+ *    of earlier versions reject these notes by their version, instead of
+ *    ignoring the lines and failing on the decrypted content.
+ */
+export const FORMAT_VERSION = 4;
+
+/**
+ * Oldest format version that is still written. Versions 1 and 2 are only
+ * read: in version 2 the AES key is a prefix of the HMAC key, at 256 bits
+ * they are the same key.
+ */
+export const WRITE_VERSION_MIN = 3;
+
+/**
+ * Length of the key check value stored in the payload (format-version >= 2).
+ */
+const CHECK_LENGTH = 8;
+
+/**
+ * Smallest plaintext padded to a power of two, short notes all end up this
+ * long.
+ */
+const PADDING_MIN = 256;
+
+/**
+ * Smallest and largest block of the "block-N" padding policy, in bytes.
+ */
+export const PADDING_BLOCK_RANGE = { min: 16, max: 65536 };
+
+/**
+ * Cipher modes a note can be written with, see AesOptions.AesMode.
+ */
+export const AES_MODES: AesOptions["AesMode"][] = [
+  "AES-GCM",
+  "AES-CBC",
+  "AES-CTR",
+];
+
+/**
+ * Key sizes a note can be written with, see AesOptions.KeySize.
+ */
+export const KEY_SIZES: AesOptions["KeySize"][] = [128, 256];
+
+/**
+ * Compression methods, see AesOptions.Compression.
+ */
+export const COMPRESSION_METHODS: AesOptions["Compression"][] = [
+  "none",
+  "deflate",
+];
+
+/**
+ * Cipher options for the encryption
+ * @interface
+ */
+export interface AesOptions {
+  /**
+   * AES key size in bits. Allowed values: 128, 256.
+   * NOTE: 192-bit is not supported by mobile compatible WebCrypto.
+   * @default 256
+   */
+  KeySize?: 128 | 256;
+
+  /**
+   * AES Mode. Allowed values: 'AES-CBC', 'AES-CTR', 'AES-GCM'.
+   * @default 'AES-GCM'
+   */
+  AesMode?: "AES-CBC" | "AES-CTR" | "AES-GCM";
+
+  /**
+   * Key derivation function. Allowed values: 'PBKDF2', 'scrypt', 'Argon2id'.
+   * @default 'PBKDF2'
+   */
+  Kdf?: KdfName;
+
+  /**
+   * KDF cost parameters, missing ones fall back to KDF_DEFAULTS.
+   */
+  KdfParams?: KdfParams;
+
+  /**
+   * Envelope format version, see FORMAT_VERSION.
+   * @default FORMAT_VERSION
+   */
+  Version?: number;
+
+  /**
+   * Where the content key comes from. 'password': derived from the password
+   * with the KDF. 'keyslots': random data key wrapped in keyslots, see
+   * wrapKey. Allowed values: 'password', 'keyslots'.
+   * @default 'password'
+   */
+  KeySource?: "password" | "keyslots";
+
+  /**
+   * Compression of the plaintext before encryption. Allowed values: 'none',
+   * 'deflate' (raw DEFLATE, see deflate.ts).
+   * @default 'none'
+   */
+  Compression?: "none" | "deflate";
+
+  /**
+   * Padding of the plaintext, so the ciphertext length does not give away
+   * the exact note length. The content gets a length prefix and zeros up to
+   * the padded length. Allowed values: 'none', 'pow2' (the next power of
+   * two, at least PADDING_MIN bytes), 'block-N' (a multiple of N bytes, see
+   * PADDING_BLOCK_RANGE).
+   * @default 'none'
+   */
+  Padding?: "none" | "pow2" | `block-${number}`;
+}
+
+/**
+ * Encrypts plaintext using AES with a password-derived key.
+ * Supports AES-GCM, AES-CBC, and AES-CTR.
+ *
+ * @param options - AES options including KeySize and AesMode.
+ * @param body - The plaintext string to encrypt.
+ * @param passwd - Password used to derive the encryption key.
+ * @returns Base64 string containing salt + check + IV + tag + ciphertext.
+ * @throws Error if options.Version is older than WRITE_VERSION_MIN.
+ * @throws DOMException if encryption fails.
+ */
+export async function encryptData(
+  options: AesOptions = {},
+  body: string,
+  passwd: string,
+): Promise<string> {
+  const keySize = options.KeySize || 256;
+  const aesMode = options.AesMode || "AES-GCM";
+
+  const salt = randomBytes(16);
+  const keys = await deriveKeys(passwd, salt, keySize, aesMode, options);
+
+  return sealEnvelope(options, body, salt, keys);
+}
+
+/**
+ * Encrypts plaintext using AES with keys expanded from a random data key
+ * (see generateDataKey) instead of a password. Requires format-version 3.
+ *
+ * @param options - AES options including KeySize and AesMode.
+ * @param body - The plaintext string to encrypt.
+ * @param dataKey - 256-bit data key of the note.
+ * @returns Base64 string containing salt + check + IV + tag + ciphertext.
+ * @throws Error if options.Version is older than WRITE_VERSION_MIN.
+ * @throws DOMException if encryption fails.
+ */
+export async function encryptDataWithKey(
+  options: AesOptions = {},
+  body: string,
+  dataKey: Uint8Array,
+): Promise<string> {
+  const keySize = options.KeySize || 256;
+  const aesMode = options.AesMode || "AES-GCM";
+
+  // The salt is not used to derive anything here, it only keeps the payload
+  // layout identical to password-keyed notes.
+  const salt = randomBytes(16);
+  const keys = await expandKeys(dataKey, keySize, aesMode);
+
+  return sealEnvelope(options, body, salt, keys);
+}
+
+/**
+ * Decrypts Base64 string produced by encryptData.
+ * Supports AES-GCM, AES-CBC, and AES-CTR.
+ *
+ * @param options - AES options including KeySize and AesMode.
+ * @param encryptedBase64 - Base64 string containing salt + check + IV + tag + ciphertext.
+ * @param passwd - Password used to derive the encryption key.
+ * @returns Decrypted plaintext string.
+ * @throws WrongPasswordError if the password is incorrect.
+ * @throws IntegrityError if the header or ciphertext was modified (format-version >= 2).
+ * @throws DOMException if decryption fails.
+ */
+export async function decryptData(
+  options: AesOptions = {},
+  encryptedBase64: string,
+  passwd: string,
+): Promise<string> {
+  const keySize = options.KeySize || 256;
+  const aesMode = options.AesMode || "AES-GCM";
+
+  const envelope = splitEnvelope(options, encryptedBase64);
+  const keys = await deriveKeys(
+    passwd,
+    envelope.salt,
+    keySize,
+    aesMode,
+    options,
+  );
+
+  return openEnvelope(options, envelope, keys);
+}
+
+/**
+ * Decrypts Base64 string produced by encryptDataWithKey.
+ *
+ * @param options - AES options including KeySize and AesMode.
+ * @param encryptedBase64 - Base64 string containing salt + check + IV + tag + ciphertext.
+ * @param dataKey - 256-bit data key of the note.
+ * @returns Decrypted plaintext string.
+ * @throws WrongPasswordError if the data key does not belong to the note.
+ * @throws IntegrityError if the header or ciphertext was modified.
+ * @throws DOMException if decryption fails.
+ */
+export async function decryptDataWithKey(
+  options: AesOptions = {},
+  encryptedBase64: string,
+  dataKey: Uint8Array,
+): Promise<string> {
+  const keySize = options.KeySize || 256;
+  const aesMode = options.AesMode || "AES-GCM";
+
+  const envelope = splitEnvelope(options, encryptedBase64);
+  const keys = await expandKeys(dataKey, keySize, aesMode);
+
+  return openEnvelope(options, envelope, keys);
+}
+
+/**
+ * Derives the keys of a password-keyed envelope without decrypting it, so
+ * they can be kept for the session and reused with decryptDataWithKeys.
+ *
+ * @param options - AES options including KeySize, AesMode, Kdf and Version.
+ * @param encryptedBase64 - Base64 string produced by encryptData.
+ * @param passwd - Password used to derive the encryption key.
+ * @returns Keys of the envelope.
+ * @throws DOMException if key derivation fails.
+ */
+export async function deriveEnvelopeKeys(
+  options: AesOptions = {},
+  encryptedBase64: string,
+  passwd: string,
+): Promise<EnvelopeKeys> {
+  const keySize = options.KeySize || 256;
+  const aesMode = options.AesMode || "AES-GCM";
+
+  const envelope = splitEnvelope(options, encryptedBase64);
+  return deriveKeys(passwd, envelope.salt, keySize, aesMode, options);
+}
+
+/**
+ * Expands the keys of a keyslot envelope from its data key, see
+ * deriveEnvelopeKeys.
+ *
+ * @param options - AES options including KeySize and AesMode.
+ * @param dataKey - 256-bit data key of the note.
+ * @returns Keys of the envelope.
+ * @throws DOMException if key expansion fails.
+ */
+export async function expandEnvelopeKeys(
+  options: AesOptions = {},
+  dataKey: Uint8Array,
+): Promise<EnvelopeKeys> {
+  return expandKeys(
+    dataKey,
+    options.KeySize || 256,
+    options.AesMode || "AES-GCM",
+  );
+}
+
+/**
+ * Decrypts Base64 string with keys from deriveEnvelopeKeys or
+ * expandEnvelopeKeys.
+ *
+ * @param options - AES options including KeySize and AesMode.
+ * @param encryptedBase64 - Base64 string containing salt + check + IV + tag + ciphertext.
+ * @param keys - Keys of the envelope.
+ * @returns Decrypted plaintext string.
+ * @throws WrongPasswordError if the keys do not belong to the envelope.
+ * @throws IntegrityError if the header or ciphertext was modified (format-version >= 2).
+ * @throws DOMException if decryption fails.
+ */
+export async function decryptDataWithKeys(
+  options: AesOptions = {},
+  encryptedBase64: string,
+  keys: EnvelopeKeys,
+): Promise<string> {
+  return openEnvelope(options, splitEnvelope(options, encryptedBase64), keys);
+}
+
+/**
+ * Encrypts new plaintext under the keys of an existing envelope, keeping its
+ * salt and header so the note's password, KDF and keyslots stay valid. A
+ * fresh IV is drawn for every call.
+ *
+ * @param options - AES options including KeySize, AesMode and Version.
+ * @param body - The plaintext string to encrypt.
+ * @param encryptedBase64 - Current Base64 payload of the note.
+ * @param keys - Keys of the envelope.
+ * @returns Base64 string containing salt + check + IV + tag + ciphertext.
+ * @throws Error if the note has a read-only format version, see WRITE_VERSION_MIN.
+ * @throws DOMException if encryption fails.
+ */
+export async function reencryptData(
+  options: AesOptions = {},
+  body: string,
+  encryptedBase64: string,
+  keys: EnvelopeKeys,
+): Promise<string> {
+  const { salt } = splitEnvelope(options, encryptedBase64);
+  return sealEnvelope(options, body, salt, keys);
+}
+
+/**
+ * Returns the salt of an envelope, which identifies the note's keys.
+ *
+ * @param encryptedBase64 - Base64 string containing salt + check + IV + tag + ciphertext.
+ * @returns Hex encoded salt.
+ */
+export function envelopeSalt(encryptedBase64: string): string {
+  return bytesToHex(base64ToArrayBuffer(encryptedBase64).slice(0, 16));
+}
+
+/**
+ * Returns the bytes of an envelope that are not ciphertext.
+ *
+ * @param options - AES options including AesMode and Version.
+ * @returns Length of salt, key check value, IV and tag in bytes.
+ */
+export function envelopeOverhead(options: AesOptions): number {
+  const aesMode = options.AesMode || "AES-GCM";
+  const version = options.Version || FORMAT_VERSION;
+  return (
+    16 +
+    (version >= 2 ? CHECK_LENGTH : 0) +
+    (aesMode === "AES-GCM" ? 12 : 16) +
+    (aesMode === "AES-GCM" ? 16 : 32)
+  );
+}
+
+/**
+ * Checks the length of a decoded payload against the envelope layout of its
+ * mode and version, without decrypting it.
+ *
+ * @param options - AES options including AesMode and Version.
+ * @param length - Length of the decoded payload in bytes.
+ * @returns Description of the problem, or null if the length fits.
+ */
+export function envelopeLengthProblem(
+  options: AesOptions,
+  length: number,
+): string | null {
+  const aesMode = options.AesMode || "AES-GCM";
+  const overhead = envelopeOverhead(options);
+  if (length < overhead) {
+    return `${length} bytes is shorter than the ${overhead} bytes of salt, IV and tag of ${aesMode}`;
+  }
+
+  // PKCS#7 padding always adds at least one byte, up to a whole block
+  const ciphertext = length - overhead;
+  if (aesMode === "AES-CBC" && (ciphertext === 0 || ciphertext % 16 !== 0)) {
+    return `${ciphertext} bytes of ciphertext is not a whole number of AES-CBC blocks`;
+  }
+  return null;
+}
+
+/**
+ * Generates a random 256-bit data key for a note.
+ *
+ * @returns The data key.
+ */
+export function generateDataKey(): Uint8Array {
+  return randomBytes(32);
+}
+
+/**
+ * Wraps a data key under a password, producing a keyslot.
+ * The key encryption key is derived with the configured KDF and a fresh
+ * salt, the data key is sealed with AES-256-GCM.
+ *
+ * @param dataKey - 256-bit data key to wrap.
+ * @param passwd - Password of the keyslot.
+ * @param options - AES options including Kdf and KdfParams.
+ * @returns Base64 string containing salt + IV + wrapped key + tag.
+ * @throws DOMException if wrapping fails.
+ */
+export async function wrapKey(
+  dataKey: Uint8Array,
+  passwd: string,
+  options: AesOptions = {},
+): Promise<string> {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const kek = await deriveKeys(passwd, salt, 256, "AES-GCM", {
+    ...options,
+    Version: FORMAT_VERSION,
+  });
+
+  const wrapped = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv: iv.buffer as ArrayBuffer, tagLength: 128 },
+    kek.key,
+    dataKey,
+  );
+
+  return arrayBufferToBase64(concatBytes(salt, iv, new Uint8Array(wrapped)));
+}
+
+/**
+ * Unwraps a data key from a keyslot produced by wrapKey.
+ *
+ * @param wrappedBase64 - Base64 string containing salt + IV + wrapped key + tag.
+ * @param passwd - Password of the keyslot.
+ * @param options - AES options including Kdf and KdfParams of the keyslot.
+ * @returns The data key.
+ * @throws WrongPasswordError if the password does not open the keyslot.
+ */
+export async function unwrapKey(
+  wrappedBase64: string,
+  passwd: string,
+  options: AesOptions = {},
+): Promise<Uint8Array> {
+  const wrapped = base64ToArrayBuffer(wrappedBase64);
+  const salt = wrapped.slice(0, 16);
+  const iv = wrapped.slice(16, 28);
+  const kek = await deriveKeys(passwd, salt, 256, "AES-GCM", {
+    ...options,
+    Version: FORMAT_VERSION,
+  });
+
+  try {
+    const dataKey = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: iv.buffer as ArrayBuffer, tagLength: 128 },
+      kek.key,
+      wrapped.slice(28).buffer as ArrayBuffer,
+    );
+    return new Uint8Array(dataKey);
+  } catch {
+    throw new WrongPasswordError();
+  }
+}
+
+/**
+ * Wraps a data key under another random key (e.g. a vault key) instead of a
+ * password. The wrapping key is expanded with HKDF, the data key is sealed
+ * with AES-256-GCM.
+ *
+ * @param dataKey - 256-bit data key to wrap.
+ * @param wrappingKey - 256-bit key to wrap it with.
+ * @returns Base64 string containing IV + wrapped key + tag.
+ * @throws DOMException if wrapping fails.
+ */
+export async function wrapKeyWithKey(
+  dataKey: Uint8Array,
+  wrappingKey: Uint8Array,
+): Promise<string> {
+  const iv = randomBytes(12);
+  const kek = await expandKeys(wrappingKey, 256, "AES-GCM");
+
+  const wrapped = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv: iv.buffer as ArrayBuffer, tagLength: 128 },
+    kek.key,
+    dataKey,
+  );
+
+  return arrayBufferToBase64(concatBytes(iv, new Uint8Array(wrapped)));
+}
+
+/**
+ * Unwraps a data key produced by wrapKeyWithKey.
+ *
+ * @param wrappedBase64 - Base64 string containing IV + wrapped key + tag.
+ * @param wrappingKey - 256-bit key it was wrapped with.
+ * @returns The data key.
+ * @throws WrongPasswordError if the wrapping key does not match.
+ */
+export async function unwrapKeyWithKey(
+  wrappedBase64: string,
+  wrappingKey: Uint8Array,
+): Promise<Uint8Array> {
+  const wrapped = base64ToArrayBuffer(wrappedBase64);
+  const iv = wrapped.slice(0, 12);
+  const kek = await expandKeys(wrappingKey, 256, "AES-GCM");
+
+  try {
+    const dataKey = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: iv.buffer as ArrayBuffer, tagLength: 128 },
+      kek.key,
+      wrapped.slice(12).buffer as ArrayBuffer,
+    );
+    return new Uint8Array(dataKey);
+  } catch {
+    throw new WrongPasswordError();
+  }
+}
+
+/**
+ * Authenticates text under a random key (e.g. a data key) with
+ * HMAC-SHA256. The HMAC key is expanded from the key with HKDF under the
+ * label, so it is independent of the other keys expanded from it.
+ *
+ * @param key - 256-bit random key.
+ * @param label - HKDF info label of this use of the key.
+ * @param message - Text to authenticate.
+ * @returns Base64 MAC.
+ * @throws DOMException if the MAC cannot be computed.
+ */
+export async function macWithKey(
+  key: Uint8Array,
+  label: string,
+  message: string,
+): Promise<string> {
+  const mac = await crypto.subtle.sign(
+    "HMAC",
+    await expandMacKey(key, label),
+    new TextEncoder().encode(message),
+  );
+  return arrayBufferToBase64(new Uint8Array(mac));
+}
+
+/**
+ * Verifies a MAC produced by macWithKey.
+ *
+ * @param key - 256-bit random key.
+ * @param label - HKDF info label of this use of the key.
+ * @param message - Authenticated text.
+ * @param mac - Base64 MAC.
+ * @returns True if the MAC matches.
+ * @throws DOMException if the MAC cannot be computed.
+ */
+export async function verifyMacWithKey(
+  key: Uint8Array,
+  label: string,
+  message: string,
+  mac: string,
+): Promise<boolean> {
+  return crypto.subtle.verify(
+    "HMAC",
+    await expandMacKey(key, label),
+    base64ToArrayBuffer(mac),
+    new TextEncoder().encode(message),
+  );
+}
+
+/**
+ * Encrypts raw bytes, e.g. an attachment, under a random key. The key is
+ * expanded with HKDF, the bytes are sealed with AES-256-GCM.
+ *
+ * @param bytes - Bytes to encrypt.
+ * @param key - 256-bit random key.
+ * @returns IV + ciphertext + tag.
+ * @throws DOMException if encryption fails.
+ */
+export async function encryptBytesWithKey(
+  bytes: Uint8Array,
+  key: Uint8Array,
+): Promise<Uint8Array> {
+  const iv = randomBytes(12);
+  const { key: aesKey } = await expandKeys(key, 256, "AES-GCM");
+
+  const sealed = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv: iv.buffer as ArrayBuffer, tagLength: 128 },
+    aesKey,
+    bytes,
+  );
+
+  return concatBytes(iv, new Uint8Array(sealed));
+}
+
+/**
+ * Decrypts bytes produced by encryptBytesWithKey.
+ *
+ * @param sealed - IV + ciphertext + tag.
+ * @param key - 256-bit key they were encrypted with.
+ * @returns The plain bytes.
+ * @throws IntegrityError if the key does not match or the bytes were modified.
+ */
+export async function decryptBytesWithKey(
+  sealed: Uint8Array,
+  key: Uint8Array,
+): Promise<Uint8Array> {
+  const { key: aesKey } = await expandKeys(key, 256, "AES-GCM");
+
+  try {
+    const bytes = await crypto.subtle.decrypt(
+      {
+        name: "AES-GCM",
+        iv: sealed.slice(0, 12).buffer as ArrayBuffer,
+        tagLength: 128,
+      },
+      aesKey,
+      sealed.slice(12).buffer as ArrayBuffer,
+    );
+    return new Uint8Array(bytes);
+  } catch {
+    throw new IntegrityError();
+  }
+}
+
+/**
+ * Generates an ECDH P-256 keypair for recipient encryption.
+ *
+ * @returns Base64 raw public key and PKCS#8 private key bytes.
+ * @throws DOMException if key generation fails.
+ */
+export async function generateKeyPair(): Promise<{
+  publicKey: string;
+  privateKey: Uint8Array;
+}> {
+  const pair = await crypto.subtle.generateKey(
+    { name: "ECDH", namedCurve: "P-256" },
+    true,
+    ["deriveBits"],
+  );
+  const publicKey = await crypto.subtle.exportKey("raw", pair.publicKey);
+  const privateKey = await crypto.subtle.exportKey("pkcs8", pair.privateKey);
+
+  return {
+    publicKey: arrayBufferToBase64(new Uint8Array(publicKey)),
+    privateKey: new Uint8Array(privateKey),
+  };
+}
+
+/**
+ * Computes the fingerprint of a public key, validating it on the way.
+ *
+ * @param publicKey - Base64 raw P-256 public key.
+ * @returns First 8 bytes of its SHA-256 as hex.
+ * @throws DOMException if the public key is not a valid P-256 point.
+ */
+export async function publicKeyFingerprint(publicKey: string): Promise<string> {
+  const raw = base64ToArrayBuffer(publicKey);
+  await importPublicKey(raw);
+
+  const digest = await crypto.subtle.digest("SHA-256", raw);
+  return bytesToHex(new Uint8Array(digest).slice(0, 8));
+}
+
+/**
+ * Wraps a data key for the holder of a public key. An ephemeral ECDH
+ * keypair agrees a shared secret with the recipient, which wraps the data
+ * key as in wrapKeyWithKey.
+ *
+ * @param dataKey - 256-bit data key to wrap.
+ * @param publicKey - Base64 raw P-256 public key of the recipient.
+ * @returns Base64 ephemeral public key and wrapped data key.
+ * @throws DOMException if wrapping fails.
+ */
+export async function wrapKeyForRecipient(
+  dataKey: Uint8Array,
+  publicKey: string,
+): Promise<{ epk: string; data: string }> {
+  const recipientKey = await importPublicKey(base64ToArrayBuffer(publicKey));
+  const ephemeral = await crypto.subtle.generateKey(
+    { name: "ECDH", namedCurve: "P-256" },
+    true,
+    ["deriveBits"],
+  );
+
+  const shared = await crypto.subtle.deriveBits(
+    { name: "ECDH", public: recipientKey },
+    ephemeral.privateKey,
+    256,
+  );
+  const epk = await crypto.subtle.exportKey("raw", ephemeral.publicKey);
+
+  return {
+    epk: arrayBufferToBase64(new Uint8Array(epk)),
+    data: await wrapKeyWithKey(dataKey, new Uint8Array(shared)),
+  };
+}
+
+/**
+ * Unwraps a data key produced by wrapKeyForRecipient.
+ *
+ * @param wrappedBase64 - Base64 wrapped data key.
+ * @param epk - Base64 ephemeral public key of the sender.
+ * @param privateKey - PKCS#8 private key of the recipient.
+ * @returns The data key.
+ * @throws WrongPasswordError if the private key does not match.
+ */
+export async function unwrapKeyFromSender(
+  wrappedBase64: string,
+  epk: string,
+  privateKey: Uint8Array,
+): Promise<Uint8Array> {
+  const recipientKey = await crypto.subtle.importKey(
+    "pkcs8",
+    privateKey,
+    { name: "ECDH", namedCurve: "P-256" },
+    false,
+    ["deriveBits"],
+  );
+  const shared = await crypto.subtle.deriveBits(
+    { name: "ECDH", public: await importPublicKey(base64ToArrayBuffer(epk)) },
+    recipientKey,
+    256,
+  );
+
+  return unwrapKeyWithKey(wrappedBase64, new Uint8Array(shared));
+}
+
+/**
+ * Canonical form of the encryption header. This is both what is written to
+ * the note's Encryption section and what is authenticated as AAD, so it is
+ * always rebuilt from parsed values instead of taken from the note text.
+ *
+ * @param options - AES options including KeySize, AesMode, Kdf and Version.
+ * @returns Header lines separated by "\n".
+ */
+export function canonicalHeader(options: AesOptions = {}): string {
+  const lines = [
+    `format-version: ${options.Version || FORMAT_VERSION}`,
+    `mode: ${options.AesMode || "AES-GCM"}`,
+    `size: ${options.KeySize || 256}`,
+  ];
+
+  // Keyslots carry their own KDF, the content key is not password-derived.
+  if (options.KeySource === "keyslots") {
+    lines.push("key: keyslots");
+  } else {
+    const { kdf, params } = resolveKdf(options);
+    lines.push(`kdf: ${kdf}`, `kdf-params: ${formatKdfParams(params)}`);
+  }
+
+  // Written only when used, so the header of other notes stays unchanged
+  if ((options.Compression || "none") !== "none") {
+    lines.push(`compression: ${options.Compression}`);
+  }
+  if ((options.Padding || "none") !== "none") {
+    lines.push(`padding: ${options.Padding}`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * ****************************************************************************
+ *                                Helper Funcs
+ * ****************************************************************************
+ */
+
+/**
+ * Custom error class to indicate a wrong password during decryption.
+ * Thrown by decryptData when AES-GCM auth tag verification fails or
+ * HMAC verification fails for AES-CBC/CTR modes.
+ *
+ * @extends Error
+ */
+export class WrongPasswordError extends Error {
+  constructor() {
+    super("Wrong password");
+    this.name = "WrongPasswordError";
+  }
+}
+
+/**
+ * Custom error class to indicate a modified note during decryption.
+ * Thrown by decryptData when the password is correct (key check value
+ * matches) but the authentication of header and ciphertext fails.
+ *
+ * @extends Error
+ */
+export class IntegrityError extends Error {
+  constructor() {
+    super("Integrity check failed");
+    this.name = "IntegrityError";
+  }
+}
+
+/**
+ * Concatenates byte arrays.
+ *
+ * @param parts - Byte arrays to join in order.
+ * @returns A new Uint8Array holding all parts.
+ */
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0),
+  );
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Compares two byte arrays.
+ *
+ * @param a - First byte array.
+ * @param b - Second byte array.
+ * @returns True if both hold the same bytes.
+ */
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
+
+/**
+ * Serialize KDF cost parameters for the header (e.g. "t=2,m=19456,p=1").
+ *
+ * @param params - KDF parameters to serialize.
+ * @returns Comma separated key=value list.
+ */
+export function formatKdfParams(params: KdfParams): string {
+  return Object.keys(params)
+    .map((name) => `${name}=${params[name as keyof KdfParams]}`)
+    .join(",");
+}
+
+/**
+ * Parse KDF cost parameters written by formatKdfParams.
+ *
+ * @param line - Comma separated key=value list.
+ * @param kdf - KDF the parameters are for, to check their range.
+ * @returns Parsed parameters or null if malformed or out of range.
+ */
+export function parseKdfParams(line: string, kdf?: KdfName): KdfParams | null {
+  const params: KdfParams = {};
+  for (const pair of line.trim().split(",")) {
+    const match = pair.trim().match(/^([iNrtmp])=(\d+)$/);
+    if (!match) {
+      return null;
+    }
+    params[match[1] as keyof KdfParams] = parseInt(match[2]);
+  }
+  if (kdf && kdfParamsProblem(kdf, params)) {
+    return null;
+  }
+  return params;
+}
+
+/**
+ * Checks KDF cost parameters against KDF_PARAM_RANGES, missing ones are
+ * taken from the defaults.
+ *
+ * @param kdf - The KDF.
+ * @param params - Its cost parameters.
+ * @returns Description of the problem, or null if the parameters are usable.
+ */
+export function kdfParamsProblem(
+  kdf: KdfName,
+  params: KdfParams = {},
+): string | null {
+  const resolved = resolveKdf({ Kdf: kdf, KdfParams: params }).params;
+  const ranges = KDF_PARAM_RANGES[kdf];
+
+  for (const name of Object.keys(ranges) as (keyof KdfParams)[]) {
+    const value = resolved[name];
+    const { min, max } = ranges[name];
+    if (!Number.isSafeInteger(value) || value < min || value > max) {
+      return `${kdf} ${name}=${value} is out of range, expected ${min} to ${max}`;
+    }
+  }
+
+  if (kdf === "scrypt") {
+    if ((resolved.N & (resolved.N - 1)) !== 0) {
+      return `scrypt N=${resolved.N} is not a power of two`;
+    }
+    if (128 * resolved.N * resolved.r > KDF_MEMORY_MAX) {
+      return `scrypt N=${resolved.N} and r=${resolved.r} need more than ${KDF_MEMORY_MAX / 1024 / 1024} MiB of memory`;
+    }
+  }
+  if (kdf === "Argon2id" && resolved.m < 8 * resolved.p) {
+    return `Argon2id m=${resolved.m} is less than 8 KiB per lane of p=${resolved.p}`;
+  }
+  return null;
+}
+
 /**
- * Cipher options for the encryption
- * @interface
+ * Additional authenticated data of the envelope: the canonical header for
+ * format-version >= 2, nothing for legacy notes.
+ *
+ * @param options - AES options of the note.
+ * @returns AAD bytes.
  */
-export interface AesOptions {
-  /**
-   * AES key size in bits. Allowed values: 128, 256.
-   * NOTE: 192-bit is not supported by mobile compatible WebCrypto.
-   * @default 256
-   */
-  KeySize?: 128 | 256;
+function headerAad(options: AesOptions): Uint8Array {
+  if ((options.Version || FORMAT_VERSION) < 2) {
+    return new Uint8Array(0);
+  }
+  return new TextEncoder().encode(canonicalHeader(options));
+}
 
-  /**
-   * AES Mode. Allowed values: 'AES-CBC', 'AES-CTR', 'AES-GCM'.
-   * @default 'AES-GCM'
-   */
-  AesMode?: "AES-CBC" | "AES-CTR" | "AES-GCM";
+/**
+ * Builds the HMAC input for CBC/CTR modes. The AAD is length-prefixed so it
+ * cannot be shifted into the salt.
+ *
+ * @param aad - Additional authenticated data (empty for legacy notes).
+ * @param salt - KDF salt.
+ * @param iv - Cipher IV / counter.
+ * @param ciphertext - Encrypted data.
+ * @returns Bytes to sign or verify.
+ */
+function hmacInput(
+  aad: Uint8Array,
+  salt: Uint8Array,
+  iv: Uint8Array,
+  ciphertext: Uint8Array,
+): Uint8Array {
+  if (aad.length === 0) {
+    return concatBytes(salt, iv, ciphertext);
+  }
+  const aadLength = new Uint8Array(4);
+  new DataView(aadLength.buffer).setUint32(0, aad.length);
+  return concatBytes(aadLength, aad, salt, iv, ciphertext);
 }
 
 /**
- * Encrypts plaintext using AES with a password-derived key.
- * Supports AES-GCM, AES-CBC, and AES-CTR.
+ * Parts of a decoded envelope payload.
+ * @interface
+ */
+interface Envelope {
+  salt: Uint8Array;
+  check: Uint8Array;
+  iv: Uint8Array;
+  tag: Uint8Array;
+  ciphertext: Uint8Array;
+}
+
+/**
+ * Encrypts plaintext with the given envelope keys.
  *
- * @param options - AES options including KeySize and AesMode.
+ * @param options - AES options including KeySize, AesMode and Version.
  * @param body - The plaintext string to encrypt.
- * @param passwd - Password used to derive the encryption key.
- * @returns Base64 string containing salt + IV + tag + ciphertext.
+ * @param salt - Salt stored in front of the payload.
+ * @param keys - Keys of the envelope.
+ * @returns Base64 string containing salt + check + IV + tag + ciphertext.
+ * @throws Error if the format version is older than WRITE_VERSION_MIN.
  * @throws DOMException if encryption fails.
  */
-export async function encryptData(
-  options: AesOptions = {},
+async function sealEnvelope(
+  options: AesOptions,
   body: string,
-  passwd: string,
+  salt: Uint8Array,
+  keys: EnvelopeKeys,
 ): Promise<string> {
-  const keySize = options.KeySize || 256;
+  const version = options.Version || FORMAT_VERSION;
+  if (version < WRITE_VERSION_MIN) {
+    throw new Error(
+      `format-version ${version} is read-only, notes are written with ${WRITE_VERSION_MIN} or later`,
+    );
+  }
   const aesMode = options.AesMode || "AES-GCM";
 
-  const salt = new Uint8Array(16);
-  crypto.getRandomValues(salt);
-
-  const key = await pbdkf2(passwd, salt, keySize, aesMode);
-
   const ivLength = aesMode === "AES-GCM" ? 12 : 16;
-  const iv = new Uint8Array(ivLength);
-  crypto.getRandomValues(iv);
+  const iv = randomBytes(ivLength);
 
-  const encoder = new TextEncoder();
-  const plaintext = encoder.encode(body);
+  const plaintext = encodePlaintext(options, body);
+  const aad = headerAad(options);
 
   let encryptedData: Uint8Array;
   let tag: Uint8Array;
 
   if (aesMode === "AES-GCM") {
     const encrypted = await crypto.subtle.encrypt(
-      { name: "AES-GCM", iv: iv.buffer as ArrayBuffer, tagLength: 128 },
-      key,
+      {
+        name: "AES-GCM",
+        iv: iv.buffer as ArrayBuffer,
+        additionalData: aad.buffer as ArrayBuffer,
+        tagLength: 128,
+      },
+      keys.key,
       plaintext,
     );
     const encryptedArray = new Uint8Array(encrypted);
@@ -74,157 +1058,263 @@ export async function encryptData(
     if (aesMode === "AES-CTR") {
       encrypted = await crypto.subtle.encrypt(
         { name: "AES-CTR", counter: iv.buffer as ArrayBuffer, length: 64 },
-        key,
+        keys.key,
         plaintext,
       );
     } else {
       encrypted = await crypto.subtle.encrypt(
         { name: "AES-CBC", iv: iv.buffer as ArrayBuffer },
-        key,
+        keys.key,
         plaintext,
       );
     }
 
     encryptedData = new Uint8Array(encrypted);
 
-    const hmacKey = await deriveHmacKey(passwd, salt);
-
-    const dataToAuth = new Uint8Array(
-      salt.length + iv.length + encryptedData.length,
-    );
-    dataToAuth.set(salt, 0);
-    dataToAuth.set(iv, salt.length);
-    dataToAuth.set(encryptedData, salt.length + iv.length);
+    const dataToAuth = hmacInput(aad, salt, iv, encryptedData);
 
     const hmacSignature = await crypto.subtle.sign(
       "HMAC",
-      hmacKey,
+      keys.hmacKey,
       dataToAuth.buffer as ArrayBuffer,
     );
 
     tag = new Uint8Array(hmacSignature);
   }
 
-  const result = new Uint8Array(
-    salt.length + iv.length + tag.length + encryptedData.length,
+  return arrayBufferToBase64(
+    concatBytes(salt, keys.check, iv, tag, encryptedData),
   );
-  result.set(salt, 0);
-  result.set(iv, salt.length);
-  result.set(tag, salt.length + iv.length);
-  result.set(encryptedData, salt.length + iv.length + tag.length);
-
-  return arrayBufferToBase64(result);
 }
 
 /**
- * Decrypts Base64 string produced by encryptData.
- * Supports AES-GCM, AES-CBC, and AES-CTR.
+ * Splits a Base64 payload into its parts.
  *
- * @param options - AES options including KeySize and AesMode.
- * @param encryptedBase64 - Base64 string containing salt + IV + tag + ciphertext.
- * @param passwd - Password used to derive the encryption key.
- * @returns Decrypted plaintext string.
- * @throws Error if password is incorrect or HMAC verification fails.
- * @throws DOMException if decryption fails.
+ * @param options - AES options including AesMode and Version.
+ * @param encryptedBase64 - Base64 string containing salt + check + IV + tag + ciphertext.
+ * @returns Parts of the payload.
  */
-export async function decryptData(
-  options: AesOptions = {},
-  encryptedBase64: string,
-  passwd: string,
-): Promise<string> {
-  const keySize = options.KeySize || 256;
+function splitEnvelope(options: AesOptions, encryptedBase64: string): Envelope {
   const aesMode = options.AesMode || "AES-GCM";
+  const version = options.Version || FORMAT_VERSION;
 
   const encryptedBuffer = base64ToArrayBuffer(encryptedBase64);
 
-  const salt = new Uint8Array(encryptedBuffer.slice(0, 16));
+  const salt = encryptedBuffer.slice(0, 16);
+  const checkLength = version >= 2 ? CHECK_LENGTH : 0;
+  const check = encryptedBuffer.slice(16, 16 + checkLength);
+
+  const ivStart = 16 + checkLength;
   const ivLength = aesMode === "AES-GCM" ? 12 : 16;
-  const iv = new Uint8Array(encryptedBuffer.slice(16, 16 + ivLength));
+  const iv = encryptedBuffer.slice(ivStart, ivStart + ivLength);
 
+  const tagStart = ivStart + ivLength;
   const tagLength = aesMode === "AES-GCM" ? 16 : 32;
-  const tag = new Uint8Array(
-    encryptedBuffer.slice(16 + ivLength, 16 + ivLength + tagLength),
-  );
-  const ciphertext = new Uint8Array(
-    encryptedBuffer.slice(16 + ivLength + tagLength),
-  );
+  const tag = encryptedBuffer.slice(tagStart, tagStart + tagLength);
+  const ciphertext = encryptedBuffer.slice(tagStart + tagLength);
+
+  return { salt, check, iv, tag, ciphertext };
+}
+
+/**
+ * Verifies and decrypts an envelope with the given keys.
+ *
+ * @param options - AES options including KeySize, AesMode and Version.
+ * @param envelope - Parts of the payload.
+ * @param keys - Keys of the envelope.
+ * @returns Decrypted plaintext string.
+ * @throws WrongPasswordError if the keys do not belong to the envelope.
+ * @throws IntegrityError if the header or ciphertext was modified (format-version >= 2).
+ * @throws DOMException if decryption fails.
+ */
+async function openEnvelope(
+  options: AesOptions,
+  envelope: Envelope,
+  keys: EnvelopeKeys,
+): Promise<string> {
+  const aesMode = options.AesMode || "AES-GCM";
+  const version = options.Version || FORMAT_VERSION;
+  const { salt, check, iv, tag, ciphertext } = envelope;
 
-  const key = await pbdkf2(passwd, salt, keySize, aesMode);
+  // The key check value only depends on password, salt and KDF, so a wrong
+  // password is told apart from a modified header or ciphertext.
+  if (!equalBytes(check, keys.check)) {
+    throw new WrongPasswordError();
+  }
+  const authError = () =>
+    version >= 2 ? new IntegrityError() : new WrongPasswordError();
 
+  const aad = headerAad(options);
   let decrypted: ArrayBuffer;
 
   if (aesMode === "AES-GCM") {
-    const ciphertextWithTag = new Uint8Array(ciphertext.length + tag.length);
-    ciphertextWithTag.set(ciphertext, 0);
-    ciphertextWithTag.set(tag, ciphertext.length);
+    const ciphertextWithTag = concatBytes(ciphertext, tag);
 
     try {
       decrypted = await crypto.subtle.decrypt(
-        { name: "AES-GCM", iv: iv.buffer as ArrayBuffer, tagLength: 128 },
-        key,
+        {
+          name: "AES-GCM",
+          iv: iv.buffer as ArrayBuffer,
+          additionalData: aad.buffer as ArrayBuffer,
+          tagLength: 128,
+        },
+        keys.key,
         ciphertextWithTag.buffer as ArrayBuffer,
       );
     } catch {
-      throw new WrongPasswordError();
+      throw authError();
     }
   } else {
-    const hmacKey = await deriveHmacKey(passwd, salt);
-
-    const dataToVerify = new Uint8Array(
-      salt.length + iv.length + ciphertext.length,
-    );
-    dataToVerify.set(salt, 0);
-    dataToVerify.set(iv, salt.length);
-    dataToVerify.set(ciphertext, salt.length + iv.length);
+    const dataToVerify = hmacInput(aad, salt, iv, ciphertext);
 
     const isValid = await crypto.subtle.verify(
       "HMAC",
-      hmacKey,
+      keys.hmacKey,
       tag.buffer as ArrayBuffer,
       dataToVerify.buffer as ArrayBuffer,
     );
 
     if (!isValid) {
-      throw new WrongPasswordError();
+      throw authError();
     }
 
     if (aesMode === "AES-CTR") {
       decrypted = await crypto.subtle.decrypt(
         { name: "AES-CTR", counter: iv.buffer as ArrayBuffer, length: 64 },
-        key,
+        keys.key,
         ciphertext.buffer as ArrayBuffer,
       );
     } else {
       decrypted = await crypto.subtle.decrypt(
         { name: "AES-CBC", iv: iv.buffer as ArrayBuffer },
-        key,
+        keys.key,
         ciphertext.buffer as ArrayBuffer,
       );
     }
   }
 
-  const decoder = new TextDecoder();
-  return decoder.decode(decrypted);
+  return decodePlaintext(options, new Uint8Array(decrypted));
 }
 
 /**
- * ****************************************************************************
- *                                Helper Funcs
- * ****************************************************************************
+ * Encodes plaintext for the envelope: UTF-8, then compressed and padded as
+ * the options say.
+ *
+ * @param options - AES options including Compression and Padding.
+ * @param body - The plaintext string.
+ * @returns Bytes to encrypt.
  */
+function encodePlaintext(options: AesOptions, body: string): Uint8Array {
+  let plaintext = new TextEncoder().encode(body);
+  if (options.Compression === "deflate") {
+    plaintext = deflateRaw(plaintext);
+  }
+  if ((options.Padding || "none") !== "none") {
+    // Length prefix, content, zeros up to the bucket
+    const padded = new Uint8Array(
+      paddedLength(options.Padding, plaintext.length + 4),
+    );
+    new DataView(padded.buffer).setUint32(0, plaintext.length);
+    padded.set(plaintext, 4);
+    plaintext = padded;
+  }
+  return plaintext;
+}
 
 /**
- * Custom error class to indicate a wrong password during decryption.
- * Thrown by decryptData when AES-GCM auth tag verification fails or
- * HMAC verification fails for AES-CBC/CTR modes.
+ * Reverses encodePlaintext on decrypted bytes.
  *
- * @extends Error
+ * @param options - AES options including Compression and Padding.
+ * @param plaintext - Decrypted bytes.
+ * @returns The plaintext string.
+ * @throws IntegrityError if the padding or compressed data is invalid.
  */
-export class WrongPasswordError extends Error {
-  constructor() {
-    super("Wrong password");
-    this.name = "WrongPasswordError";
+function decodePlaintext(options: AesOptions, plaintext: Uint8Array): string {
+  if ((options.Padding || "none") !== "none") {
+    const length =
+      plaintext.length >= 4
+        ? new DataView(plaintext.buffer, plaintext.byteOffset).getUint32(0)
+        : -1;
+    if (length < 0 || length > plaintext.length - 4) {
+      throw new IntegrityError();
+    }
+    plaintext = plaintext.slice(4, 4 + length);
+  }
+  if (options.Compression === "deflate") {
+    try {
+      plaintext = inflateRaw(plaintext);
+    } catch {
+      throw new IntegrityError();
+    }
+  }
+  return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * Checks a padding policy read from a note header.
+ *
+ * @param padding - Value of the padding line.
+ * @returns True if encryptData can write and decryptData can remove it.
+ */
+export function isPaddingPolicy(
+  padding: string,
+): padding is AesOptions["Padding"] {
+  if (padding === "none" || padding === "pow2") {
+    return true;
+  }
+  const match = padding.match(/^block-(\d+)$/);
+  const block = match ? parseInt(match[1]) : 0;
+  return block >= PADDING_BLOCK_RANGE.min && block <= PADDING_BLOCK_RANGE.max;
+}
+
+/**
+ * Length of padded plaintext for a padding policy.
+ *
+ * @param padding - Padding policy other than 'none'.
+ * @param length - Length of the length prefix and content in bytes.
+ * @returns Padded length in bytes.
+ */
+function paddedLength(padding: AesOptions["Padding"], length: number): number {
+  const block = padding.match(/^block-(\d+)$/);
+  if (block) {
+    const size = parseInt(block[1]);
+    return Math.ceil(length / size) * size;
+  }
+
+  let padded = PADDING_MIN;
+  while (padded < length) {
+    padded *= 2;
   }
+  return padded;
+}
+
+/**
+ * Imports a raw P-256 public key for ECDH.
+ *
+ * @param raw - Raw (uncompressed) public key bytes.
+ * @returns A Promise that resolves to the public CryptoKey.
+ * @throws DOMException if the bytes are not a valid P-256 point.
+ */
+function importPublicKey(raw: Uint8Array): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    raw,
+    { name: "ECDH", namedCurve: "P-256" },
+    true,
+    [],
+  );
+}
+
+/**
+ * Returns cryptographically random bytes.
+ *
+ * @param length - Number of bytes.
+ * @returns Random Uint8Array.
+ */
+function randomBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  crypto.getRandomValues(bytes);
+  return bytes;
 }
 
 /**
@@ -233,7 +1323,7 @@ export class WrongPasswordError extends Error {
  * @param buffer - Input Uint8Array.
  * @returns Base64-encoded string.
  */
-function arrayBufferToBase64(buffer: Uint8Array): string {
+export function arrayBufferToBase64(buffer: Uint8Array): string {
   let binary = "";
   const len = buffer.byteLength;
   for (let i = 0; i < len; i++) {
@@ -259,24 +1349,91 @@ function base64ToArrayBuffer(base64: string): Uint8Array {
 }
 
 /**
- * Derives a CryptoKey from a password using PBKDF2.
+ * Converts a Uint8Array to a hex string.
+ *
+ * @param bytes - Input Uint8Array.
+ * @returns Lower case hex string.
+ */
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((byte) => `0${byte.toString(16)}`.slice(-2))
+    .join("");
+}
+
+/**
+ * Converts a hex string to a Uint8Array.
+ *
+ * @param hex - Hex string of even length.
+ * @returns Decoded Uint8Array.
+ */
+export function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Returns the KDF and its cost parameters, falling back to the defaults.
+ *
+ * @param options - AES options including Kdf and KdfParams.
+ * @returns The KDF name and the complete set of its parameters.
+ */
+export function resolveKdf(options: AesOptions = {}): {
+  kdf: KdfName;
+  params: KdfParams;
+} {
+  const kdf = options.Kdf || "PBKDF2";
+  return { kdf, params: { ...KDF_DEFAULTS[kdf], ...options.KdfParams } };
+}
+
+/**
+ * Derives raw key bits from a password using the configured KDF.
  *
  * @param password - The user-provided password.
  * @param salt - A unique salt (Uint8Array) used in key derivation.
- * @param keySize - AES key size in bits (128 or 256).
- * @param aesMode - AES algorithm mode ('AES-CBC', 'AES-CTR', 'AES-GCM').
- * @returns A Promise that resolves to a CryptoKey for AES encryption/decryption.
+ * @param length - Number of bits to derive.
+ * @param options - AES options including Kdf and KdfParams.
+ * @returns A Promise that resolves to the derived bits.
  * @throws DOMException if key derivation fails or invalid parameters are provided.
  */
-export async function pbdkf2(
+async function deriveBits(
   password: string,
   salt: Uint8Array,
-  keySize: number,
-  aesMode: string,
-): Promise<CryptoKey> {
+  length: number,
+  options: AesOptions,
+): Promise<ArrayBuffer> {
+  const { kdf, params } = resolveKdf(options);
   const encoder = new TextEncoder();
   const passwordBuffer = encoder.encode(password);
 
+  if (kdf === "scrypt") {
+    const derived = await scrypt({
+      password: passwordBuffer,
+      salt,
+      costFactor: params.N,
+      blockSize: params.r,
+      parallelism: params.p,
+      hashLength: length / 8,
+      outputType: "binary",
+    });
+    return derived.slice().buffer as ArrayBuffer;
+  }
+
+  if (kdf === "Argon2id") {
+    const derived = await argon2id({
+      password: passwordBuffer,
+      salt,
+      iterations: params.t,
+      memorySize: params.m,
+      parallelism: params.p,
+      hashLength: length / 8,
+      outputType: "binary",
+    });
+    return derived.slice().buffer as ArrayBuffer;
+  }
+
   const keyMaterial = await crypto.subtle.importKey(
     "raw",
     passwordBuffer,
@@ -285,63 +1442,218 @@ export async function pbdkf2(
     ["deriveBits"],
   );
 
-  const derivedBits = await crypto.subtle.deriveBits(
+  return crypto.subtle.deriveBits(
     {
       name: "PBKDF2",
       salt: salt.buffer as ArrayBuffer,
-      iterations: 100_000,
+      iterations: params.i,
       hash: "SHA-256",
     },
     keyMaterial,
-    keySize,
+    length,
   );
+}
 
-  return crypto.subtle.importKey("raw", derivedBits, { name: aesMode }, false, [
-    "encrypt",
-    "decrypt",
-  ]);
+/**
+ * Keys of an envelope.
+ * @interface
+ */
+export interface EnvelopeKeys {
+  /** AES key for the ciphertext. */
+  key: CryptoKey;
+  /** HMAC key, only for CBC and CTR modes. */
+  hmacKey: CryptoKey | null;
+  /** Key check value, empty for format-version 1. */
+  check: Uint8Array;
 }
 
 /**
- * Derives an HMAC key from a password for message authentication.
- * Used for CBC and CTR modes.
+ * Derives the keys of an envelope from a password.
+ * format-version 1 derives the AES and HMAC keys with separate KDF runs.
+ * format-version 2 runs the KDF once into a 256-bit secret, the AES key is
+ * its prefix, the HMAC key the full secret, plus a key check value.
+ * format-version 3 runs the KDF once and expands independent keys with HKDF.
  *
  * @param password - The user-provided password.
  * @param salt - A unique salt (Uint8Array) used in key derivation.
- * @returns A Promise that resolves to a CryptoKey for HMAC signing and verification.
+ * @param keySize - AES key size in bits (128 or 256).
+ * @param aesMode - AES algorithm mode ('AES-CBC', 'AES-CTR', 'AES-GCM').
+ * @param options - AES options including Kdf, KdfParams and Version.
+ * @returns AES key, HMAC key (CBC/CTR only) and key check value.
  * @throws DOMException if key derivation fails or invalid parameters are provided.
  */
-export async function deriveHmacKey(
+async function deriveKeys(
   password: string,
   salt: Uint8Array,
-): Promise<CryptoKey> {
-  const encoder = new TextEncoder();
-  const passwordBuffer = encoder.encode(password);
+  keySize: number,
+  aesMode: string,
+  options: AesOptions,
+): Promise<EnvelopeKeys> {
+  const version = options.Version || FORMAT_VERSION;
+  const needsHmac = aesMode !== "AES-GCM";
 
-  const keyMaterial = await crypto.subtle.importKey(
-    "raw",
-    passwordBuffer,
-    "PBKDF2",
-    false,
-    ["deriveBits"],
-  );
+  if (version < 2) {
+    return {
+      key: await deriveKey(password, salt, keySize, aesMode, options),
+      hmacKey: needsHmac ? await deriveHmacKey(password, salt, options) : null,
+      check: new Uint8Array(0),
+    };
+  }
+
+  const secret = new Uint8Array(await deriveBits(password, salt, 256, options));
+
+  if (version < 3) {
+    const digest = await crypto.subtle.digest(
+      "SHA-256",
+      concatBytes(new TextEncoder().encode("SecureNotes key check"), secret),
+    );
+    return {
+      key: await importAesKey(secret.slice(0, keySize / 8), aesMode),
+      hmacKey: needsHmac ? await importHmacKey(secret) : null,
+      check: new Uint8Array(digest).slice(0, CHECK_LENGTH),
+    };
+  }
+
+  return expandKeys(secret, keySize, aesMode);
+}
+
+/**
+ * Expands a 256-bit secret into independent AES key, HMAC key and key check
+ * value using HKDF-SHA256 with distinct info labels (format-version 3).
+ *
+ * @param secret - 256-bit secret, e.g. the KDF output.
+ * @param keySize - AES key size in bits (128 or 256).
+ * @param aesMode - AES algorithm mode ('AES-CBC', 'AES-CTR', 'AES-GCM').
+ * @returns AES key, HMAC key (CBC/CTR only) and key check value.
+ * @throws DOMException if key expansion fails.
+ */
+async function expandKeys(
+  secret: Uint8Array,
+  keySize: number,
+  aesMode: string,
+): Promise<EnvelopeKeys> {
+  const hkdfKey = await crypto.subtle.importKey("raw", secret, "HKDF", false, [
+    "deriveBits",
+  ]);
+  const expand = (info: string, length: number) =>
+    crypto.subtle.deriveBits(
+      {
+        name: "HKDF",
+        hash: "SHA-256",
+        salt: new Uint8Array(0),
+        info: new TextEncoder().encode(info),
+      },
+      hkdfKey,
+      length,
+    );
 
-  const derivedBits = await crypto.subtle.deriveBits(
+  return {
+    key: await importAesKey(await expand("SecureNotes aes", keySize), aesMode),
+    hmacKey:
+      aesMode !== "AES-GCM"
+        ? await importHmacKey(await expand("SecureNotes hmac", 256))
+        : null,
+    check: new Uint8Array(await expand("SecureNotes check", CHECK_LENGTH * 8)),
+  };
+}
+
+/**
+ * Expands an HMAC-SHA256 key from a 256-bit key with HKDF, see macWithKey.
+ *
+ * @param key - 256-bit random key.
+ * @param label - HKDF info label.
+ * @returns The HMAC key.
+ * @throws DOMException if key expansion fails.
+ */
+async function expandMacKey(
+  key: Uint8Array,
+  label: string,
+): Promise<CryptoKey> {
+  const hkdfKey = await crypto.subtle.importKey("raw", key, "HKDF", false, [
+    "deriveBits",
+  ]);
+  const bits = await crypto.subtle.deriveBits(
     {
-      name: "PBKDF2",
-      salt: salt.buffer as ArrayBuffer,
-      iterations: 100_000,
+      name: "HKDF",
       hash: "SHA-256",
+      salt: new Uint8Array(0),
+      info: new TextEncoder().encode(label),
     },
-    keyMaterial,
+    hkdfKey,
     256,
   );
+  return importHmacKey(bits);
+}
+
+/**
+ * Imports raw bits as an AES key.
+ *
+ * @param bits - Raw key bits.
+ * @param aesMode - AES algorithm mode ('AES-CBC', 'AES-CTR', 'AES-GCM').
+ * @returns A Promise that resolves to a CryptoKey for AES encryption/decryption.
+ */
+function importAesKey(bits: BufferSource, aesMode: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", bits, { name: aesMode }, false, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
 
+/**
+ * Imports raw bits as an HMAC-SHA256 key.
+ *
+ * @param bits - Raw key bits.
+ * @returns A Promise that resolves to a CryptoKey for HMAC signing and verification.
+ */
+function importHmacKey(bits: BufferSource): Promise<CryptoKey> {
   return crypto.subtle.importKey(
     "raw",
-    derivedBits,
+    bits,
     { name: "HMAC", hash: "SHA-256" },
     false,
     ["sign", "verify"],
   );
 }
+
+/**
+ * Derives an AES CryptoKey from a password using the configured KDF.
+ *
+ * @param password - The user-provided password.
+ * @param salt - A unique salt (Uint8Array) used in key derivation.
+ * @param keySize - AES key size in bits (128 or 256).
+ * @param aesMode - AES algorithm mode ('AES-CBC', 'AES-CTR', 'AES-GCM').
+ * @param options - AES options including Kdf and KdfParams.
+ * @returns A Promise that resolves to a CryptoKey for AES encryption/decryption.
+ * @throws DOMException if key derivation fails or invalid parameters are provided.
+ */
+export async function deriveKey(
+  password: string,
+  salt: Uint8Array,
+  keySize: number,
+  aesMode: string,
+  options: AesOptions = {},
+): Promise<CryptoKey> {
+  const derivedBits = await deriveBits(password, salt, keySize, options);
+
+  return importAesKey(derivedBits, aesMode);
+}
+
+/**
+ * Derives an HMAC key from a password for message authentication.
+ * Used for CBC and CTR modes.
+ *
+ * @param password - The user-provided password.
+ * @param salt - A unique salt (Uint8Array) used in key derivation.
+ * @param options - AES options including Kdf and KdfParams.
+ * @returns A Promise that resolves to a CryptoKey for HMAC signing and verification.
+ * @throws DOMException if key derivation fails or invalid parameters are provided.
+ */
+export async function deriveHmacKey(
+  password: string,
+  salt: Uint8Array,
+  options: AesOptions = {},
+): Promise<CryptoKey> {
+  const derivedBits = await deriveBits(password, salt, 256, options);
+
+  return importHmacKey(derivedBits);
+}
@@ -0,0 +1,30 @@
+/*****************************************************************************
+ * @file        : src/fence.ts
+ * @description : Identity of a rendered SecureNotes fence. The renderer
+ *                embeds it in the DOM and the viewer sends it with every
+ *                message, so the plugin acts on exactly the ciphertext that
+ *                was rendered. Shared by the plugin and the content script,
+ *                it must not import the plugin API.
+ *****************************************************************************/
+
+/**
+ * Hash the content of a fence, the text between its opening and closing
+ * lines. Not a security measure, two 32-bit FNV-1a hashes only tell
+ * fences apart.
+ * @param content - Fence content
+ * @returns 16 hex characters
+ */
+export function fenceIdentity(content: string): string {
+  const text = content.replace(/\r\n/g, "\n").trim();
+  let a = 0x811c9dc5;
+  let b = 0x01000193 ^ text.length;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    a = Math.imul(a ^ code, 0x01000193) >>> 0;
+    b = Math.imul(b ^ code, 0x5bd1e995) >>> 0;
+  }
+  return (
+    `00000000${a.toString(16)}`.slice(-8) +
+    `00000000${b.toString(16)}`.slice(-8)
+  );
+}
@@ -0,0 +1,474 @@
+/*****************************************************************************
+ * @file        : src/health.ts
+ * @description : Health of encrypted notes. Fences are found more loosely
+ *                than parseFormat does, classified, and repaired where
+ *                possible: line endings and wrapped base64 are normalised,
+ *                other damage is undone from an earlier Joplin revision.
+ *****************************************************************************/
+
+/** Imports */
+import joplin from "api";
+import { ModelType } from "api/types";
+import { getAllItems } from "./bulk";
+import { envelopeLengthProblem } from "./encryption";
+import {
+  FormatError,
+  ParsedNote,
+  generateEncryptedNote,
+  parseFormat,
+  validateBlocks,
+} from "./utils";
+
+/** Classification of a fence. */
+export type FenceStatus =
+  | "valid"
+  | "line-endings"
+  | "wrapped-base64"
+  | "malformed-header"
+  | "truncated-base64"
+  | "bad-length";
+
+/** Repairs the scanner can apply. */
+export type RepairKind = "normalise" | "revision";
+
+/**
+ * Health of a single fence of a note.
+ * @interface
+ */
+export interface FenceHealth {
+  /** Position of the fence among the fences of the note. */
+  index: number;
+
+  /** Id of the fence, null for a fence without id. */
+  blockId: string | null;
+
+  /** Raw text of the fence as found in the body. */
+  text: string;
+
+  /** Classification of the fence. */
+  status: FenceStatus;
+
+  /** What is wrong, empty for a valid fence. */
+  detail: string;
+
+  /** Repairs that make the fence valid. */
+  repairs: RepairKind[];
+
+  /** Time of the revision a "revision" repair restores, ms since epoch. */
+  revisionTime?: number;
+}
+
+/**
+ * Health of the fences of a note.
+ * @interface
+ */
+export interface NoteHealth {
+  id: string;
+  title: string;
+  fences: FenceHealth[];
+}
+
+/** Opening line of a fence, with or without id and line ending damage. */
+const FENCE_OPEN = /^```SecureNotes(?:[ \t]+id=([0-9a-f]+))?[ \t\r]*$/;
+
+/**
+ * Scan every note for encrypted fences. Earlier revisions are only read for
+ * notes with damaged fences.
+ * @returns Notes with at least one fence
+ */
+export async function scanNotes(): Promise<NoteHealth[]> {
+  const notes = (await getAllItems(["notes"], ["id", "title", "body"])).filter(
+    (note) => (note.body || "").indexOf("```SecureNotes") !== -1,
+  );
+
+  const results: NoteHealth[] = [];
+  let revisions: any[] | null = null;
+  for (const note of notes) {
+    const fences = scanBody(note.body);
+    if (!fences.length) {
+      continue;
+    }
+    const damaged = fences.filter(
+      (fence) => fence.status !== "valid" && !fence.repairs.length,
+    );
+    if (damaged.length) {
+      revisions = revisions || (await loadRevisions());
+      const bodies = revisionBodies(
+        revisions.filter((revision) => revision.item_id === note.id),
+      );
+      for (const fence of damaged) {
+        const restored = await revisionFence(fence, bodies);
+        if (restored) {
+          fence.repairs = ["revision"];
+          fence.revisionTime = restored.time;
+        }
+      }
+    }
+    results.push({ id: note.id, title: note.title || "Untitled", fences });
+  }
+  return results;
+}
+
+/**
+ * Find and classify the fences of a note body.
+ * @param body - The note body
+ * @returns Health of each fence, in order
+ */
+export function scanBody(body: string): FenceHealth[] {
+  const lines = body.split("\n");
+  const fences: FenceHealth[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const open = lines[i].match(FENCE_OPEN);
+    if (!open) {
+      continue;
+    }
+    let end = i + 1;
+    while (end < lines.length && !/^```[ \t\r]*$/.test(lines[end])) {
+      end++;
+    }
+
+    const text = lines.slice(i, end + 1).join("\n");
+    const fence = classifyFence(fences.length, open[1] || null, text);
+    if (end >= lines.length) {
+      fence.status = "truncated-base64";
+      fence.detail = "The fence is not closed, the note was cut off";
+      fence.repairs = [];
+    }
+    fences.push(fence);
+    i = end;
+  }
+  return fences;
+}
+
+/**
+ * Repair a fence of a note. The note is scanned again first, the repair is
+ * refused if the fence changed since it was shown.
+ * @param noteId - Id of the note
+ * @param fence - The fence as shown to the user
+ * @param repair - The repair to apply
+ * @throws Error if the note changed or the repair is not possible
+ */
+export async function repairFence(
+  noteId: string,
+  fence: FenceHealth,
+  repair: RepairKind,
+): Promise<void> {
+  const note = await joplin.data.get(["notes", noteId], {
+    fields: ["id", "body"],
+  });
+  const current = scanBody(note.body).find(
+    (other) => other.index === fence.index && other.text === fence.text,
+  );
+  if (!current) {
+    throw new Error("The note changed since the scan, scan again");
+  }
+
+  let replacement: string | null = null;
+  if (repair === "normalise") {
+    replacement = normaliseFence(current.text);
+  } else {
+    const bodies = revisionBodies(
+      (await loadRevisions()).filter((revision) => revision.item_id === noteId),
+    );
+    const restored = await revisionFence(current, bodies);
+    replacement = restored ? restored.text : null;
+  }
+  if (!replacement || classifyFence(0, null, replacement).status !== "valid") {
+    throw new Error("The fence cannot be repaired this way");
+  }
+
+  const index = note.body.indexOf(current.text);
+  await joplin.data.put(["notes", noteId], null, {
+    body:
+      note.body.slice(0, index) +
+      replacement +
+      note.body.slice(index + current.text.length),
+  });
+}
+
+/**
+ * Classify a fence: its structure first, then damage normalising repairs.
+ * @param index - Position of the fence in the note
+ * @param blockId - Id of the fence
+ * @param text - Raw text of the fence
+ * @returns Health of the fence
+ */
+function classifyFence(
+  index: number,
+  blockId: string | null,
+  text: string,
+): FenceHealth {
+  const health: FenceHealth = {
+    index,
+    blockId,
+    text,
+    status: "valid",
+    detail: "",
+    repairs: [],
+  };
+  const fail = (status: FenceStatus, detail: string) => {
+    health.status = status;
+    health.detail = detail;
+    return health;
+  };
+
+  const normalised = normaliseFence(text);
+  const data = dataSection(normalised);
+  if (data === null) {
+    return fail("malformed-header", "The Data section is missing");
+  }
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(data)) {
+    return fail(
+      "truncated-base64",
+      "The Data section holds characters that are not base64",
+    );
+  }
+  if (!data.length || data.length % 4 !== 0) {
+    return fail(
+      "truncated-base64",
+      `The Data section has ${data.length} base64 characters, not a multiple of 4`,
+    );
+  }
+
+  let parsed: ParsedNote;
+  try {
+    parsed = parseFormat(normalised);
+  } catch (error) {
+    if (!(error instanceof FormatError)) {
+      throw error;
+    }
+    return fail(
+      error.code === "payload-too-short" ? "bad-length" : "malformed-header",
+      error.message,
+    );
+  }
+
+  const padding = data.endsWith("==") ? 2 : data.endsWith("=") ? 1 : 0;
+  const problem = envelopeLengthProblem(
+    parsed.aesOptions,
+    (data.length / 4) * 3 - padding,
+  );
+  if (problem) {
+    return fail("bad-length", `The payload of ${problem}`);
+  }
+
+  if (normalised !== text) {
+    health.repairs = ["normalise"];
+    if (/\r/.test(text)) {
+      return fail("line-endings", "The fence has Windows or Mac line endings");
+    }
+    return fail("wrapped-base64", "The base64 data is wrapped over lines");
+  }
+  return health;
+}
+
+/**
+ * Normalise a fence: line endings become "\n", the base64 data is joined
+ * into a single line.
+ * @param text - Raw text of the fence
+ * @returns The normalised fence
+ */
+function normaliseFence(text: string): string {
+  const unix = text.replace(/\r\n?/g, "\n").replace(/\n+$/, "");
+  return unix.replace(
+    /(##\s*Data\s*\n)([\s\S]*?)(\n```[ \t]*)?$/,
+    (_match, heading: string, data: string, close: string) =>
+      `${heading}${data.replace(/\s+/g, "")}${close || ""}`,
+  );
+}
+
+/**
+ * The base64 data of a normalised fence.
+ * @param text - Normalised fence
+ * @returns The data, null if the fence has no Data section
+ */
+function dataSection(text: string): string | null {
+  const match = text.match(/##\s*Data\s*\n([\s\S]*?)(?:\n```[ \t]*)?$/);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Load the revisions of all notes, oldest first.
+ * @returns The revisions
+ */
+async function loadRevisions(): Promise<any[]> {
+  const revisions = await getAllItems(
+    ["revisions"],
+    ["id", "item_id", "item_type", "item_updated_time", "body_diff"],
+  );
+  return revisions
+    .filter((revision) => revision.item_type === ModelType.Note)
+    .sort((a, b) => a.item_updated_time - b.item_updated_time);
+}
+
+/**
+ * Rebuild the bodies of a note from its revisions.
+ * @param revisions - Revisions of the note, oldest first
+ * @returns The bodies with the time of their revision, newest first
+ */
+function revisionBodies(revisions: any[]): { time: number; body: string }[] {
+  const bodies: { time: number; body: string }[] = [];
+  let body = "";
+  for (const revision of revisions) {
+    const patched = applyTextPatch(body, revision.body_diff || "");
+    if (patched === null) {
+      // Encrypted or unreadable revisions break the chain from here on
+      break;
+    }
+    body = patched;
+    bodies.unshift({ time: revision.item_updated_time, body });
+  }
+  return bodies;
+}
+
+/**
+ * Find the newest revision holding a fence intact.
+ * @param fence - The damaged fence
+ * @param bodies - Bodies of the note's revisions, newest first
+ * @returns The restored fence and the time of its revision, null if no
+ *          revision holds it
+ */
+async function revisionFence(
+  fence: FenceHealth,
+  bodies: { time: number; body: string }[],
+): Promise<{ time: number; text: string } | null> {
+  for (const revision of bodies) {
+    const parsed = validateBlocks(revision.body).find(
+      (other) => other.id === fence.blockId,
+    );
+    if (parsed) {
+      const text = await generateEncryptedNote(
+        parsed.aesOptions,
+        parsed.data,
+        parsed.keyslots,
+        parsed.id,
+        parsed.keyslotsMac,
+      );
+      return { time: revision.time, text: text.replace(/\n$/, "") };
+    }
+  }
+  return null;
+}
+
+/** A hunk of a revision patch: text replaced at a position. */
+interface PatchHunk {
+  /** Position of the hunk in the patched text. */
+  start: number;
+  before: string;
+  after: string;
+}
+
+/**
+ * Apply a patch of a Joplin revision. Patches are applied exactly, a
+ * revision is always patched onto the text it was made from.
+ * @param text - Text the patch was made from
+ * @param patch - The patch, a JSON patch array or, in revisions of older
+ *                Joplin versions, the text format of diff-match-patch
+ * @returns The patched text, null if the patch does not apply
+ */
+function applyTextPatch(text: string, patch: string): string | null {
+  const hunks =
+    !patch || patch === "[]" || patch.indexOf("[{") === 0
+      ? parseJsonPatch(patch)
+      : parseLegacyPatch(patch);
+  if (!hunks) {
+    return null;
+  }
+
+  let delta = 0;
+  for (const hunk of hunks) {
+    let at = hunk.start + delta;
+    if (text.substr(at, hunk.before.length) !== hunk.before) {
+      at = text.indexOf(hunk.before);
+      if (at === -1) {
+        return null;
+      }
+      delta = at - hunk.start;
+    }
+    text = text.slice(0, at) + hunk.after + text.slice(at + hunk.before.length);
+  }
+  return text;
+}
+
+/**
+ * Parse a patch as Joplin stores it, the JSON of diff-match-patch's patch
+ * objects: [{"diffs":[[0,"text"],[1,"inserted"]],"start2":0,...}].
+ * @param patch - The patch, empty for no change
+ * @returns The hunks, null if the patch is malformed
+ */
+function parseJsonPatch(patch: string): PatchHunk[] | null {
+  let patches: any;
+  try {
+    patches = JSON.parse(patch || "[]");
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(patches)) {
+    return null;
+  }
+
+  const hunks: PatchHunk[] = [];
+  for (const item of patches) {
+    if (!item || !Number.isInteger(item.start2) || !Array.isArray(item.diffs)) {
+      return null;
+    }
+    const hunk: PatchHunk = { start: item.start2, before: "", after: "" };
+    for (const diff of item.diffs) {
+      if (!Array.isArray(diff) || typeof diff[1] !== "string") {
+        return null;
+      }
+      const [operation, text] = diff;
+      if (operation === 0 || operation === -1) hunk.before += text;
+      if (operation === 0 || operation === 1) hunk.after += text;
+      if ([-1, 0, 1].indexOf(operation) === -1) return null;
+    }
+    hunks.push(hunk);
+  }
+  return hunks;
+}
+
+/**
+ * Parse a patch in the text format of diff-match-patch, used by Joplin
+ * versions before the JSON format.
+ * @param patch - The patch, "@@ -1,3 +1,4 @@" hunks of URI encoded lines
+ * @returns The hunks, null if the patch is malformed
+ */
+function parseLegacyPatch(patch: string): PatchHunk[] | null {
+  const hunks: PatchHunk[] = [];
+  const lines = patch.split("\n");
+  let i = 0;
+  while (i < lines.length) {
+    if (!lines[i]) {
+      i++;
+      continue;
+    }
+    const header = lines[i].match(/^@@ -(\d+),?(\d*) \+(\d+),?(\d*) @@$/);
+    if (!header) {
+      return null;
+    }
+    const hunk: PatchHunk = {
+      start: parseInt(header[3]) - (header[4] === "0" ? 0 : 1),
+      before: "",
+      after: "",
+    };
+
+    for (i++; i < lines.length && lines[i].charAt(0) !== "@"; i++) {
+      if (!lines[i]) {
+        continue;
+      }
+      let line: string;
+      try {
+        line = decodeURI(lines[i].slice(1));
+      } catch {
+        return null;
+      }
+      const sign = lines[i].charAt(0);
+      if (sign === " " || sign === "-") hunk.before += line;
+      if (sign === " " || sign === "+") hunk.after += line;
+      if (" -+".indexOf(sign) === -1) return null;
+    }
+    hunks.push(hunk);
+  }
+  return hunks;
+}
@@ -0,0 +1,210 @@
+/*****************************************************************************
+ * @file        : src/healthPanel.ts
+ * @description : "Scan encrypted notes" panel. Lists the damaged fences the
+ *                scanner found with the repairs it offers, and applies them.
+ *****************************************************************************/
+
+/** Imports */
+import joplin from "api";
+import {
+  FenceHealth,
+  FenceStatus,
+  NoteHealth,
+  RepairKind,
+  repairFence,
+  scanBody,
+  scanNotes,
+} from "./health";
+import { escapeHtml } from "./dialogScripts/passwdDialogs";
+
+/** Labels of the classifications. */
+const STATUS_LABELS: Record<FenceStatus, string> = {
+  valid: "Valid",
+  "line-endings": "Damaged line endings",
+  "wrapped-base64": "Wrapped base64",
+  "malformed-header": "Malformed header",
+  "truncated-base64": "Truncated base64",
+  "bad-length": "Bad length for the mode",
+};
+
+let panel: string | null = null;
+let results: NoteHealth[] = [];
+let status = "";
+
+/**
+ * Scan all notes and show the results in the panel.
+ */
+export async function showHealthPanel() {
+  const handle = await createPanel();
+  results = [];
+  status = "Scanning encrypted notes...";
+  await render();
+  await joplin.views.panels.show(handle, true);
+
+  results = await scanNotes();
+  status = "";
+  await render();
+}
+
+/**
+ * Create the panel on first use.
+ * @returns Handle of the panel
+ */
+async function createPanel(): Promise<string> {
+  if (panel) {
+    return panel;
+  }
+
+  panel = await joplin.views.panels.create("healthPanel");
+  await joplin.views.panels.addScript(panel, "./panelScripts/healthPanel.css");
+  await joplin.views.panels.addScript(panel, "./panelScripts/healthPanel.js");
+  await joplin.views.panels.onMessage(panel, handleMessage);
+  return panel;
+}
+
+/**
+ * Handle messages of the panel webview.
+ * @param message - Message with a type, note id, fence index and repair
+ */
+async function handleMessage(message: any) {
+  if (message.type === "open") {
+    await joplin.commands.execute("openNote", message.noteId);
+    return;
+  }
+
+  if (message.type === "rescan") {
+    await showHealthPanel();
+    return;
+  }
+
+  if (message.type === "close") {
+    results = [];
+    await joplin.views.panels.hide(panel);
+    return;
+  }
+
+  if (message.type === "repair") {
+    const note = results.find((other) => other.id === message.noteId);
+    const fence = note && note.fences[message.index];
+    if (!fence) {
+      return;
+    }
+    await applyRepair(note, fence, message.repair as RepairKind);
+    await render();
+  }
+}
+
+/**
+ * Apply a repair and scan the note again.
+ * @param note - The note as shown
+ * @param fence - The damaged fence
+ * @param repair - The repair to apply
+ */
+async function applyRepair(
+  note: NoteHealth,
+  fence: FenceHealth,
+  repair: RepairKind,
+) {
+  if (repair === "revision") {
+    const choice = await joplin.views.dialogs.showMessageBox(
+      `Restore the encrypted block of "${note.title}" from the revision of ${new Date(fence.revisionTime).toLocaleString()}?\n\n` +
+        "Changes made to the block after that revision are lost.",
+    );
+    if (choice !== 0) {
+      return;
+    }
+  }
+
+  try {
+    await repairFence(note.id, fence, repair);
+    status = `Repaired "${note.title}"`;
+  } catch (error) {
+    status = `"${note.title}": ${error?.message || String(error)}`;
+  }
+
+  const { body } = await joplin.data.get(["notes", note.id], {
+    fields: ["id", "body"],
+  });
+  note.fences = scanBody(body);
+}
+
+/**
+ * Render the results into the panel.
+ */
+async function render() {
+  const fences = results.reduce((sum, note) => sum + note.fences.length, 0);
+  const damaged = results
+    .map((note) => ({
+      note,
+      fences: note.fences.filter((fence) => fence.status !== "valid"),
+    }))
+    .filter((entry) => entry.fences.length);
+  const damagedCount = damaged.reduce(
+    (sum, entry) => sum + entry.fences.length,
+    0,
+  );
+
+  const rows = damaged
+    .map(({ note, fences }) =>
+      fences
+        .map(
+          (fence) => `
+          <tr>
+            <td>
+              <a href="#" class="sh-open" data-note="${note.id}">${escapeHtml(note.title)}</a>
+              ${fence.blockId ? `<div class="sh-block">block ${fence.blockId}</div>` : ""}
+            </td>
+            <td>
+              <div class="sh-status">${STATUS_LABELS[fence.status]}</div>
+              <div class="sh-detail">${escapeHtml(fence.detail)}</div>
+            </td>
+            <td>${repairButtons(note, fence)}</td>
+          </tr>
+          `,
+        )
+        .join(""),
+    )
+    .join("");
+
+  await joplin.views.panels.setHtml(
+    panel,
+    `
+    <div class="sh-root">
+      <div class="sh-header">
+        <span class="sh-title">Encrypted notes</span>
+        <span class="sh-summary">
+          ${results.length ? `${fences} fence(s) in ${results.length} note(s), ${damagedCount} damaged` : ""}
+        </span>
+      </div>
+      <div class="sh-message">${escapeHtml(status)}</div>
+      ${rows ? `<table class="sh-table">${rows}</table>` : ""}
+      ${results.length && !rows ? `<p>No damaged fences found.</p>` : ""}
+      <div class="sh-buttons">
+        <button type="button" class="sh-rescan">Scan again</button>
+        <button type="button" class="sh-close">Close</button>
+      </div>
+    </div>
+    `,
+  );
+}
+
+/**
+ * Buttons of the repairs offered for a fence.
+ * @param note - The note
+ * @param fence - The damaged fence
+ * @returns HTML
+ */
+function repairButtons(note: NoteHealth, fence: FenceHealth): string {
+  if (!fence.repairs.length) {
+    return `<span class="sh-none">No repair available</span>`;
+  }
+  return fence.repairs
+    .map((repair) => {
+      const label =
+        repair === "normalise"
+          ? "Normalise"
+          : `Restore from ${new Date(fence.revisionTime).toLocaleDateString()}`;
+      return `<button type="button" class="sh-repair" data-note="${note.id}" data-index="${fence.index}" data-repair="${repair}">${label}</button>`;
+    })
+    .join("");
+}
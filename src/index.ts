@@ -17,21 +17,131 @@ import {
 } from "api/types";
 import {
   AesOptions,
+  FORMAT_VERSION,
+  WRITE_VERSION_MIN,
+  PADDING_BLOCK_RANGE,
   WrongPasswordError,
+  IntegrityError,
   encryptData,
   decryptData,
+  encryptDataWithKey,
+  generateDataKey,
 } from "./encryption";
 import {
   showToast,
   isNoteLocked,
   generateEncryptedNote,
-  validateFormat,
+  parseFormat,
+  validateBlocks,
+  findFence,
+  FormatError,
+  replaceSecureBlock,
+  decryptBlocks,
+  generateBlockId,
+  generateInlineSecret,
+  parseInlineSecret,
   renderMarkdown,
+  escapeRawHtml,
+  RenderedMarkup,
+  ParsedNote,
 } from "./utils";
+import {
+  KeySlot,
+  createPasswordSlot,
+  createVaultSlot,
+  createRecipientSlot,
+  openNoteKeyslots,
+  keyslotsMac,
+} from "./keyslots";
+import {
+  Vault,
+  loadVault,
+  saveVault,
+  createVault,
+  unlockVault,
+  wrapVault,
+  exportVault,
+  importVault,
+} from "./vault";
+import {
+  Contact,
+  loadIdentity,
+  createIdentity,
+  loadContacts,
+  importContact,
+} from "./recipients";
+import {
+  configureSession,
+  lockSession,
+  sessionGeneration,
+  rememberVaultKey,
+  cachedVaultKey,
+  unlockNote,
+  unlockNoteFromSession,
+  sessionNoteKeys,
+} from "./session";
+import { openSecureEditor } from "./secureEditor";
+import { showHealthPanel } from "./healthPanel";
+import { rekeyBody } from "./rekey";
+import { LegacyNote, decryptLegacyNote, parseLegacyNote } from "./migrate";
+import {
+  RotationState,
+  loadRotation,
+  markRotated,
+  saveRotation,
+} from "./rotation";
+import {
+  decryptResource,
+  deleteResources,
+  encryptResources,
+  inlineResources,
+  parseDownloadLink,
+  restoreResources,
+} from "./resources";
+import {
+  METADATA_FIELDS,
+  collectMetadata,
+  embedMetadata,
+  extractMetadata,
+  hideMetadata,
+  metadataHtml,
+  restoreMetadata,
+} from "./metadata";
+import {
+  BULK_ATTEMPTS_ID,
+  lockoutRemaining,
+  recordFailure,
+  clearFailures,
+  formatLockout,
+} from "./attempts";
 import {
   showEncryptionDialog,
   showDecryptionDialog,
+  showKeyslotDialog,
+  showKeyslotRemovalDialog,
+  showChangePasswordDialog,
+  showPublicKeyImportDialog,
+  showVaultImportDialog,
+  showRecipientsDialog,
+  showTagDialog,
 } from "./dialogScripts/passwdDialogs";
+import { runWithProgress } from "./dialogScripts/progressDialog";
+import {
+  BulkNote,
+  getAllItems,
+  getNotes,
+  getNotebookNotes,
+  getTaggedNotes,
+} from "./bulk";
+import {
+  PolicyRule,
+  parsePolicyRules,
+  describeRule,
+  findMatchingRule,
+  previewRule,
+  isRulePreviewed,
+  markRulePreviewed,
+} from "./policy";
 
 /** Global constants */
 export const PLUGIN_ID = "SecureNotes";
@@ -43,31 +153,108 @@ export const SETTINGS_SECTION = {
 export const SETTINGS_MAIN = {
   KEY_SIZE: `${SETTINGS_SECTION.MAIN}.bitSize`,
   AES_MODE: `${SETTINGS_SECTION.MAIN}.cipherCategory`,
+  KDF: `${SETTINGS_SECTION.MAIN}.kdf`,
+  VAULT_MODE: `${SETTINGS_SECTION.MAIN}.vaultMode`,
+  VAULT: `${SETTINGS_SECTION.MAIN}.vault`,
+  IDENTITY: `${SETTINGS_SECTION.MAIN}.identity`,
+  CONTACTS: `${SETTINGS_SECTION.MAIN}.contacts`,
+  AUTO_LOCK: `${SETTINGS_SECTION.MAIN}.autoLockMinutes`,
+  LOCK_ON_BLUR: `${SETTINGS_SECTION.MAIN}.lockOnBlur`,
+  ENCRYPT_RESOURCES: `${SETTINGS_SECTION.MAIN}.encryptResources`,
+  HIDE_METADATA: `${SETTINGS_SECTION.MAIN}.hideMetadata`,
+  PLACEHOLDER_TITLE: `${SETTINGS_SECTION.MAIN}.placeholderTitle`,
+  HIDDEN_FIELDS: `${SETTINGS_SECTION.MAIN}.hiddenFields`,
+  ALLOW_RAW_HTML: `${SETTINGS_SECTION.MAIN}.allowRawHtml`,
+  PADDING: `${SETTINGS_SECTION.MAIN}.padding`,
+  PADDING_BLOCK: `${SETTINGS_SECTION.MAIN}.paddingBlockBytes`,
+  COMPRESS: `${SETTINGS_SECTION.MAIN}.compress`,
+  COMPRESSION_THRESHOLD: `${SETTINGS_SECTION.MAIN}.compressionThresholdKb`,
+  ATTEMPT_LIMIT: `${SETTINGS_SECTION.MAIN}.attemptLimit`,
+  LOCKOUT_SECONDS: `${SETTINGS_SECTION.MAIN}.lockoutSeconds`,
+  ATTEMPTS: `${SETTINGS_SECTION.MAIN}.attempts`,
+  ROTATION: `${SETTINGS_SECTION.MAIN}.rotation`,
+  AUTO_ENCRYPT_NOTEBOOKS: `${SETTINGS_SECTION.MAIN}.autoEncryptNotebooks`,
+  AUTO_ENCRYPT_TAGS: `${SETTINGS_SECTION.MAIN}.autoEncryptTags`,
+  AUTO_ENCRYPT_PREVIEWED: `${SETTINGS_SECTION.MAIN}.autoEncryptPreviewed`,
 };
 
 export const INTERACTIONS = {
   TOOLBAR: `${PLUGIN_ID}.toolbar`,
   MENU: `${PLUGIN_ID}.menu`,
+  NOTE_LIST_ENCRYPT: `${PLUGIN_ID}.noteListEncrypt`,
+  NOTE_LIST_DECRYPT: `${PLUGIN_ID}.noteListDecrypt`,
+  FOLDER_ENCRYPT: `${PLUGIN_ID}.folderEncrypt`,
+  FOLDER_DECRYPT: `${PLUGIN_ID}.folderDecrypt`,
+  TAG_ENCRYPT: `${PLUGIN_ID}.tagEncrypt`,
+  TAG_DECRYPT: `${PLUGIN_ID}.tagDecrypt`,
+  EDITOR_ENCRYPT: `${PLUGIN_ID}.editorEncrypt`,
+  EDITOR_ENCRYPT_SECRET: `${PLUGIN_ID}.editorEncryptSecret`,
 };
 
 export const COMMANDS = {
   ENCRYPT: `${PLUGIN_ID}.encrypt`,
   DECRYPT: `${PLUGIN_ID}.decrypt`,
   TOGGLELOCK: `${PLUGIN_ID}.toggleLock`,
+  ADD_KEYSLOT: `${PLUGIN_ID}.addKeyslot`,
+  LIST_KEYSLOTS: `${PLUGIN_ID}.listKeyslots`,
+  REMOVE_KEYSLOT: `${PLUGIN_ID}.removeKeyslot`,
+  CHANGE_PASSWORD: `${PLUGIN_ID}.changePassword`,
+  SET_VAULT_PASSWORD: `${PLUGIN_ID}.setVaultPassword`,
+  EXPORT_VAULT: `${PLUGIN_ID}.exportVault`,
+  IMPORT_VAULT: `${PLUGIN_ID}.importVault`,
+  GENERATE_KEYPAIR: `${PLUGIN_ID}.generateKeypair`,
+  COPY_PUBLIC_KEY: `${PLUGIN_ID}.copyPublicKey`,
+  IMPORT_PUBLIC_KEY: `${PLUGIN_ID}.importPublicKey`,
+  ENCRYPT_FOR_RECIPIENTS: `${PLUGIN_ID}.encryptForRecipients`,
+  LOCK_ALL: `${PLUGIN_ID}.lockAll`,
+  EDIT_SECURELY: `${PLUGIN_ID}.editSecurely`,
+  ENCRYPT_SELECTED: `${PLUGIN_ID}.encryptSelected`,
+  DECRYPT_SELECTED: `${PLUGIN_ID}.decryptSelected`,
+  ENCRYPT_NOTEBOOK: `${PLUGIN_ID}.encryptNotebook`,
+  DECRYPT_NOTEBOOK: `${PLUGIN_ID}.decryptNotebook`,
+  ENCRYPT_TAG: `${PLUGIN_ID}.encryptTag`,
+  DECRYPT_TAG: `${PLUGIN_ID}.decryptTag`,
+  ENCRYPT_SELECTION: `${PLUGIN_ID}.encryptSelection`,
+  ENCRYPT_INLINE_SECRET: `${PLUGIN_ID}.encryptInlineSecret`,
+  ROTATE_PASSWORD: `${PLUGIN_ID}.rotatePassword`,
+  MIGRATE_LEGACY: `${PLUGIN_ID}.migrateLegacy`,
+  SCAN_NOTES: `${PLUGIN_ID}.scanNotes`,
 };
 
 export const CONTENT_SCRIPT = {
   MARKDOWNIT_ID: "SecureView",
 };
 
+/** Password, or the vault and its unlocked key in vault mode. */
+type EncryptionSecret = string | { vault: Vault; vaultKey: Uint8Array };
+
 /** Global state */
 let logLevel: LogLevel = "DEBUG";
 let encryptionDialogId: string | null = null;
 let decryptionDialogId: string | null = null;
+let keyslotDialogId: string | null = null;
+let progressDialogId: string | null = null;
 let aesOptions: AesOptions = {
   KeySize: 256,
   AesMode: "AES-GCM",
+  Kdf: "PBKDF2",
 };
+let vaultMode = false;
+let lockOnBlur = false;
+let attemptLimit = 5;
+let lockoutSeconds = 30;
+let encryptAttachments = false;
+let hideNoteMetadata = false;
+let placeholderTitle = "Encrypted note";
+let hiddenFields: string[] = [];
+let allowRawHtml = false;
+let padding: AesOptions["Padding"] = "none";
+let compressNotes = false;
+let compressionThreshold = 8;
+let policyRules: PolicyRule[] = [];
+let visitedNoteId: string | null = null;
+let policyRunning = false;
+let policyQueue: string[] = [];
 
 /** Logger instance */
 const logger = createLogger(`[${PLUGIN_ID}]`, logLevel);
@@ -110,6 +297,225 @@ joplin.plugins.register({
           "AES-GCM": "GCM (Recommended)",
         },
       },
+      [SETTINGS_MAIN.KDF]: {
+        value: "PBKDF2",
+        type: SettingItemType.String,
+        section: SETTINGS_SECTION.MAIN,
+        public: true,
+        label: "Key Derivation Function",
+        description:
+          "scrypt and Argon2id are memory-hard and resist GPU cracking, at the cost of slower unlocks.",
+        isEnum: true,
+        options: {
+          PBKDF2: "PBKDF2-SHA256",
+          scrypt: "scrypt",
+          Argon2id: "Argon2id (Recommended)",
+        },
+      },
+      [SETTINGS_MAIN.VAULT_MODE]: {
+        value: false,
+        type: SettingItemType.Bool,
+        section: SETTINGS_SECTION.MAIN,
+        public: true,
+        label: "Vault Mode",
+        description:
+          "Encrypt new notes with the vault key instead of a per-note password. Set the vault password from Tools > Secure Notes > Set Vault Password. The vault is kept in this profile only and is not synced: copy it with Export Vault and add it to other devices with Import Vault, without it vault notes do not open there.",
+      },
+      [SETTINGS_MAIN.VAULT]: {
+        value: "",
+        type: SettingItemType.String,
+        section: SETTINGS_SECTION.MAIN,
+        public: false,
+        label: "Vault",
+      },
+      [SETTINGS_MAIN.AUTO_LOCK]: {
+        value: 10,
+        type: SettingItemType.Int,
+        section: SETTINGS_SECTION.MAIN,
+        public: true,
+        label: "Auto-lock After (minutes)",
+        description:
+          "Unlocked notes stay unlocked for this session until they are idle for this long. 0 never locks automatically.",
+        minimum: 0,
+        maximum: 1440,
+        step: 1,
+      },
+      [SETTINGS_MAIN.LOCK_ON_BLUR]: {
+        value: false,
+        type: SettingItemType.Bool,
+        section: SETTINGS_SECTION.MAIN,
+        public: true,
+        label: "Lock When Joplin Is Minimised or Loses Focus",
+      },
+      [SETTINGS_MAIN.ENCRYPT_RESOURCES]: {
+        value: false,
+        type: SettingItemType.Bool,
+        section: SETTINGS_SECTION.MAIN,
+        public: true,
+        label: "Encrypt Attachments",
+        description:
+          "Also encrypt the images and files a note links to. Attachments other notes link to are left unencrypted.",
+      },
+      [SETTINGS_MAIN.HIDE_METADATA]: {
+        value: false,
+        type: SettingItemType.Bool,
+        section: SETTINGS_SECTION.MAIN,
+        public: true,
+        label: "Hide Title and Metadata",
+        description:
+          "Move the title, tags and the hidden fields of a note into the ciphertext. The note list shows the placeholder title instead.",
+      },
+      [SETTINGS_MAIN.PLACEHOLDER_TITLE]: {
+        value: "Encrypted note",
+        type: SettingItemType.String,
+        section: SETTINGS_SECTION.MAIN,
+        public: true,
+        label: "Placeholder Title",
+        description:
+          "Visible title of notes with hidden metadata. Rename a note afterwards to give it an alias, decrypting restores the original title.",
+      },
+      [SETTINGS_MAIN.HIDDEN_FIELDS]: {
+        value: "source_url, author",
+        type: SettingItemType.String,
+        section: SETTINGS_SECTION.MAIN,
+        public: true,
+        label: "Hidden Fields",
+        description: `Comma-separated note fields to hide with the title, any of: ${METADATA_FIELDS.join(", ")}.`,
+      },
+      [SETTINGS_MAIN.ALLOW_RAW_HTML]: {
+        value: false,
+        type: SettingItemType.Bool,
+        section: SETTINGS_SECTION.MAIN,
+        public: true,
+        label: "Allow Raw HTML in Unlocked Notes",
+        description:
+          "Render HTML written in encrypted notes. When off it is shown as text. Scripts, frames, event handlers and unsafe links are always removed.",
+      },
+      [SETTINGS_MAIN.PADDING]: {
+        value: "none",
+        type: SettingItemType.String,
+        section: SETTINGS_SECTION.MAIN,
+        public: true,
+        label: "Length-hiding Padding",
+        description:
+          "Pad the content before encrypting it, so the size of a note does not give away how long it is.",
+        isEnum: true,
+        options: {
+          none: "None",
+          pow2: "Next power of two (Recommended)",
+          block: "Multiple of the padding block size",
+        },
+      },
+      [SETTINGS_MAIN.PADDING_BLOCK]: {
+        value: 1024,
+        type: SettingItemType.Int,
+        section: SETTINGS_SECTION.MAIN,
+        public: true,
+        label: "Padding Block Size (bytes)",
+        description:
+          "Block size of the padding by multiples. Larger blocks hide more, at the cost of larger notes.",
+        minimum: PADDING_BLOCK_RANGE.min,
+        maximum: PADDING_BLOCK_RANGE.max,
+        step: 16,
+      },
+      [SETTINGS_MAIN.COMPRESS]: {
+        value: false,
+        type: SettingItemType.Bool,
+        section: SETTINGS_SECTION.MAIN,
+        public: true,
+        label: "Compress Large Notes",
+        description:
+          "Compress notes with DEFLATE before encrypting them, so they sync faster. Compressed notes are always padded, to a power of two unless another padding is selected, so their size does not give away how well they compress.",
+      },
+      [SETTINGS_MAIN.COMPRESSION_THRESHOLD]: {
+        value: 8,
+        type: SettingItemType.Int,
+        section: SETTINGS_SECTION.MAIN,
+        public: true,
+        label: "Compression Threshold (KB)",
+        description:
+          "Only notes at least this large are compressed, smaller notes gain little.",
+        minimum: 1,
+        maximum: 10240,
+        step: 1,
+      },
+      [SETTINGS_MAIN.ATTEMPT_LIMIT]: {
+        value: 5,
+        type: SettingItemType.Int,
+        section: SETTINGS_SECTION.MAIN,
+        public: true,
+        label: "Wrong Passwords Before Lockout",
+        description:
+          "After this many wrong passwords a note is locked for a while, counted per note and kept across restarts.",
+        minimum: 1,
+        maximum: 100,
+        step: 1,
+      },
+      [SETTINGS_MAIN.LOCKOUT_SECONDS]: {
+        value: 30,
+        type: SettingItemType.Int,
+        section: SETTINGS_SECTION.MAIN,
+        public: true,
+        label: "Lockout Duration (seconds)",
+        description:
+          "First lockout after the limit is reached, doubled with every further wrong password (at most 24 hours).",
+        minimum: 1,
+        maximum: 86400,
+        step: 1,
+      },
+      [SETTINGS_MAIN.ATTEMPTS]: {
+        value: "",
+        type: SettingItemType.String,
+        section: SETTINGS_SECTION.MAIN,
+        public: false,
+        label: "Failed Attempts",
+      },
+      [SETTINGS_MAIN.ROTATION]: {
+        value: "",
+        type: SettingItemType.String,
+        section: SETTINGS_SECTION.MAIN,
+        public: false,
+        label: "Password Rotation",
+      },
+      [SETTINGS_MAIN.AUTO_ENCRYPT_NOTEBOOKS]: {
+        value: "",
+        type: SettingItemType.String,
+        section: SETTINGS_SECTION.MAIN,
+        public: true,
+        label: "Auto-encrypt Notebooks",
+        description:
+          "Comma-separated notebook names. Notes in these notebooks and their sub-notebooks are encrypted when you leave them.",
+      },
+      [SETTINGS_MAIN.AUTO_ENCRYPT_TAGS]: {
+        value: "",
+        type: SettingItemType.String,
+        section: SETTINGS_SECTION.MAIN,
+        public: true,
+        label: "Auto-encrypt Tags",
+        description:
+          "Comma-separated tag names. Notes with these tags are encrypted when you leave them.",
+      },
+      [SETTINGS_MAIN.AUTO_ENCRYPT_PREVIEWED]: {
+        value: "",
+        type: SettingItemType.String,
+        section: SETTINGS_SECTION.MAIN,
+        public: false,
+        label: "Previewed Auto-encrypt Rules",
+      },
+      [SETTINGS_MAIN.IDENTITY]: {
+        value: "",
+        type: SettingItemType.String,
+        section: SETTINGS_SECTION.MAIN,
+        public: false,
+        label: "Keypair",
+      },
+      [SETTINGS_MAIN.CONTACTS]: {
+        value: "",
+        type: SettingItemType.String,
+        section: SETTINGS_SECTION.MAIN,
+        public: false,
+        label: "Public Keys",
+      },
     });
 
     // Register commands
@@ -134,6 +540,160 @@ joplin.plugins.register({
       execute: toggleLock,
       iconName: "fas fa-key",
     });
+    await joplin.commands.register({
+      name: COMMANDS.ADD_KEYSLOT,
+      label: "Add Password Slot",
+      enabledCondition: "oneNoteSelected",
+      execute: addKeyslot,
+      iconName: "fas fa-user-plus",
+    });
+    await joplin.commands.register({
+      name: COMMANDS.LIST_KEYSLOTS,
+      label: "List Password Slots",
+      enabledCondition: "oneNoteSelected",
+      execute: listKeyslots,
+      iconName: "fas fa-users",
+    });
+    await joplin.commands.register({
+      name: COMMANDS.REMOVE_KEYSLOT,
+      label: "Remove Password Slot",
+      enabledCondition: "oneNoteSelected",
+      execute: removeKeyslot,
+      iconName: "fas fa-user-minus",
+    });
+    await joplin.commands.register({
+      name: COMMANDS.CHANGE_PASSWORD,
+      label: "Change Password",
+      enabledCondition: "oneNoteSelected",
+      execute: changePassword,
+      iconName: "fas fa-exchange-alt",
+    });
+    await joplin.commands.register({
+      name: COMMANDS.SET_VAULT_PASSWORD,
+      label: "Set Vault Password",
+      execute: setVaultPassword,
+      iconName: "fas fa-shield-alt",
+    });
+    await joplin.commands.register({
+      name: COMMANDS.EXPORT_VAULT,
+      label: "Export Vault",
+      execute: exportVaultToClipboard,
+      iconName: "fas fa-file-export",
+    });
+    await joplin.commands.register({
+      name: COMMANDS.IMPORT_VAULT,
+      label: "Import Vault",
+      execute: importVaultFromExport,
+      iconName: "fas fa-file-import",
+    });
+    await joplin.commands.register({
+      name: COMMANDS.GENERATE_KEYPAIR,
+      label: "Generate Keypair",
+      execute: generateKeypair,
+      iconName: "fas fa-key",
+    });
+    await joplin.commands.register({
+      name: COMMANDS.COPY_PUBLIC_KEY,
+      label: "Copy My Public Key",
+      execute: copyPublicKey,
+      iconName: "fas fa-copy",
+    });
+    await joplin.commands.register({
+      name: COMMANDS.IMPORT_PUBLIC_KEY,
+      label: "Import Public Key",
+      execute: importPublicKey,
+      iconName: "fas fa-address-book",
+    });
+    await joplin.commands.register({
+      name: COMMANDS.ENCRYPT_FOR_RECIPIENTS,
+      label: "Encrypt Note for Recipients",
+      enabledCondition: "oneNoteSelected",
+      execute: encryptForRecipients,
+      iconName: "fas fa-user-lock",
+    });
+    await joplin.commands.register({
+      name: COMMANDS.EDIT_SECURELY,
+      label: "Edit Securely",
+      enabledCondition: "oneNoteSelected",
+      execute: editSecurely,
+      iconName: "fas fa-edit",
+    });
+    await joplin.commands.register({
+      name: COMMANDS.ENCRYPT_SELECTED,
+      label: "Encrypt Selected Notes",
+      enabledCondition: "someNotesSelected",
+      execute: encryptSelected,
+      iconName: "fas fa-lock",
+    });
+    await joplin.commands.register({
+      name: COMMANDS.DECRYPT_SELECTED,
+      label: "Decrypt Selected Notes",
+      enabledCondition: "someNotesSelected",
+      execute: decryptSelected,
+      iconName: "fas fa-unlock",
+    });
+    await joplin.commands.register({
+      name: COMMANDS.ENCRYPT_NOTEBOOK,
+      label: "Encrypt Notebook",
+      execute: encryptNotebook,
+      iconName: "fas fa-lock",
+    });
+    await joplin.commands.register({
+      name: COMMANDS.DECRYPT_NOTEBOOK,
+      label: "Decrypt Notebook",
+      execute: decryptNotebook,
+      iconName: "fas fa-unlock",
+    });
+    await joplin.commands.register({
+      name: COMMANDS.ENCRYPT_TAG,
+      label: "Encrypt Notes With Tag",
+      execute: encryptTag,
+      iconName: "fas fa-lock",
+    });
+    await joplin.commands.register({
+      name: COMMANDS.DECRYPT_TAG,
+      label: "Decrypt Notes With Tag",
+      execute: decryptTag,
+      iconName: "fas fa-unlock",
+    });
+    await joplin.commands.register({
+      name: COMMANDS.ROTATE_PASSWORD,
+      label: "Rotate Password Across Notes",
+      execute: rotatePassword,
+      iconName: "fas fa-sync-alt",
+    });
+    await joplin.commands.register({
+      name: COMMANDS.MIGRATE_LEGACY,
+      label: "Migrate Legacy JSON Notes",
+      execute: migrateLegacyNotes,
+      iconName: "fas fa-file-import",
+    });
+    await joplin.commands.register({
+      name: COMMANDS.SCAN_NOTES,
+      label: "Scan Encrypted Notes",
+      execute: showHealthPanel,
+      iconName: "fas fa-stethoscope",
+    });
+    await joplin.commands.register({
+      name: COMMANDS.ENCRYPT_SELECTION,
+      label: "Encrypt Selection",
+      enabledCondition: "markdownEditorVisible",
+      execute: encryptSelection,
+      iconName: "fas fa-lock",
+    });
+    await joplin.commands.register({
+      name: COMMANDS.ENCRYPT_INLINE_SECRET,
+      label: "Encrypt as Inline Secret",
+      enabledCondition: "markdownEditorVisible",
+      execute: encryptInlineSecret,
+      iconName: "fas fa-key",
+    });
+    await joplin.commands.register({
+      name: COMMANDS.LOCK_ALL,
+      label: "Lock All Now",
+      execute: lockAll,
+      iconName: "fas fa-lock",
+    });
 
     // Register toolbar and menu entries
     await joplin.views.toolbarButtons.create(
@@ -144,9 +704,81 @@ joplin.plugins.register({
     await joplin.views.menus.create(
       INTERACTIONS.MENU,
       "Secure Notes",
-      [{ commandName: COMMANDS.ENCRYPT }, { commandName: COMMANDS.DECRYPT }],
+      [
+        { commandName: COMMANDS.ENCRYPT },
+        { commandName: COMMANDS.DECRYPT },
+        { commandName: COMMANDS.ENCRYPT_SELECTION },
+        { commandName: COMMANDS.ENCRYPT_INLINE_SECRET },
+        { commandName: COMMANDS.EDIT_SECURELY },
+        { commandName: COMMANDS.LOCK_ALL },
+        { commandName: COMMANDS.ADD_KEYSLOT },
+        { commandName: COMMANDS.LIST_KEYSLOTS },
+        { commandName: COMMANDS.REMOVE_KEYSLOT },
+        { commandName: COMMANDS.CHANGE_PASSWORD },
+        { commandName: COMMANDS.SET_VAULT_PASSWORD },
+        { commandName: COMMANDS.EXPORT_VAULT },
+        { commandName: COMMANDS.IMPORT_VAULT },
+        { commandName: COMMANDS.ENCRYPT_FOR_RECIPIENTS },
+        { commandName: COMMANDS.GENERATE_KEYPAIR },
+        { commandName: COMMANDS.COPY_PUBLIC_KEY },
+        { commandName: COMMANDS.IMPORT_PUBLIC_KEY },
+        {
+          label: "Bulk",
+          submenu: [
+            { commandName: COMMANDS.ENCRYPT_SELECTED },
+            { commandName: COMMANDS.DECRYPT_SELECTED },
+            { commandName: COMMANDS.ENCRYPT_NOTEBOOK },
+            { commandName: COMMANDS.DECRYPT_NOTEBOOK },
+            { commandName: COMMANDS.ENCRYPT_TAG },
+            { commandName: COMMANDS.DECRYPT_TAG },
+            { commandName: COMMANDS.ROTATE_PASSWORD },
+          ],
+        },
+        { commandName: COMMANDS.SCAN_NOTES },
+        { commandName: COMMANDS.MIGRATE_LEGACY },
+      ],
       MenuItemLocation.Tools,
     );
+    await joplin.views.menuItems.create(
+      INTERACTIONS.NOTE_LIST_ENCRYPT,
+      COMMANDS.ENCRYPT_SELECTED,
+      MenuItemLocation.NoteListContextMenu,
+    );
+    await joplin.views.menuItems.create(
+      INTERACTIONS.NOTE_LIST_DECRYPT,
+      COMMANDS.DECRYPT_SELECTED,
+      MenuItemLocation.NoteListContextMenu,
+    );
+    await joplin.views.menuItems.create(
+      INTERACTIONS.FOLDER_ENCRYPT,
+      COMMANDS.ENCRYPT_NOTEBOOK,
+      MenuItemLocation.FolderContextMenu,
+    );
+    await joplin.views.menuItems.create(
+      INTERACTIONS.FOLDER_DECRYPT,
+      COMMANDS.DECRYPT_NOTEBOOK,
+      MenuItemLocation.FolderContextMenu,
+    );
+    await joplin.views.menuItems.create(
+      INTERACTIONS.TAG_ENCRYPT,
+      COMMANDS.ENCRYPT_TAG,
+      MenuItemLocation.TagContextMenu,
+    );
+    await joplin.views.menuItems.create(
+      INTERACTIONS.TAG_DECRYPT,
+      COMMANDS.DECRYPT_TAG,
+      MenuItemLocation.TagContextMenu,
+    );
+    await joplin.views.menuItems.create(
+      INTERACTIONS.EDITOR_ENCRYPT,
+      COMMANDS.ENCRYPT_SELECTION,
+      MenuItemLocation.EditorContextMenu,
+    );
+    await joplin.views.menuItems.create(
+      INTERACTIONS.EDITOR_ENCRYPT_SECRET,
+      COMMANDS.ENCRYPT_INLINE_SECRET,
+      MenuItemLocation.EditorContextMenu,
+    );
 
     // Register contentScripts
     await joplin.contentScripts.register(
@@ -161,6 +793,23 @@ joplin.plugins.register({
       await updateSettings();
     });
 
+    await joplin.workspace.onNoteSelectionChange(async () => {
+      await applyPolicies();
+    });
+
+    await joplin.workspace.onNoteChange(async (event: any) => {
+      // ItemChangeEventType.Delete, the enum is not exported by the API
+      if (event.event === 3) {
+        policyQueue = policyQueue.filter((noteId) => noteId !== event.id);
+        if (event.id === visitedNoteId) {
+          visitedNoteId = null;
+        }
+      }
+      // The selection may have changed without a selection event, e.g. to a
+      // new note, and notes queued during a dialog are still waiting
+      await applyPolicies();
+    });
+
     await joplin.contentScripts.onMessage(
       CONTENT_SCRIPT.MARKDOWNIT_ID,
       async (message: any) => {
@@ -172,9 +821,51 @@ joplin.plugins.register({
 
         // Password handler
         if (message.type === "password") {
-          const decryptStatus = await handlePasswdSubmit(message.msg);
+          const decryptStatus = await handlePasswdSubmit(
+            message.msg,
+            message.fence,
+          );
           return decryptStatus;
         }
+
+        // Unlock with the session cache, before asking for a password
+        if (message.type === "unlockCached") {
+          return await handleCachedUnlock(message.fence);
+        }
+
+        // Edit button of the unlocked viewer
+        if (message.type === "editSecurely") {
+          await editSecurely(message.fence);
+          return;
+        }
+
+        // Reveal and copy buttons of inline secrets
+        if (message.type === "revealSecret" || message.type === "copySecret") {
+          return await handleInlineSecret(
+            message.msg,
+            message.type === "copySecret",
+          );
+        }
+
+        // Download link of an encrypted attachment
+        if (message.type === "downloadResource") {
+          await downloadResource(message.msg);
+          return;
+        }
+
+        // Session lock state, polled by unlocked viewers
+        if (message.type === "session") {
+          return { type: "session", msg: sessionGeneration() };
+        }
+
+        // Viewer hidden or Joplin lost focus
+        if (message.type === "blur") {
+          if (lockOnBlur) {
+            lockSession();
+            logger.info("Session locked on blur");
+          }
+          return { type: "session", msg: sessionGeneration() };
+        }
       },
     );
 
@@ -182,6 +873,8 @@ joplin.plugins.register({
     logger.info("Plugin started successfully");
     encryptionDialogId = await joplin.views.dialogs.create("encryptionDialog");
     decryptionDialogId = await joplin.views.dialogs.create("decryptionDialog");
+    keyslotDialogId = await joplin.views.dialogs.create("keyslotDialog");
+    progressDialogId = await joplin.views.dialogs.create("progressDialog");
     await updateSettings();
   },
 });
@@ -193,54 +886,186 @@ async function updateSettings() {
   const pluginSettings = await joplin.settings.values([
     SETTINGS_MAIN.KEY_SIZE,
     SETTINGS_MAIN.AES_MODE,
+    SETTINGS_MAIN.KDF,
+    SETTINGS_MAIN.VAULT_MODE,
+    SETTINGS_MAIN.AUTO_LOCK,
+    SETTINGS_MAIN.LOCK_ON_BLUR,
+    SETTINGS_MAIN.ENCRYPT_RESOURCES,
+    SETTINGS_MAIN.HIDE_METADATA,
+    SETTINGS_MAIN.PLACEHOLDER_TITLE,
+    SETTINGS_MAIN.HIDDEN_FIELDS,
+    SETTINGS_MAIN.ALLOW_RAW_HTML,
+    SETTINGS_MAIN.PADDING,
+    SETTINGS_MAIN.PADDING_BLOCK,
+    SETTINGS_MAIN.COMPRESS,
+    SETTINGS_MAIN.COMPRESSION_THRESHOLD,
+    SETTINGS_MAIN.ATTEMPT_LIMIT,
+    SETTINGS_MAIN.LOCKOUT_SECONDS,
+    SETTINGS_MAIN.AUTO_ENCRYPT_NOTEBOOKS,
+    SETTINGS_MAIN.AUTO_ENCRYPT_TAGS,
   ]);
 
   aesOptions = {
     KeySize: pluginSettings[SETTINGS_MAIN.KEY_SIZE] as AesOptions["KeySize"],
     AesMode: pluginSettings[SETTINGS_MAIN.AES_MODE] as AesOptions["AesMode"],
+    Kdf: pluginSettings[SETTINGS_MAIN.KDF] as AesOptions["Kdf"],
   };
+  vaultMode = pluginSettings[SETTINGS_MAIN.VAULT_MODE] as boolean;
+  lockOnBlur = pluginSettings[SETTINGS_MAIN.LOCK_ON_BLUR] as boolean;
+  encryptAttachments = pluginSettings[
+    SETTINGS_MAIN.ENCRYPT_RESOURCES
+  ] as boolean;
+  hideNoteMetadata = pluginSettings[SETTINGS_MAIN.HIDE_METADATA] as boolean;
+  placeholderTitle =
+    (pluginSettings[SETTINGS_MAIN.PLACEHOLDER_TITLE] as string) ||
+    "Encrypted note";
+  hiddenFields = ((pluginSettings[SETTINGS_MAIN.HIDDEN_FIELDS] as string) || "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name) => name);
+  allowRawHtml = pluginSettings[SETTINGS_MAIN.ALLOW_RAW_HTML] as boolean;
+  padding =
+    pluginSettings[SETTINGS_MAIN.PADDING] === "block"
+      ? `block-${pluginSettings[SETTINGS_MAIN.PADDING_BLOCK] as number}`
+      : (pluginSettings[SETTINGS_MAIN.PADDING] as AesOptions["Padding"]);
+  compressNotes = pluginSettings[SETTINGS_MAIN.COMPRESS] as boolean;
+  compressionThreshold = pluginSettings[
+    SETTINGS_MAIN.COMPRESSION_THRESHOLD
+  ] as number;
+  attemptLimit = pluginSettings[SETTINGS_MAIN.ATTEMPT_LIMIT] as number;
+  lockoutSeconds = pluginSettings[SETTINGS_MAIN.LOCKOUT_SECONDS] as number;
+  policyRules = parsePolicyRules(
+    pluginSettings[SETTINGS_MAIN.AUTO_ENCRYPT_NOTEBOOKS] as string,
+    pluginSettings[SETTINGS_MAIN.AUTO_ENCRYPT_TAGS] as string,
+  );
+  configureSession(pluginSettings[SETTINGS_MAIN.AUTO_LOCK] as number);
 
-  logger.info("Settings:", aesOptions.KeySize, aesOptions.AesMode);
+  logger.info(
+    "Settings:",
+    aesOptions.KeySize,
+    aesOptions.AesMode,
+    aesOptions.Kdf,
+    vaultMode,
+  );
+}
+
+/**
+ * Tell the user why a fence cannot be parsed.
+ * @param error Error thrown by parseFormat.
+ * @returns The message shown, for the viewer.
+ */
+async function reportFormatError(error: FormatError): Promise<string> {
+  logger.error("Invalid format:", error.code);
+  const msg = `Invalid format: ${error.message}`;
+  await showToast(msg, ToastType.Error);
+  return msg;
+}
+
+/**
+ * Parse the first fence of a note body, telling the user why if it fails.
+ * @param body The note body.
+ * @returns Parsed encryption data, null if the fence cannot be parsed.
+ */
+async function parseOrReport(body: string): Promise<ParsedNote | null> {
+  try {
+    return parseFormat(body);
+  } catch (error) {
+    if (!(error instanceof FormatError)) {
+      throw error;
+    }
+    await reportFormatError(error);
+    return null;
+  }
+}
+
+/**
+ * Find the fence a viewer rendered in the note of the viewer. Only that
+ * fence is decrypted, if the note changed in the meantime it is not found.
+ * @param fence Identity of the fence, the first fence of the note if
+ *              omitted.
+ * @returns The note and its parsed fence, null if the note has no such fence.
+ * @throws FormatError if the fence cannot be parsed.
+ */
+async function locateFence(
+  fence?: string,
+): Promise<{ note: BulkNote; parsed: ParsedNote } | null> {
+  const note = await viewerNote();
+  if (!note) {
+    return null;
+  }
+  const parsed =
+    typeof fence === "string"
+      ? findFence(note.body, fence)
+      : parseFormat(note.body);
+  return parsed ? { note, parsed } : null;
+}
+
+/**
+ * Load the note a viewer message belongs to: the note shown in the window
+ * the user is interacting with, which sent the message. Messages carry no
+ * note id, the renderer is not told which note it renders.
+ * @returns The note, null if no note is shown.
+ */
+async function viewerNote(): Promise<BulkNote | null> {
+  const note = await joplin.workspace.selectedNote();
+  return note ? { id: note.id, title: note.title, body: note.body } : null;
 }
 
 /**
  * Function to validate password and send back the decrypted data if successful.
  * @param passwd Password that need to be validated
+ * @param fence Identity of the fence to decrypt, the first fence if omitted.
  * @returns Validatation status and Decrypted content if successful.
  */
-export async function handlePasswdSubmit(passwd: string) {
-  // TODO: Also update this to workspace.selectedNote()
-  const [noteId] = await joplin.workspace.selectedNoteIds();
-  const note = await joplin.data.get(["notes", noteId], {
-    fields: ["*"],
-  });
+export async function handlePasswdSubmit(passwd: string, fence?: string) {
+  let located: { note: BulkNote; parsed: ParsedNote } | null;
+  try {
+    located = await locateFence(fence);
+  } catch (error) {
+    if (!(error instanceof FormatError)) {
+      throw error;
+    }
+    return { type: "error", msg: await reportFormatError(error) };
+  }
 
-  const parsed = await validateFormat(note.body);
+  if (!located) {
+    logger.error("Encrypted block not found");
+    await showToast("The encrypted block was not found", ToastType.Error);
+    return { type: "error", msg: "The encrypted block was not found" };
+  }
+  const { note, parsed } = located;
 
-  if (!parsed) {
-    logger.error("Invalid format");
-    await showToast("Invalid format", ToastType.Error);
-    return { type: "error", msg: "Invalid format" };
+  const lockout = await attemptMessage(note.id, null);
+  if (lockout) {
+    logger.info("Note locked out");
+    return { type: "error", msg: lockout };
   }
 
   try {
-    const decryptedContent = await decryptData(
-      parsed.aesOptions,
-      parsed.data,
-      passwd,
-    );
+    const decryptedContent = await unlockNote(parsed, passwd);
+    await clearFailures(note.id);
 
-    // TODO: Instead of using markdownIt externally. Try to use the Joplin's renderer.
-    const renderedContent = await renderMarkdown(decryptedContent);
+    const rendered = await renderContent(decryptedContent);
 
     return {
       type: "success",
-      msg: renderedContent,
+      msg: rendered.html,
+      css: rendered.css,
+      session: sessionGeneration(),
     };
   } catch (error) {
     if (error instanceof WrongPasswordError) {
       logger.info("Incorrect password");
-      return { type: "error", msg: "Incorrect password, try again" };
+      const msg = await wrongPasswordMessage(note.id);
+      return { type: "error", msg: await attemptMessage(note.id, msg) };
+    }
+    if (error instanceof IntegrityError) {
+      logger.error("Integrity check failed");
+      await showToast(
+        "Integrity check failed, the encrypted note was modified",
+        ToastType.Error,
+      );
+      return { type: "error", msg: "Integrity check failed" };
     }
     logger.error("Decryption error:", error);
     showToast("Decryption failed", ToastType.Error);
@@ -249,34 +1074,317 @@ export async function handlePasswdSubmit(passwd: string) {
 }
 
 /**
- * Function to toggle note lock.
+ * Unlock a rendered fence with keys cached in the session.
+ * @param fence Identity of the fence, the first fence if omitted.
+ * @returns Decrypted content if the session holds its keys, locked otherwise.
  */
-async function toggleLock() {
-  logger.debug("ToggleLock invoked");
-
-  // TODO: Fix the workspace.SelectedNote() in joplin and use it.
-  // Two calls to the DB can be reduced to one call.
-  const [noteId] = await joplin.workspace.selectedNoteIds();
-  const note = await joplin.data.get(["notes", noteId], {
-    fields: ["id", "body"],
-  });
-  logger.debug("noteID:", note.id);
-
-  const isLocked = await isNoteLocked(note.body);
-  logger.debug("isLocked:", isLocked);
-
-  if (isLocked) {
-    await decryptNote(note);
-  } else {
-    await encryptNote(note);
+async function handleCachedUnlock(fence?: string) {
+  try {
+    // Invalid fences stay locked, the reason is shown once a password is sent
+    const located = await locateFence(fence);
+    if (!located) {
+      return { type: "locked" };
+    }
+    const decryptedContent = await unlockNoteFromSession(located.parsed);
+    if (decryptedContent === null) {
+      return { type: "locked" };
+    }
+    const rendered = await renderContent(decryptedContent);
+    return {
+      type: "success",
+      msg: rendered.html,
+      css: rendered.css,
+      session: sessionGeneration(),
+    };
+  } catch (error) {
+    logger.info("Session unlock failed:", error);
+    return { type: "locked" };
   }
 }
 
 /**
- * Encrypt the active note using a password and AES encryption.
- * @param note Note to be encrypted.
+ * Decrypt an inline secret of the rendered note on demand, with keys
+ * cached in the session or a password asked for in a dialog. Failed
+ * attempts count against the note holding the secret.
+ * @param payload Payload of the inline secret.
+ * @param copy Copy the secret to the clipboard instead of returning it.
+ * @returns The secret, or only the status once it was copied.
  */
-export async function encryptNote(note: any) {
+async function handleInlineSecret(payload: string, copy: boolean) {
+  let parsed: ParsedNote;
+  try {
+    parsed = parseInlineSecret(payload);
+  } catch (error) {
+    if (!(error instanceof FormatError)) {
+      throw error;
+    }
+    logger.error("Invalid format:", error.code);
+    return { type: "error", msg: `Invalid format: ${error.message}` };
+  }
+  const note = await viewerNote();
+  if (!note || note.body.indexOf(`{{sn:${payload}}}`) === -1) {
+    logger.error("Inline secret not found");
+    return { type: "error", msg: "The secret was not found in the note" };
+  }
+
+  let secret: string | null;
+  let msg = `Enter password to ${copy ? "Copy" : "Reveal"} the secret`;
+  try {
+    secret = await unlockNoteFromSession(parsed);
+    while (secret === null) {
+      const lockout = await attemptMessage(note.id, null);
+      if (lockout) {
+        return { type: "error", msg: lockout };
+      }
+      const passwd = await showDecryptionDialog(decryptionDialogId, msg);
+      if (!passwd) {
+        logger.debug("Password dialog cancelled");
+        return { type: "cancelled" };
+      }
+      try {
+        secret = await unlockNote(parsed, passwd);
+        await clearFailures(note.id);
+      } catch (error) {
+        if (!(error instanceof WrongPasswordError)) {
+          throw error;
+        }
+        logger.info("Incorrect password");
+        msg = await wrongPasswordMessage(note.id);
+      }
+    }
+  } catch (error) {
+    if (error instanceof IntegrityError) {
+      logger.error("Integrity check failed");
+      return { type: "error", msg: "Integrity check failed" };
+    }
+    logger.error("Decryption error:", error);
+    return { type: "error", msg: "Decryption failed" };
+  }
+
+  if (copy) {
+    await joplin.clipboard.writeText(secret);
+    await showToast("Secret copied to the clipboard", ToastType.Success);
+    return { type: "success", session: sessionGeneration() };
+  }
+  return { type: "success", msg: secret, session: sessionGeneration() };
+}
+
+/**
+ * Render decrypted content for the viewer, with its hidden metadata as a
+ * header and its encrypted attachments inlined. Raw HTML is escaped unless
+ * allowed, the viewer sanitises the result either way.
+ * @param content Decrypted content.
+ * @returns Renderable HTML and its styles.
+ */
+async function renderContent(content: string): Promise<RenderedMarkup> {
+  const { meta, body } = extractMetadata(content);
+  const markup = await inlineResources(body);
+  const rendered = await renderMarkdown(
+    allowRawHtml ? markup : escapeRawHtml(markup),
+  );
+  return {
+    html: (meta ? metadataHtml(meta) : "") + rendered.html,
+    css: rendered.css,
+  };
+}
+
+/**
+ * Save a decrypted copy of an encrypted attachment to a folder the user
+ * picks, for the download links of the viewer.
+ * @param link Download link of the viewer, see parseDownloadLink.
+ */
+async function downloadResource(link: string) {
+  const resource = parseDownloadLink(link);
+  if (!resource) {
+    logger.error("Download link not written by the plugin");
+    return;
+  }
+
+  const folders = await joplin.views.dialogs.showOpenDialog({
+    title: "Save attachment to",
+    properties: ["openDirectory"],
+  });
+  if (!folders || !folders.length) {
+    return;
+  }
+
+  try {
+    const { meta, bytes } = await decryptResource(resource.id, resource.key);
+    const fs = joplin.require("fs-extra");
+    const filename = meta.filename.replace(/[\\/]/g, "_");
+    await fs.writeFile(`${folders[0]}/${filename}`, bytes);
+    await showToast(`Saved ${filename}`, ToastType.Success);
+  } catch (error) {
+    logger.error("Attachment download failed:", error);
+    await showToast("Attachment download failed", ToastType.Error);
+  }
+}
+
+/**
+ * Message to show before a password is tried on a note.
+ * @param noteId Id of the note.
+ * @param msg Message to show if the note is not locked out.
+ * @returns The remaining lockout if the note is locked out, msg otherwise.
+ */
+async function attemptMessage(noteId: string, msg: string | null) {
+  const remaining = await lockoutRemaining(noteId);
+  if (remaining) {
+    return `Too many wrong passwords, try again in ${formatLockout(remaining)}`;
+  }
+  return msg;
+}
+
+/**
+ * Show the remaining lockout of a note instead of asking for its password.
+ * @param noteId Id of the note.
+ * @returns True if the note is locked out.
+ */
+async function reportLockout(noteId: string): Promise<boolean> {
+  const lockout = await attemptMessage(noteId, null);
+  if (!lockout) {
+    return false;
+  }
+  await showToast(lockout, ToastType.Error);
+  return true;
+}
+
+/**
+ * Count a wrong password on a note.
+ * @param noteId Id of the note.
+ * @returns Message with the attempts left before the note is locked out.
+ */
+async function wrongPasswordMessage(noteId: string) {
+  const status = await recordFailure(noteId, attemptLimit, lockoutSeconds);
+  if (status.lockout) {
+    logger.info("Note locked out for", formatLockout(status.lockout));
+    return "Incorrect password, try again";
+  }
+  return `Incorrect password, ${status.attemptsLeft} attempt(s) left`;
+}
+
+/**
+ * Forget all keys of the session and re-lock unlocked viewers.
+ */
+async function lockAll() {
+  lockSession();
+  await showToast("All notes locked", ToastType.Success);
+  logger.info("Session locked");
+}
+
+/**
+ * Encrypt the note the user just left if an auto-encryption rule covers it.
+ * Notes left while an earlier match is still handled are queued and handled
+ * after it.
+ */
+async function applyPolicies() {
+  const [noteId] = await joplin.workspace.selectedNoteIds();
+  const leftNoteId = visitedNoteId;
+  visitedNoteId = noteId || null;
+
+  if (
+    leftNoteId &&
+    leftNoteId !== noteId &&
+    policyRules.length &&
+    policyQueue.indexOf(leftNoteId) === -1
+  ) {
+    policyQueue.push(leftNoteId);
+  }
+  // A password dialog of an earlier match is still open, that run takes the
+  // queued notes once it is done
+  if (policyRunning) {
+    return;
+  }
+
+  policyRunning = true;
+  try {
+    while (policyQueue.length) {
+      const queuedNoteId = policyQueue.shift();
+      // The user went back to the note, it is queued again when left
+      if (queuedNoteId !== visitedNoteId) {
+        await applyPolicy(queuedNoteId);
+      }
+    }
+  } finally {
+    policyRunning = false;
+  }
+}
+
+/**
+ * Encrypt a note if an auto-encryption rule covers it. The first match of
+ * every rule shows a dry-run preview of the notes the rule covers, later
+ * matches encrypt right away through encryptNote.
+ * @param noteId Id of the note the user left.
+ */
+async function applyPolicy(noteId: string) {
+  try {
+    const note = await joplin.data.get(["notes", noteId], {
+      fields: ["id", "title", "body", "parent_id"],
+    });
+    if (await isNoteLocked(note.body)) {
+      return;
+    }
+
+    const rule = await findMatchingRule(note, policyRules);
+    if (!rule) {
+      return;
+    }
+    logger.debug("Auto-encryption rule matched:", describeRule(rule));
+
+    if (!(await isRulePreviewed(rule))) {
+      const covered = await previewRule(rule);
+      const titles = covered
+        .slice(0, 15)
+        .map((other) => `- ${other.title || "Untitled"}`);
+      if (covered.length > titles.length) {
+        titles.push(`- ... and ${covered.length - titles.length} more`);
+      }
+      const choice = await joplin.views.dialogs.showMessageBox(
+        `Auto-encryption rule ${describeRule(rule)} matched "${note.title}" for the first time.\n\n` +
+          `It covers ${covered.length} note(s) that are not encrypted yet, each is encrypted when you leave it:\n` +
+          `${titles.join("\n")}\n\nEncrypt "${note.title}" now and enable the rule?`,
+      );
+      if (choice !== 0) {
+        logger.info("Auto-encryption preview declined");
+        return;
+      }
+      await markRulePreviewed(rule);
+    }
+
+    await encryptNote(note);
+  } catch (error) {
+    logger.error("Auto-encryption failed:", error);
+  }
+}
+
+/**
+ * Function to toggle note lock.
+ */
+async function toggleLock() {
+  logger.debug("ToggleLock invoked");
+
+  // TODO: Fix the workspace.SelectedNote() in joplin and use it.
+  // Two calls to the DB can be reduced to one call.
+  const [noteId] = await joplin.workspace.selectedNoteIds();
+  const note = await joplin.data.get(["notes", noteId], {
+    fields: ["id", "body"],
+  });
+  logger.debug("noteID:", note.id);
+
+  const isLocked = await isNoteLocked(note.body);
+  logger.debug("isLocked:", isLocked);
+
+  if (isLocked) {
+    await decryptNote(note);
+  } else {
+    await encryptNote(note);
+  }
+}
+
+/**
+ * Encrypt the active note using a password and AES encryption.
+ * @param note Note to be encrypted.
+ */
+export async function encryptNote(note: any) {
   logger.debug("EncryptNote invoked");
 
   if (!note) {
@@ -294,22 +1402,265 @@ export async function encryptNote(note: any) {
     return;
   }
 
-  const passwd = await showEncryptionDialog(
-    encryptionDialogId,
-    "Enter password to Encrypt",
-  );
-  if (!passwd) {
-    logger.debug("Password dialog cancelled");
+  const secret = await promptEncryptionSecret("Encrypt");
+  if (!secret) {
     return;
   }
 
-  const encryptedData = await encryptData(aesOptions, note.body || "", passwd);
+  const shared = await sealNote(note, secret);
+
+  await showToast(
+    shared
+      ? `Note encrypted, ${shared} attachment(s) other notes use were left unencrypted`
+      : "Note encrypted successfully",
+    ToastType.Success,
+  );
+  logger.info("Encryption complete");
+}
+
+/**
+ * Encrypt a note and save it. With the attachments setting its resources
+ * are encrypted first, the plain originals are deleted once the encrypted
+ * body is saved. With hidden metadata the title, tags and hidden fields are
+ * encrypted along with the body and replaced by the placeholder title.
+ * @param note Note with id and body.
+ * @param secret Password or unlocked vault, see promptEncryptionSecret.
+ * @returns Number of attachments left plain because other notes use them.
+ */
+async function sealNote(
+  note: { id: string; body: string },
+  secret: EncryptionSecret,
+): Promise<number> {
+  let body = note.body || "";
+  let originals: string[] = [];
+  let shared = 0;
+  if (encryptAttachments) {
+    ({ body, originals, shared } = await encryptResources(note.id, body));
+  }
+  const meta = hideNoteMetadata
+    ? await collectMetadata(note.id, hiddenFields)
+    : null;
+
   await joplin.data.put(["notes", note.id], null, {
-    body: await generateEncryptedNote(aesOptions, encryptedData),
+    body: await encryptBody(meta ? embedMetadata(body, meta) : body, secret),
   });
+  await deleteResources(originals);
+  if (meta) {
+    await hideMetadata(note.id, meta, placeholderTitle);
+  }
+  return shared;
+}
 
-  await showToast("Note encrypted successfully", ToastType.Success);
-  logger.info("Encryption complete");
+/**
+ * Save a decrypted note body. Its encrypted attachments are restored as
+ * plain resources, the encrypted copies are deleted once the body is saved,
+ * and hidden metadata is restored.
+ * @param noteId Id of the note.
+ * @param body Decrypted note body.
+ */
+async function saveDecryptedBody(noteId: string, body: string) {
+  const { meta, body: content } = extractMetadata(body);
+  const restored = await restoreResources(content);
+  await joplin.data.put(["notes", noteId], null, { body: restored.body });
+  await deleteResources(restored.encrypted);
+  if (meta) {
+    await restoreMetadata(noteId, meta);
+  }
+}
+
+/**
+ * Ask for the secret new notes are encrypted with: the vault key in vault
+ * mode, a new password otherwise.
+ * @param action What the secret is for, shown in the password dialog.
+ * @returns The password or the unlocked vault, null if cancelled.
+ */
+async function promptEncryptionSecret(
+  action: string,
+): Promise<EncryptionSecret | null> {
+  if (!vaultMode) {
+    const passwd = await showEncryptionDialog(
+      encryptionDialogId,
+      `Enter password to ${action}`,
+    );
+    if (!passwd) {
+      logger.debug("Password dialog cancelled");
+      return null;
+    }
+    return passwd;
+  }
+
+  const vault = await loadVault();
+  if (!vault) {
+    await showToast(
+      "Set a vault password first (Tools > Secure Notes > Set Vault Password)",
+      ToastType.Info,
+    );
+    return null;
+  }
+
+  const vaultKey =
+    cachedVaultKey(vault.id) ||
+    (await promptVaultKey(vault, `Enter vault password to ${action}`));
+  if (!vaultKey) {
+    return null;
+  }
+  return { vault, vaultKey };
+}
+
+/**
+ * Options to encrypt a body with: the cipher and padding settings, and
+ * compression if it is enabled and the body reaches the threshold.
+ * Compressed bodies are always padded.
+ * @param body Plain note body.
+ * @returns AES options for the body.
+ */
+function optionsFor(body: string): AesOptions {
+  if (
+    !compressNotes ||
+    new TextEncoder().encode(body).length < compressionThreshold * 1024
+  ) {
+    return { ...aesOptions, Padding: padding };
+  }
+  return {
+    ...aesOptions,
+    Compression: "deflate",
+    Padding: padding === "none" ? "pow2" : padding,
+  };
+}
+
+/**
+ * Encrypt a note body with the current settings. With a password the
+ * content key is derived from it, with the vault a random data key is
+ * wrapped by the vault key.
+ * @param body Plain note body.
+ * @param secret Password or unlocked vault, see promptEncryptionSecret.
+ * @param blockId Id for an inline encrypted block, omitted for a whole note.
+ * @returns Encrypted note body.
+ */
+async function encryptBody(
+  body: string,
+  secret: EncryptionSecret,
+  blockId: string | null = null,
+): Promise<string> {
+  const options = optionsFor(body);
+  if (typeof secret === "string") {
+    const encryptedData = await encryptData(options, body, secret);
+    return generateEncryptedNote(options, encryptedData, [], blockId);
+  }
+
+  const dataKey = generateDataKey();
+  const noteOptions: AesOptions = { ...options, KeySource: "keyslots" };
+  const encryptedData = await encryptDataWithKey(noteOptions, body, dataKey);
+  const keyslots = [
+    await createVaultSlot([], dataKey, secret.vault, secret.vaultKey),
+  ];
+  return generateEncryptedNote(
+    noteOptions,
+    encryptedData,
+    keyslots,
+    blockId,
+    await keyslotsMac(dataKey, noteOptions, encryptedData, keyslots),
+  );
+}
+
+/**
+ * Encrypt a one-line value as an inline secret with the current settings,
+ * see encryptBody.
+ * @param value Plain value.
+ * @param secret Password or unlocked vault, see promptEncryptionSecret.
+ * @returns The inline secret.
+ */
+async function encryptInline(
+  value: string,
+  secret: EncryptionSecret,
+): Promise<string> {
+  const options = optionsFor(value);
+  if (typeof secret === "string") {
+    const encryptedData = await encryptData(options, value, secret);
+    return generateInlineSecret(options, encryptedData);
+  }
+
+  const dataKey = generateDataKey();
+  const noteOptions: AesOptions = { ...options, KeySource: "keyslots" };
+  const encryptedData = await encryptDataWithKey(noteOptions, value, dataKey);
+  const slot = await createVaultSlot(
+    [],
+    dataKey,
+    secret.vault,
+    secret.vaultKey,
+  );
+  return generateInlineSecret(
+    noteOptions,
+    encryptedData,
+    slot,
+    await keyslotsMac(dataKey, noteOptions, encryptedData, [slot]),
+  );
+}
+
+/**
+ * Encrypt the text selected in the Markdown editor as an inline block. The
+ * rest of the note stays readable, a note can hold several such blocks.
+ */
+async function encryptSelection() {
+  logger.debug("EncryptSelection invoked");
+
+  const selection: string = await joplin.commands.execute("selectedText");
+  if (!selection || !selection.trim()) {
+    await showToast("Select the text to encrypt first", ToastType.Info);
+    return;
+  }
+  if (await isNoteLocked(selection)) {
+    await showToast("Selection is already encrypted", ToastType.Info);
+    return;
+  }
+
+  const secret = await promptEncryptionSecret("Encrypt the selection");
+  if (!secret) {
+    return;
+  }
+
+  const block = await encryptBody(selection, secret, generateBlockId());
+  await joplin.commands.execute("replaceSelection", `\n${block}`);
+
+  await showToast("Selection encrypted successfully", ToastType.Success);
+  logger.info("Encryption complete (selection)");
+}
+
+/**
+ * Encrypt the value selected in the Markdown editor, e.g. an API key, as an
+ * inline secret that the viewer shows as a masked pill. Like notes, inline
+ * secrets are keyed by the vault in vault mode and by a password otherwise.
+ */
+async function encryptInlineSecret() {
+  logger.debug("EncryptInlineSecret invoked");
+
+  const selection: string = await joplin.commands.execute("selectedText");
+  const value = (selection || "").trim();
+  if (!value) {
+    await showToast("Select the value to encrypt first", ToastType.Info);
+    return;
+  }
+  if (value.indexOf("\n") !== -1) {
+    await showToast(
+      "Inline secrets are one line, use Encrypt Selection instead",
+      ToastType.Info,
+    );
+    return;
+  }
+
+  const secret = await promptEncryptionSecret("Encrypt the secret");
+  if (!secret) {
+    return;
+  }
+
+  const inlineSecret = await encryptInline(value, secret);
+  await joplin.commands.execute(
+    "replaceSelection",
+    selection.replace(value, () => inlineSecret),
+  );
+
+  await showToast("Secret encrypted successfully", ToastType.Success);
+  logger.info("Encryption complete (inline secret)");
 }
 
 /**
@@ -333,16 +1684,15 @@ export async function decryptNote(note: any) {
     return;
   }
 
-  const parsed = await validateFormat(note.body);
-  if (!parsed) {
-    logger.error("Invalid format");
-    await showToast("Invalid format", ToastType.Error);
+  if (!(await parseOrReport(note.body))) {
     return;
   }
 
   let msg = "Enter password to Decrypt";
-  // TODO: This is dangerous, limit it to 3 counts.
   while (true) {
+    if (await reportLockout(note.id)) {
+      return;
+    }
     const passwd = await showDecryptionDialog(decryptionDialogId, msg);
     if (!passwd) {
       logger.debug("Password dialog cancelled");
@@ -350,21 +1700,28 @@ export async function decryptNote(note: any) {
     }
 
     try {
-      const decryptedContent = await decryptData(
-        parsed.aesOptions,
-        parsed.data,
-        passwd,
+      const { body, remaining } = await decryptBlocks(note.body, passwd);
+      await clearFailures(note.id);
+      await saveDecryptedBody(note.id, body);
+      await showToast(
+        remaining
+          ? `Note decrypted, ${remaining} block(s) with another password left encrypted`
+          : "Note decrypted successfully",
+        ToastType.Success,
       );
-      await joplin.data.put(["notes", note.id], null, {
-        body: decryptedContent,
-      });
-      await showToast("Note decrypted successfully", ToastType.Success);
       logger.info("Decryption complete");
       return;
     } catch (error) {
       if (error instanceof WrongPasswordError) {
         logger.info("Incorrect password");
-        msg = "Incorrect password, try again";
+        msg = await wrongPasswordMessage(note.id);
+      } else if (error instanceof IntegrityError) {
+        logger.error("Integrity check failed");
+        await showToast(
+          "Integrity check failed, the encrypted note was modified",
+          ToastType.Error,
+        );
+        return;
       } else {
         logger.info("Decryption failed: ", error);
         showToast("Decryption faild", ToastType.Error);
@@ -373,3 +1730,1168 @@ export async function decryptNote(note: any) {
     }
   }
 }
+
+/**
+ * Open an encrypted note in the secure editor. The note's keys are taken
+ * from the session or unlocked with a password, every save re-encrypts the
+ * content with them.
+ * @param fence Identity of the fence to edit, the first fence of the active
+ *              note if omitted.
+ */
+async function editSecurely(fence?: string) {
+  logger.debug("EditSecurely invoked");
+
+  const selected = await viewerNote();
+
+  if (
+    typeof fence !== "string" &&
+    !(selected && (await isNoteLocked(selected.body)))
+  ) {
+    logger.debug("Note is not encrypted");
+    await showToast("Note is not encrypted", ToastType.Info);
+    return;
+  }
+
+  let located: { note: BulkNote; parsed: ParsedNote } | null;
+  try {
+    located = await locateFence(fence);
+  } catch (error) {
+    if (!(error instanceof FormatError)) {
+      throw error;
+    }
+    await reportFormatError(error);
+    return;
+  }
+  if (!located) {
+    logger.error("Encrypted block not found");
+    await showToast("The encrypted block was not found", ToastType.Error);
+    return;
+  }
+  const { note, parsed } = located;
+
+  // Saving keeps the envelope, older formats are read-only
+  if ((parsed.aesOptions.Version || FORMAT_VERSION) < WRITE_VERSION_MIN) {
+    await showToast(
+      `This block uses format-version ${parsed.aesOptions.Version}, re-encrypt it with Change Password before editing it securely`,
+      ToastType.Info,
+    );
+    return;
+  }
+
+  let content: string | null;
+  let msg = "Enter password to Edit";
+  try {
+    content = await unlockNoteFromSession(parsed);
+    while (content === null) {
+      if (await reportLockout(note.id)) {
+        return;
+      }
+      const passwd = await showDecryptionDialog(decryptionDialogId, msg);
+      if (!passwd) {
+        logger.debug("Password dialog cancelled");
+        return;
+      }
+      try {
+        content = await unlockNote(parsed, passwd);
+        await clearFailures(note.id);
+      } catch (error) {
+        if (!(error instanceof WrongPasswordError)) {
+          throw error;
+        }
+        logger.info("Incorrect password");
+        msg = await wrongPasswordMessage(note.id);
+      }
+    }
+  } catch (error) {
+    if (error instanceof IntegrityError) {
+      logger.error("Integrity check failed");
+      await showToast(
+        "Integrity check failed, the encrypted note was modified",
+        ToastType.Error,
+      );
+      return;
+    }
+    logger.error("Decryption error:", error);
+    await showToast("Decryption failed", ToastType.Error);
+    return;
+  }
+
+  await openSecureEditor(note, parsed, sessionNoteKeys(parsed), content);
+  logger.info("Secure editor opened");
+}
+
+/**
+ * Add a password slot to the active encrypted note. A note that is still
+ * keyed by its password is converted to keyslots first: its body is
+ * re-encrypted once with a random data key, and its password becomes slot 1.
+ */
+async function addKeyslot() {
+  logger.debug("AddKeyslot invoked");
+
+  const [noteId] = await joplin.workspace.selectedNoteIds();
+  const note = await joplin.data.get(["notes", noteId], {
+    fields: ["id", "body"],
+  });
+
+  if (!(await isNoteLocked(note.body))) {
+    logger.debug("Note is not encrypted");
+    await showToast("Note is not encrypted", ToastType.Info);
+    return;
+  }
+
+  const parsed = await parseOrReport(note.body);
+  if (!parsed) {
+    return;
+  }
+
+  const hasKeyslots = parsed.aesOptions.KeySource === "keyslots";
+  let msg = "Enter a current password of the note";
+  let passwd: string;
+  let dataKey: Uint8Array;
+  let content: string;
+  while (true) {
+    if (await reportLockout(note.id)) {
+      return;
+    }
+    passwd = await showDecryptionDialog(decryptionDialogId, msg);
+    if (!passwd) {
+      logger.debug("Password dialog cancelled");
+      return;
+    }
+
+    try {
+      if (hasKeyslots) {
+        ({ dataKey } = await openNoteKeyslots(parsed, passwd, {
+          vault: await loadVault(),
+          identity: await loadIdentity(),
+        }));
+      } else {
+        content = await decryptData(parsed.aesOptions, parsed.data, passwd);
+      }
+      await clearFailures(note.id);
+      break;
+    } catch (error) {
+      if (error instanceof WrongPasswordError) {
+        logger.info("Incorrect password");
+        msg = await wrongPasswordMessage(note.id);
+      } else {
+        logger.error("Unlock failed:", error);
+        await showToast("Unlock failed", ToastType.Error);
+        return;
+      }
+    }
+  }
+
+  const newSlot = await showKeyslotDialog(
+    keyslotDialogId,
+    "Enter password for the new slot",
+  );
+  if (!newSlot) {
+    logger.debug("Keyslot dialog cancelled");
+    return;
+  }
+
+  let noteOptions = parsed.aesOptions;
+  let data = parsed.data;
+  let keyslots: KeySlot[] = parsed.keyslots;
+  if (!hasKeyslots) {
+    dataKey = generateDataKey();
+    noteOptions = {
+      ...noteOptions,
+      Version: FORMAT_VERSION,
+      KeySource: "keyslots",
+    };
+    data = await encryptDataWithKey(noteOptions, content, dataKey);
+    keyslots = [
+      await createPasswordSlot([], dataKey, passwd, "Primary", aesOptions),
+    ];
+  }
+
+  keyslots = [
+    ...keyslots,
+    await createPasswordSlot(
+      keyslots,
+      dataKey,
+      newSlot.password,
+      newSlot.label,
+      aesOptions,
+    ),
+  ];
+
+  await joplin.data.put(["notes", note.id], null, {
+    body: replaceSecureBlock(
+      note.body,
+      parsed.text,
+      await generateEncryptedNote(
+        noteOptions,
+        data,
+        keyslots,
+        parsed.id,
+        await keyslotsMac(dataKey, noteOptions, data, keyslots),
+      ),
+    ),
+  });
+
+  await showToast("Password slot added", ToastType.Success);
+  logger.info("Keyslot added");
+}
+
+/**
+ * List the password slots of the active encrypted note.
+ */
+async function listKeyslots() {
+  logger.debug("ListKeyslots invoked");
+
+  const [noteId] = await joplin.workspace.selectedNoteIds();
+  const note = await joplin.data.get(["notes", noteId], {
+    fields: ["id", "body"],
+  });
+
+  if (!(await isNoteLocked(note.body))) {
+    await showToast("Note is not encrypted", ToastType.Info);
+    return;
+  }
+
+  const parsed = await parseOrReport(note.body);
+  if (!parsed) {
+    return;
+  }
+
+  if (parsed.aesOptions.KeySource !== "keyslots") {
+    await joplin.views.dialogs.showMessageBox(
+      "This note is protected by a single password and has no password slots.",
+    );
+    return;
+  }
+
+  const lines = parsed.keyslots.map((slot) => {
+    if (slot.type === "vault") {
+      return `#${slot.id}  ${slot.label}  (vault key)`;
+    }
+    if (slot.type === "recipient") {
+      return `#${slot.id}  ${slot.label}  (public key ${slot.key})`;
+    }
+    return `#${slot.id}  ${slot.label}  (password, ${slot.options.Kdf})`;
+  });
+  await joplin.views.dialogs.showMessageBox(
+    `Password slots of this note:\n\n${lines.join("\n")}`,
+  );
+}
+
+/**
+ * Remove a password slot from the active encrypted note. The body is not
+ * re-encrypted, the last remaining slot cannot be removed.
+ */
+async function removeKeyslot() {
+  logger.debug("RemoveKeyslot invoked");
+
+  const [noteId] = await joplin.workspace.selectedNoteIds();
+  const note = await joplin.data.get(["notes", noteId], {
+    fields: ["id", "body"],
+  });
+
+  if (!(await isNoteLocked(note.body))) {
+    await showToast("Note has no password slots", ToastType.Info);
+    return;
+  }
+
+  const parsed = await parseOrReport(note.body);
+  if (!parsed) {
+    return;
+  }
+  if (parsed.aesOptions.KeySource !== "keyslots") {
+    await showToast("Note has no password slots", ToastType.Info);
+    return;
+  }
+
+  if (parsed.keyslots.length < 2) {
+    await showToast("The last password slot cannot be removed", ToastType.Info);
+    return;
+  }
+
+  let msg = "Select the slot to remove";
+  while (true) {
+    if (await reportLockout(note.id)) {
+      return;
+    }
+    const removal = await showKeyslotRemovalDialog(
+      keyslotDialogId,
+      msg,
+      parsed.keyslots,
+    );
+    if (!removal) {
+      logger.debug("Keyslot dialog cancelled");
+      return;
+    }
+
+    let dataKey: Uint8Array;
+    try {
+      ({ dataKey } = await openNoteKeyslots(parsed, removal.password, {
+        vault: await loadVault(),
+        identity: await loadIdentity(),
+      }));
+      await clearFailures(note.id);
+    } catch (error) {
+      if (error instanceof WrongPasswordError) {
+        logger.info("Incorrect password");
+        msg = await wrongPasswordMessage(note.id);
+        continue;
+      }
+      logger.error("Unlock failed:", error);
+      await showToast("Unlock failed", ToastType.Error);
+      return;
+    }
+
+    const keyslots = parsed.keyslots.filter(
+      (slot) => slot.id !== removal.slotId,
+    );
+    await joplin.data.put(["notes", note.id], null, {
+      body: replaceSecureBlock(
+        note.body,
+        parsed.text,
+        await generateEncryptedNote(
+          parsed.aesOptions,
+          parsed.data,
+          keyslots,
+          parsed.id,
+          await keyslotsMac(dataKey, parsed.aesOptions, parsed.data, keyslots),
+        ),
+      ),
+    });
+
+    await showToast("Password slot removed", ToastType.Success);
+    logger.info("Keyslot removed");
+    return;
+  }
+}
+
+/**
+ * Change the password of the active encrypted note. Every fence the old
+ * password opens is re-encrypted in memory under the new password and the
+ * chosen cipher, and the note is written once, so plaintext never reaches
+ * the note or its revisions.
+ */
+async function changePassword() {
+  logger.debug("ChangePassword invoked");
+
+  const [noteId] = await joplin.workspace.selectedNoteIds();
+  const note = await joplin.data.get(["notes", noteId], {
+    fields: ["id", "body"],
+  });
+
+  const blocks = validateBlocks(note.body);
+  if (!blocks.length) {
+    logger.debug("Note is not encrypted");
+    await showToast("Note is not encrypted", ToastType.Info);
+    return;
+  }
+
+  let msg = "Enter the current and the new password";
+  while (true) {
+    if (await reportLockout(note.id)) {
+      return;
+    }
+    const change = await showChangePasswordDialog(
+      keyslotDialogId,
+      msg,
+      blocks[0].aesOptions,
+    );
+    if (!change) {
+      logger.debug("Change password dialog cancelled");
+      return;
+    }
+
+    let rekeyed: { body: string; changed: number; total: number };
+    try {
+      rekeyed = await rekeyBody(
+        note.body,
+        change.oldPassword,
+        change.password,
+        change.options,
+      );
+    } catch (error) {
+      if (error instanceof IntegrityError) {
+        logger.error("Integrity check failed");
+        await showToast(
+          "Integrity check failed, the encrypted note was modified",
+          ToastType.Error,
+        );
+        return;
+      }
+      logger.error("Password change failed:", error);
+      await showToast("Password change failed", ToastType.Error);
+      return;
+    }
+    const { body, changed } = rekeyed;
+
+    if (!changed) {
+      logger.info("Incorrect password");
+      msg = await wrongPasswordMessage(note.id);
+      continue;
+    }
+    await clearFailures(note.id);
+
+    await joplin.data.put(["notes", note.id], null, { body });
+    await showToast(
+      blocks.length > 1
+        ? `Password changed for ${changed} of ${blocks.length} encrypted blocks`
+        : "Password changed",
+      ToastType.Success,
+    );
+    logger.info("Password changed");
+    return;
+  }
+}
+
+/**
+ * Ask for the vault password until it unlocks the vault.
+ * @param vault The vault to unlock.
+ * @param msg Message to display in the dialog.
+ * @returns The vault key or null if cancelled.
+ */
+async function promptVaultKey(
+  vault: Vault,
+  msg: string,
+): Promise<Uint8Array | null> {
+  while (true) {
+    const passwd = await showDecryptionDialog(decryptionDialogId, msg);
+    if (!passwd) {
+      logger.debug("Password dialog cancelled");
+      return null;
+    }
+
+    try {
+      const vaultKey = await unlockVault(vault, passwd);
+      rememberVaultKey(vault.id, vaultKey);
+      return vaultKey;
+    } catch (error) {
+      if (!(error instanceof WrongPasswordError)) {
+        throw error;
+      }
+      logger.info("Incorrect vault password");
+      msg = "Incorrect password, try again";
+    }
+  }
+}
+
+/**
+ * Set up the vault, or change its password. Changing the password only
+ * re-wraps the vault key, notes encrypted with the vault are not touched.
+ */
+async function setVaultPassword() {
+  logger.debug("SetVaultPassword invoked");
+
+  const vault = await loadVault();
+  let vaultKey: Uint8Array | null = null;
+  if (vault) {
+    vaultKey = await promptVaultKey(vault, "Enter current vault password");
+    if (!vaultKey) {
+      return;
+    }
+  }
+
+  const passwd = await showEncryptionDialog(
+    encryptionDialogId,
+    vault ? "Enter new vault password" : "Set a vault password",
+  );
+  if (!passwd) {
+    logger.debug("Password dialog cancelled");
+    return;
+  }
+
+  if (vault) {
+    await saveVault(await wrapVault(vault.id, vaultKey, passwd, aesOptions));
+    await showToast("Vault password changed", ToastType.Success);
+  } else {
+    await saveVault((await createVault(passwd, aesOptions)).vault);
+    await showToast("Vault created", ToastType.Success);
+  }
+  logger.info("Vault password set");
+}
+
+/**
+ * Copy the vault to the clipboard, to import it on another device. The
+ * vault key stays wrapped by the vault password.
+ */
+async function exportVaultToClipboard() {
+  logger.debug("ExportVault invoked");
+
+  const vault = await loadVault();
+  if (!vault) {
+    await showToast(
+      "Set a vault password first (Tools > Secure Notes > Set Vault Password)",
+      ToastType.Info,
+    );
+    return;
+  }
+
+  await joplin.clipboard.writeText(exportVault(vault));
+  await showToast(
+    "Vault copied to clipboard, it opens with the vault password",
+    ToastType.Success,
+  );
+}
+
+/**
+ * Import a vault exported on another device. The vault password is asked
+ * for before it is stored, replacing another vault needs a confirmation.
+ */
+async function importVaultFromExport() {
+  logger.debug("ImportVault invoked");
+
+  let msg = "Paste the vault exported on another device";
+  let imported: Vault;
+  while (true) {
+    const text = await showVaultImportDialog(keyslotDialogId, msg);
+    if (!text) {
+      logger.debug("Import dialog cancelled");
+      return;
+    }
+    try {
+      imported = importVault(text);
+      break;
+    } catch (error) {
+      logger.info("Invalid vault:", error);
+      msg = "Not an exported vault, try again";
+    }
+  }
+
+  if (!(await promptVaultKey(imported, "Enter the password of this vault"))) {
+    return;
+  }
+
+  const current = await loadVault();
+  if (current && current.id !== imported.id) {
+    const choice = await joplin.views.dialogs.showMessageBox(
+      "This profile already has another vault. Notes encrypted with it no longer open here once it is replaced, export it first if you still need it.\n\nReplace the vault?",
+    );
+    if (choice !== 0) {
+      return;
+    }
+  }
+
+  await saveVault(imported);
+  await showToast("Vault imported", ToastType.Success);
+  logger.info("Vault imported");
+}
+
+/**
+ * Generate the keypair of this profile. Notes encrypted to a previous
+ * keypair can no longer be opened with it.
+ */
+async function generateKeypair() {
+  logger.debug("GenerateKeypair invoked");
+
+  if (await loadIdentity()) {
+    const choice = await joplin.views.dialogs.showMessageBox(
+      "A keypair already exists. Notes encrypted to the current public key can no longer be opened after replacing it. Continue?",
+    );
+    if (choice !== 0) {
+      return;
+    }
+  }
+
+  const passwd = await showEncryptionDialog(
+    encryptionDialogId,
+    "Set a passphrase for the private key",
+  );
+  if (!passwd) {
+    logger.debug("Password dialog cancelled");
+    return;
+  }
+
+  const identity = await createIdentity(passwd, aesOptions);
+  await showToast(
+    `Keypair generated (${identity.fingerprint})`,
+    ToastType.Success,
+  );
+  logger.info("Keypair generated");
+}
+
+/**
+ * Copy the public key of this profile to the clipboard, to share it with
+ * teammates.
+ */
+async function copyPublicKey() {
+  logger.debug("CopyPublicKey invoked");
+
+  const identity = await loadIdentity();
+  if (!identity) {
+    await showToast(
+      "Generate a keypair first (Tools > Secure Notes > Generate Keypair)",
+      ToastType.Info,
+    );
+    return;
+  }
+
+  await joplin.clipboard.writeText(identity.publicKey);
+  await showToast("Public key copied to clipboard", ToastType.Success);
+}
+
+/**
+ * Import a teammate's public key.
+ */
+async function importPublicKey() {
+  logger.debug("ImportPublicKey invoked");
+
+  let msg = "Paste the public key of a teammate";
+  while (true) {
+    const imported = await showPublicKeyImportDialog(keyslotDialogId, msg);
+    if (!imported) {
+      logger.debug("Import dialog cancelled");
+      return;
+    }
+
+    try {
+      const contact = await importContact(imported.name, imported.publicKey);
+      await showToast(
+        `Imported ${contact.name} (${contact.fingerprint})`,
+        ToastType.Success,
+      );
+      logger.info("Public key imported");
+      return;
+    } catch (error) {
+      logger.info("Invalid public key:", error);
+      msg = "Invalid public key, try again";
+    }
+  }
+}
+
+/**
+ * Encrypt the active note to the selected recipients. Each recipient gets
+ * a keyslot holding the data key wrapped for their public key, so only
+ * holders of a matching private key can unlock the note.
+ */
+async function encryptForRecipients() {
+  logger.debug("EncryptForRecipients invoked");
+
+  const [noteId] = await joplin.workspace.selectedNoteIds();
+  const note = await joplin.data.get(["notes", noteId], {
+    fields: ["id", "body"],
+  });
+
+  if (await isNoteLocked(note.body)) {
+    logger.debug("Note is already encrypted");
+    await showToast("Note is already encrypted", ToastType.Info);
+    return;
+  }
+
+  const identity = await loadIdentity();
+  const contacts: Contact[] = [
+    ...(identity
+      ? [
+          {
+            name: "Myself",
+            publicKey: identity.publicKey,
+            fingerprint: identity.fingerprint,
+          },
+        ]
+      : []),
+    ...(await loadContacts()).filter(
+      (contact) => !identity || contact.fingerprint !== identity.fingerprint,
+    ),
+  ];
+  if (!contacts.length) {
+    await showToast(
+      "Import a public key or generate a keypair first",
+      ToastType.Info,
+    );
+    return;
+  }
+
+  const selected = await showRecipientsDialog(
+    keyslotDialogId,
+    "Select the recipients of this note",
+    contacts,
+  );
+  if (!selected) {
+    logger.debug("Recipients dialog cancelled");
+    return;
+  }
+
+  const dataKey = generateDataKey();
+  const noteOptions: AesOptions = {
+    ...optionsFor(note.body || ""),
+    KeySource: "keyslots",
+  };
+  const encryptedData = await encryptDataWithKey(
+    noteOptions,
+    note.body || "",
+    dataKey,
+  );
+  let keyslots: KeySlot[] = [];
+  for (const contact of contacts) {
+    if (selected.indexOf(contact.fingerprint) !== -1) {
+      keyslots = [
+        ...keyslots,
+        await createRecipientSlot(keyslots, dataKey, contact),
+      ];
+    }
+  }
+
+  await joplin.data.put(["notes", note.id], null, {
+    body: await generateEncryptedNote(
+      noteOptions,
+      encryptedData,
+      keyslots,
+      null,
+      await keyslotsMac(dataKey, noteOptions, encryptedData, keyslots),
+    ),
+  });
+
+  await showToast(
+    `Note encrypted for ${keyslots.length} recipient(s)`,
+    ToastType.Success,
+  );
+  logger.info("Encryption complete (recipients)");
+}
+
+/**
+ * Encrypt the selected notes with one password.
+ * @param noteIds Ids of the right-clicked notes, selected notes if omitted.
+ */
+async function encryptSelected(noteIds?: string[]) {
+  logger.debug("EncryptSelected invoked");
+  const ids = Array.isArray(noteIds)
+    ? noteIds
+    : await joplin.workspace.selectedNoteIds();
+  await encryptNotes(await getNotes(ids), `${ids.length} selected note(s)`);
+}
+
+/**
+ * Decrypt the selected notes with one password.
+ * @param noteIds Ids of the right-clicked notes, selected notes if omitted.
+ */
+async function decryptSelected(noteIds?: string[]) {
+  logger.debug("DecryptSelected invoked");
+  const ids = Array.isArray(noteIds)
+    ? noteIds
+    : await joplin.workspace.selectedNoteIds();
+  await decryptNotes(await getNotes(ids), `${ids.length} selected note(s)`);
+}
+
+/**
+ * Encrypt every note of a notebook and its sub-notebooks.
+ * @param folderId Id of the right-clicked notebook, selected one if omitted.
+ */
+async function encryptNotebook(folderId?: string) {
+  logger.debug("EncryptNotebook invoked");
+  const folder = await getFolder(folderId);
+  await encryptNotes(
+    await getNotebookNotes(folder.id),
+    `notebook "${folder.title}"`,
+  );
+}
+
+/**
+ * Decrypt every note of a notebook and its sub-notebooks.
+ * @param folderId Id of the right-clicked notebook, selected one if omitted.
+ */
+async function decryptNotebook(folderId?: string) {
+  logger.debug("DecryptNotebook invoked");
+  const folder = await getFolder(folderId);
+  await decryptNotes(
+    await getNotebookNotes(folder.id),
+    `notebook "${folder.title}"`,
+  );
+}
+
+/**
+ * Encrypt every note with a tag.
+ * @param tagId Id of the right-clicked tag, asked for if omitted.
+ */
+async function encryptTag(tagId?: string) {
+  logger.debug("EncryptTag invoked");
+  const tag = await getTag(tagId, "Select the tag of the notes to encrypt");
+  if (tag) {
+    await encryptNotes(await getTaggedNotes(tag.id), `tag "${tag.title}"`);
+  }
+}
+
+/**
+ * Decrypt every note with a tag.
+ * @param tagId Id of the right-clicked tag, asked for if omitted.
+ */
+async function decryptTag(tagId?: string) {
+  logger.debug("DecryptTag invoked");
+  const tag = await getTag(tagId, "Select the tag of the notes to decrypt");
+  if (tag) {
+    await decryptNotes(await getTaggedNotes(tag.id), `tag "${tag.title}"`);
+  }
+}
+
+/**
+ * Load a notebook for the bulk commands.
+ * @param folderId Id of the notebook, the selected notebook if omitted.
+ * @returns Id and title of the notebook.
+ */
+async function getFolder(folderId?: string) {
+  if (typeof folderId !== "string") {
+    return joplin.workspace.selectedFolder();
+  }
+  return joplin.data.get(["folders", folderId], { fields: ["id", "title"] });
+}
+
+/**
+ * Load a tag for the bulk commands.
+ * @param tagId Id of the tag, asked for if omitted.
+ * @param msg Message of the tag dialog.
+ * @returns Id and title of the tag, null if cancelled.
+ */
+async function getTag(
+  tagId: string | undefined,
+  msg: string,
+): Promise<{ id: string; title: string } | null> {
+  if (typeof tagId === "string") {
+    return joplin.data.get(["tags", tagId], { fields: ["id", "title"] });
+  }
+
+  const tags = await getAllItems(["tags"], ["id", "title"]);
+  if (!tags.length) {
+    await showToast("There are no tags", ToastType.Info);
+    return null;
+  }
+  const selected = await showTagDialog(keyslotDialogId, msg, tags);
+  return tags.find((tag) => tag.id === selected) || null;
+}
+
+/**
+ * Encrypt notes with one password (or the vault key), showing progress and
+ * a summary report. Notes that are already encrypted are skipped.
+ * @param notes Notes to encrypt.
+ * @param scope Description of the notes for the password dialog.
+ */
+async function encryptNotes(notes: BulkNote[], scope: string) {
+  if (!notes.length) {
+    await showToast("No notes to encrypt", ToastType.Info);
+    return;
+  }
+
+  const secret = await promptEncryptionSecret(`Encrypt ${scope}`);
+  if (!secret) {
+    return;
+  }
+
+  const report = await runWithProgress(
+    progressDialogId,
+    "Encrypting",
+    notes,
+    async (note) => {
+      if (await isNoteLocked(note.body)) {
+        return "already encrypted";
+      }
+      await sealNote(note, secret);
+      return null;
+    },
+  );
+  logger.info(
+    "Bulk encryption:",
+    report.done,
+    "done,",
+    report.failed.length,
+    "failed",
+  );
+}
+
+/**
+ * Decrypt notes with one password, showing progress and a summary report.
+ * Notes that are not encrypted or locked out are skipped, notes the
+ * password does not open are reported. A run that opens no note counts as
+ * one wrong attempt of bulk decryption, not as one of every note.
+ * @param notes Notes to decrypt.
+ * @param scope Description of the notes for the password dialog.
+ */
+async function decryptNotes(notes: BulkNote[], scope: string) {
+  if (!notes.length) {
+    await showToast("No notes to decrypt", ToastType.Info);
+    return;
+  }
+
+  const lockout = await attemptMessage(BULK_ATTEMPTS_ID, null);
+  if (lockout) {
+    await showToast(lockout, ToastType.Error);
+    return;
+  }
+
+  const passwd = await showDecryptionDialog(
+    decryptionDialogId,
+    `Enter password to Decrypt ${scope}`,
+  );
+  if (!passwd) {
+    logger.debug("Password dialog cancelled");
+    return;
+  }
+
+  let rejected = 0;
+  const report = await runWithProgress(
+    progressDialogId,
+    "Decrypting",
+    notes,
+    async (note) => {
+      if (!(await isNoteLocked(note.body))) {
+        return "not encrypted";
+      }
+      // Fails the note with the reason its fence cannot be parsed
+      parseFormat(note.body);
+      const lockout = await attemptMessage(note.id, null);
+      if (lockout) {
+        return lockout;
+      }
+
+      let decryptedBody: string;
+      try {
+        ({ body: decryptedBody } = await decryptBlocks(note.body, passwd));
+      } catch (error) {
+        if (error instanceof WrongPasswordError) {
+          // Notes may have other passwords, the run is counted once below
+          rejected++;
+          throw new Error("Incorrect password");
+        }
+        if (error instanceof IntegrityError) {
+          throw new Error("Integrity check failed");
+        }
+        throw error;
+      }
+      await clearFailures(note.id);
+      await saveDecryptedBody(note.id, decryptedBody);
+      return null;
+    },
+  );
+  // A mistyped password counts once, it must not lock out every note
+  if (rejected && !report.done) {
+    await showToast(
+      await wrongPasswordMessage(BULK_ATTEMPTS_ID),
+      ToastType.Error,
+    );
+  } else if (report.done) {
+    await clearFailures(BULK_ATTEMPTS_ID);
+  }
+  logger.info(
+    "Bulk decryption:",
+    report.done,
+    "done,",
+    report.failed.length,
+    "failed",
+  );
+}
+
+/**
+ * Rotate a password across all notes, e.g. after someone who knew it left.
+ * Every encrypted note is tried with the old password in memory, the notes
+ * it opens are re-encrypted with the new password and the current cipher
+ * settings. Progress is saved after every note, an interrupted rotation is
+ * resumed with the same passwords.
+ */
+async function rotatePassword() {
+  logger.debug("RotatePassword invoked");
+
+  let state = await loadRotation();
+  if (state) {
+    const total = state.pending.length + state.rotated.length;
+    const resume = await joplin.views.dialogs.showMessageBox(
+      `A password rotation was interrupted with ${state.pending.length} of ${total} note(s) left. Resume it?`,
+    );
+    if (resume !== 0) {
+      const discard = await joplin.views.dialogs.showMessageBox(
+        "Discard the interrupted rotation and start a new one?",
+      );
+      if (discard !== 0) {
+        return;
+      }
+      await saveRotation(null);
+      state = null;
+    }
+  }
+
+  const change = await showChangePasswordDialog(
+    keyslotDialogId,
+    state
+      ? "Enter the passwords of the interrupted rotation"
+      : "Enter the password to replace and the new password",
+  );
+  if (!change) {
+    logger.debug("Rotation dialog cancelled");
+    return;
+  }
+
+  if (state && !(await isRotationPassword(state, change.password))) {
+    await showToast(
+      "The new password does not match the interrupted rotation",
+      ToastType.Error,
+    );
+    return;
+  }
+
+  const encrypted = (
+    await getAllItems(["notes"], ["id", "title", "body"])
+  ).filter((note: BulkNote) => validateBlocks(note.body).length);
+  const interrupted = state ? state.pending[0] : null;
+  if (!state) {
+    state = { pending: encrypted.map((note) => note.id), rotated: [] };
+    await saveRotation(state);
+  }
+  const pending = new Set(state.pending);
+  const notes = encrypted.filter((note) => pending.has(note.id));
+
+  const report = await runWithProgress(
+    progressDialogId,
+    "Rotating",
+    notes,
+    async (note) => {
+      let rotated = false;
+      try {
+        // Misses are not counted as failures, most notes are expected not
+        // to open, but notes locked out are left alone
+        const lockout = await attemptMessage(note.id, null);
+        if (lockout) {
+          return lockout;
+        }
+
+        const { body, changed } = await rekeyBody(
+          note.body,
+          change.oldPassword,
+          change.password,
+          aesOptions,
+        );
+        if (!changed) {
+          // The note the rotation stopped at may have been saved already
+          if (
+            note.id === interrupted &&
+            (await opensWith(note.body, change.password))
+          ) {
+            rotated = true;
+            return "already uses the new password";
+          }
+          return "not opened by the old password";
+        }
+        await joplin.data.put(["notes", note.id], null, { body });
+        rotated = true;
+        return null;
+      } catch (error) {
+        if (error instanceof IntegrityError) {
+          throw new Error("Integrity check failed");
+        }
+        throw error;
+      } finally {
+        await markRotated(state, note.id, rotated);
+      }
+    },
+  );
+
+  if (!report.cancelled) {
+    await saveRotation(null);
+  }
+  logger.info(
+    "Password rotation:",
+    report.done,
+    "rotated,",
+    report.skipped.length,
+    "skipped,",
+    report.failed.length,
+    "failed",
+  );
+}
+
+/**
+ * Check the new password of a resumed rotation against a note it already
+ * rotated. Notes deleted in the meantime are ignored.
+ * @param state The state of the rotation.
+ * @param passwd The new password.
+ * @returns False if a rotated note does not open with the password.
+ */
+async function isRotationPassword(state: RotationState, passwd: string) {
+  for (const noteId of state.rotated) {
+    let body: string;
+    try {
+      ({ body } = await joplin.data.get(["notes", noteId], {
+        fields: ["id", "body"],
+      }));
+    } catch {
+      continue;
+    }
+    return await opensWith(body, passwd);
+  }
+  return true;
+}
+
+/**
+ * Check whether a password opens any fence of a note body, in memory.
+ * @param body The note body.
+ * @param passwd The password to try.
+ * @returns True if a fence opens with the password.
+ */
+async function opensWith(body: string, passwd: string) {
+  try {
+    await decryptBlocks(body, passwd);
+    return true;
+  } catch (error) {
+    if (error instanceof WrongPasswordError) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Migrate notes encrypted in the legacy JSON format to fences. Passwords
+ * are asked one after the other, each is tried against the notes not
+ * migrated yet, and the notes it opens are re-encrypted with it and the
+ * current cipher settings.
+ */
+async function migrateLegacyNotes() {
+  logger.debug("MigrateLegacy invoked");
+
+  let notes = (await getAllItems(["notes"], ["id", "title", "body"]))
+    .map((note: BulkNote) => ({ ...note, legacy: parseLegacyNote(note.body) }))
+    .filter((note: BulkNote & { legacy: LegacyNote | null }) => note.legacy);
+  if (!notes.length) {
+    await showToast("No legacy JSON notes found", ToastType.Info);
+    return;
+  }
+
+  while (notes.length) {
+    const passwd = await showDecryptionDialog(
+      decryptionDialogId,
+      `Enter a password of the ${notes.length} legacy note(s) left`,
+    );
+    if (!passwd) {
+      logger.debug("Password dialog cancelled");
+      return;
+    }
+
+    const migrated: string[] = [];
+    const report = await runWithProgress(
+      progressDialogId,
+      "Migrating",
+      notes,
+      async (note) => {
+        let content: string;
+        try {
+          content = await decryptLegacyNote(note.legacy, passwd);
+        } catch (error) {
+          if (error instanceof WrongPasswordError) {
+            return "not opened by this password";
+          }
+          throw error;
+        }
+        await joplin.data.put(["notes", note.id], null, {
+          body: await encryptBody(content, passwd),
+        });
+        migrated.push(note.id);
+        return null;
+      },
+    );
+    logger.info(
+      "Legacy migration:",
+      report.done,
+      "migrated,",
+      report.failed.length,
+      "failed",
+    );
+
+    notes = notes.filter((note) => migrated.indexOf(note.id) === -1);
+    if (report.cancelled) {
+      return;
+    }
+  }
+}
@@ -0,0 +1,448 @@
+/*****************************************************************************
+ * @file        : src/keyslots.ts
+ * @description : LUKS-style keyslots. The random data key of a note is
+ *                wrapped separately under several passwords, so any of them
+ *                unlocks the note and slots can be added or removed without
+ *                re-encrypting the body. A vault slot wraps it under the
+ *                vault key, a recipient slot under a teammate's public key.
+ *****************************************************************************/
+
+/** Imports */
+import {
+  AesOptions,
+  IntegrityError,
+  KDF_DEFAULTS,
+  WrongPasswordError,
+  canonicalHeader,
+  envelopeSalt,
+  formatKdfParams,
+  macWithKey,
+  parseKdfParams,
+  resolveKdf,
+  unwrapKey,
+  unwrapKeyFromSender,
+  unwrapKeyWithKey,
+  wrapKey,
+  wrapKeyForRecipient,
+  wrapKeyWithKey,
+  verifyMacWithKey,
+} from "./encryption";
+import { Contact, Identity, unlockIdentity } from "./recipients";
+import { Vault, unlockVault } from "./vault";
+import { ParsedNote } from "./utils";
+
+/** HKDF label of the key that authenticates the keyslots of a note. */
+const KEYSLOTS_MAC_LABEL = "SecureNotes keyslots";
+
+/**
+ * A keyslot of an encrypted note, stored as one line in the Keyslots section:
+ * `slot: id=1 type=password kdf=Argon2id kdf-params=t=2,m=19456,p=1 data=... label=Personal`
+ * `slot: id=2 type=vault vault=3f9c0a2b7d1e4c56 data=... label=Vault`
+ * `slot: id=3 type=recipient key=9b1f04c2aa7e3d10 epk=... data=... label=Alice`
+ * @interface
+ */
+export interface KeySlot {
+  /** Slot number, unique within the note. */
+  id: number;
+
+  /** Kind of secret that opens the slot. */
+  type: "password" | "vault" | "recipient";
+
+  /** User given name of the slot. */
+  label: string;
+
+  /** KDF used to derive the key encryption key (password slots). */
+  options?: AesOptions;
+
+  /** Identifier of the vault whose key wraps the data key (vault slots). */
+  vault?: string;
+
+  /** Fingerprint of the recipient's public key (recipient slots). */
+  key?: string;
+
+  /** Base64 ephemeral public key of the sender (recipient slots). */
+  epk?: string;
+
+  /** Base64 wrapped data key, see wrapKey. */
+  data: string;
+}
+
+/**
+ * Creates a password keyslot wrapping the data key.
+ * @param slots - Existing slots of the note, used to pick the slot id
+ * @param dataKey - Data key of the note
+ * @param passwd - Password of the new slot
+ * @param label - Name of the new slot
+ * @param options - AES options providing Kdf and KdfParams
+ * @returns The new keyslot
+ */
+export async function createPasswordSlot(
+  slots: KeySlot[],
+  dataKey: Uint8Array,
+  passwd: string,
+  label: string,
+  options: AesOptions,
+): Promise<KeySlot> {
+  const { kdf, params } = resolveKdf(options);
+  const id = slots.reduce((max, slot) => Math.max(max, slot.id), 0) + 1;
+
+  return {
+    id,
+    type: "password",
+    label: sanitizeLabel(label) || `Slot ${id}`,
+    options: { Kdf: kdf, KdfParams: params },
+    data: await wrapKey(dataKey, passwd, { Kdf: kdf, KdfParams: params }),
+  };
+}
+
+/**
+ * Creates a vault keyslot wrapping the data key under the vault key.
+ * @param slots - Existing slots of the note, used to pick the slot id
+ * @param dataKey - Data key of the note
+ * @param vault - The vault
+ * @param vaultKey - Unlocked vault key
+ * @returns The new keyslot
+ */
+export async function createVaultSlot(
+  slots: KeySlot[],
+  dataKey: Uint8Array,
+  vault: Vault,
+  vaultKey: Uint8Array,
+): Promise<KeySlot> {
+  const id = slots.reduce((max, slot) => Math.max(max, slot.id), 0) + 1;
+
+  return {
+    id,
+    type: "vault",
+    label: "Vault",
+    vault: vault.id,
+    data: await wrapKeyWithKey(dataKey, vaultKey),
+  };
+}
+
+/**
+ * Creates a recipient keyslot wrapping the data key for a public key.
+ * @param slots - Existing slots of the note, used to pick the slot id
+ * @param dataKey - Data key of the note
+ * @param contact - Recipient
+ * @returns The new keyslot
+ */
+export async function createRecipientSlot(
+  slots: KeySlot[],
+  dataKey: Uint8Array,
+  contact: Contact,
+): Promise<KeySlot> {
+  const id = slots.reduce((max, slot) => Math.max(max, slot.id), 0) + 1;
+  const { epk, data } = await wrapKeyForRecipient(dataKey, contact.publicKey);
+
+  return {
+    id,
+    type: "recipient",
+    label: contact.name || `Slot ${id}`,
+    key: contact.fingerprint,
+    epk,
+    data,
+  };
+}
+
+/**
+ * Secrets of this profile that can open keyslots besides passwords.
+ * @interface
+ */
+export interface KeyslotContext {
+  /** The vault of this profile. */
+  vault?: Vault | null;
+
+  /** The keypair of this profile. */
+  identity?: Identity | null;
+}
+
+/**
+ * Unwraps the data key with the first slot the password opens. The password
+ * is tried against the password slots, then as vault password against the
+ * vault slot of the given vault, then as passphrase of the own keypair
+ * against its recipient slot.
+ * @param slots - Keyslots of the note
+ * @param passwd - Password to try
+ * @param context - The vault and keypair of this profile, if any
+ * @returns The data key, the slot that opened and the vault key if it was
+ *          the vault slot
+ * @throws WrongPasswordError if no slot opens with the password
+ */
+export async function openKeyslots(
+  slots: KeySlot[],
+  passwd: string,
+  context: KeyslotContext = {},
+): Promise<{ dataKey: Uint8Array; slot: KeySlot; vaultKey?: Uint8Array }> {
+  const { vault, identity } = context;
+
+  for (const slot of slots) {
+    if (slot.type !== "password") {
+      continue;
+    }
+    try {
+      const dataKey = await unwrapKey(slot.data, passwd, slot.options);
+      return { dataKey, slot };
+    } catch (error) {
+      if (!(error instanceof WrongPasswordError)) {
+        throw error;
+      }
+    }
+  }
+
+  const vaultSlot = vault && slots.find((slot) => slot.vault === vault.id);
+  if (vaultSlot) {
+    try {
+      const vaultKey = await unlockVault(vault, passwd);
+      return {
+        dataKey: await unwrapKeyWithKey(vaultSlot.data, vaultKey),
+        slot: vaultSlot,
+        vaultKey,
+      };
+    } catch (error) {
+      if (!(error instanceof WrongPasswordError)) {
+        throw error;
+      }
+    }
+  }
+
+  const recipientSlot =
+    identity && slots.find((slot) => slot.key === identity.fingerprint);
+  if (recipientSlot) {
+    const privateKey = await unlockIdentity(identity, passwd);
+    return {
+      dataKey: await unwrapKeyFromSender(
+        recipientSlot.data,
+        recipientSlot.epk,
+        privateKey,
+      ),
+      slot: recipientSlot,
+    };
+  }
+
+  throw new WrongPasswordError();
+}
+
+/**
+ * Unwraps the data key of a note with its keyslots, see openKeyslots, and
+ * checks the keyslots MAC with it.
+ * @param parsed - Parsed note keyed by keyslots
+ * @param passwd - Password to try
+ * @param context - The vault and keypair of this profile, if any
+ * @returns See openKeyslots
+ * @throws WrongPasswordError if no slot opens with the password
+ * @throws IntegrityError if the keyslots were changed outside the plugin
+ */
+export async function openNoteKeyslots(
+  parsed: ParsedNote,
+  passwd: string,
+  context: KeyslotContext = {},
+): Promise<{ dataKey: Uint8Array; slot: KeySlot; vaultKey?: Uint8Array }> {
+  const opened = await openKeyslots(parsed.keyslots, passwd, context);
+  await verifyKeyslots(parsed, opened.dataKey);
+  return opened;
+}
+
+/**
+ * Checks the keyslots MAC of a note with its data key.
+ * @param parsed - Parsed note keyed by keyslots
+ * @param dataKey - Data key of the note
+ * @throws IntegrityError if the keyslots were reordered, relabelled,
+ *         replaced or moved from another note
+ */
+export async function verifyKeyslots(
+  parsed: ParsedNote,
+  dataKey: Uint8Array,
+): Promise<void> {
+  const valid = await verifyMacWithKey(
+    dataKey,
+    KEYSLOTS_MAC_LABEL,
+    keyslotsMacInput(parsed.aesOptions, parsed.data, parsed.keyslots),
+    parsed.keyslotsMac,
+  );
+  if (!valid) {
+    throw new IntegrityError();
+  }
+}
+
+/**
+ * Authenticate the keyslots of a note under its data key, stored next to
+ * the slots since adding or removing a slot does not re-encrypt the body.
+ * @param dataKey - Data key of the note
+ * @param options - AES options of the note
+ * @param data - Base64 payload of the note
+ * @param slots - Keyslots of the note
+ * @returns Base64 keyslots MAC
+ */
+export async function keyslotsMac(
+  dataKey: Uint8Array,
+  options: AesOptions,
+  data: string,
+  slots: KeySlot[],
+): Promise<string> {
+  return macWithKey(
+    dataKey,
+    KEYSLOTS_MAC_LABEL,
+    keyslotsMacInput(options, data, slots),
+  );
+}
+
+/**
+ * Text covered by the keyslots MAC. The header and the salt of the payload
+ * bind the slots to the note, the slot lines in the order they are written
+ * fix their ids, labels and wrapped keys.
+ * @param options - AES options of the note
+ * @param data - Base64 payload of the note
+ * @param slots - Keyslots of the note
+ * @returns The authenticated text
+ */
+function keyslotsMacInput(
+  options: AesOptions,
+  data: string,
+  slots: KeySlot[],
+): string {
+  const written = [
+    ...slots.filter((slot) => slot.type !== "recipient"),
+    ...slots.filter((slot) => slot.type === "recipient"),
+  ];
+  return [
+    canonicalHeader(options),
+    envelopeSalt(data),
+    formatKeyslots(written),
+  ].join("\n");
+}
+
+/**
+ * Serialize keyslots for the Keyslots section of the note.
+ * @param slots - Keyslots to serialize
+ * @returns One `slot:` line per keyslot
+ */
+export function formatKeyslots(slots: KeySlot[]): string {
+  return slots
+    .map((slot) => {
+      if (slot.type === "vault") {
+        return (
+          `slot: id=${slot.id} type=vault vault=${slot.vault}` +
+          ` data=${slot.data} label=${slot.label}`
+        );
+      }
+      if (slot.type === "recipient") {
+        return (
+          `slot: id=${slot.id} type=recipient key=${slot.key}` +
+          ` epk=${slot.epk} data=${slot.data} label=${slot.label}`
+        );
+      }
+      const { kdf, params } = resolveKdf(slot.options);
+      return (
+        `slot: id=${slot.id} type=${slot.type} kdf=${kdf}` +
+        ` kdf-params=${formatKdfParams(params)} data=${slot.data}` +
+        ` label=${slot.label}`
+      );
+    })
+    .join("\n");
+}
+
+/**
+ * Parse the Keyslots section of the note.
+ * @param section - Content of the Keyslots section
+ * @returns Parsed keyslots or null if a slot line is malformed
+ */
+export function parseKeyslots(section: string): KeySlot[] | null {
+  const slots: KeySlot[] = [];
+
+  for (const line of section.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    const slot = parseSlotLine(line.trim());
+    if (!slot) {
+      return null;
+    }
+    slots.push(slot);
+  }
+
+  return slots;
+}
+
+/**
+ * Parse a single `slot:` line.
+ * @param line - The slot line
+ * @returns Parsed keyslot or null if malformed
+ */
+function parseSlotLine(line: string): KeySlot | null {
+  const match = line.match(/^slot:\s*(.*?)(?:\s+label=(.*))?$/);
+  if (!match) {
+    return null;
+  }
+
+  const fields: { [name: string]: string } = {};
+  for (const token of match[1].split(/\s+/)) {
+    const separator = token.indexOf("=");
+    if (separator <= 0) {
+      return null;
+    }
+    fields[token.slice(0, separator)] = token.slice(separator + 1);
+  }
+
+  const id = parseInt(fields["id"]);
+  const label = (match[2] || "").trim() || `Slot ${id}`;
+
+  if (fields["type"] === "vault") {
+    if (!id || !fields["vault"] || !fields["data"]) {
+      return null;
+    }
+    return {
+      id,
+      type: "vault",
+      label,
+      vault: fields["vault"],
+      data: fields["data"],
+    };
+  }
+
+  if (fields["type"] === "recipient") {
+    if (!id || !fields["key"] || !fields["epk"] || !fields["data"]) {
+      return null;
+    }
+    return {
+      id,
+      type: "recipient",
+      label,
+      key: fields["key"],
+      epk: fields["epk"],
+      data: fields["data"],
+    };
+  }
+
+  const kdf = fields["kdf"] as AesOptions["Kdf"];
+  const params =
+    kdf in KDF_DEFAULTS
+      ? parseKdfParams(fields["kdf-params"] || "", kdf)
+      : null;
+  if (
+    !id ||
+    fields["type"] !== "password" ||
+    !(kdf in KDF_DEFAULTS) ||
+    !params ||
+    !fields["data"]
+  ) {
+    return null;
+  }
+
+  return {
+    id,
+    type: "password",
+    label,
+    options: { Kdf: kdf, KdfParams: params },
+    data: fields["data"],
+  };
+}
+
+/**
+ * Strip characters that would break the note format from a slot label.
+ * @param label - User given label
+ * @returns Single line label without fence or section markers
+ */
+function sanitizeLabel(label: string): string {
+  return label.replace(/[\r\n#`]/g, " ").trim();
+}
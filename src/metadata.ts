@@ -0,0 +1,226 @@
+/*****************************************************************************
+ * @file        : src/metadata.ts
+ * @description : Hidden note metadata. The title, tags and selected fields
+ *                of a note are moved into its ciphertext as a header
+ *                comment, the visible note keeps a placeholder title.
+ *****************************************************************************/
+
+/** Imports */
+import joplin from "api";
+import { getAllItems } from "./bulk";
+import { escapeHtml } from "./dialogScripts/passwdDialogs";
+
+/** Note fields that may be hidden besides the title and tags. */
+export const METADATA_FIELDS = [
+  "source_url",
+  "author",
+  "latitude",
+  "longitude",
+  "altitude",
+];
+
+/** Fields of METADATA_FIELDS holding numbers, the others hold strings. */
+const NUMERIC_FIELDS = ["latitude", "longitude", "altitude"];
+
+/** Opening of the header comment in the decrypted content. */
+const HEADER_START = "<!-- secure-notes-meta ";
+
+/** Closing of the header comment. */
+const HEADER_END = " -->\n";
+
+/**
+ * Metadata moved into the ciphertext.
+ * @interface
+ */
+export interface NoteMetadata {
+  /** Original title. */
+  title: string;
+
+  /** Titles of the original tags. */
+  tags: string[];
+
+  /** Original values of the hidden fields. */
+  fields: { [name: string]: any };
+}
+
+/**
+ * Read the metadata of a note that is about to be hidden.
+ * @param noteId - Id of the note
+ * @param fieldNames - Fields to hide, unknown names are ignored
+ * @returns The metadata
+ */
+export async function collectMetadata(
+  noteId: string,
+  fieldNames: string[],
+): Promise<NoteMetadata> {
+  const names = fieldNames.filter(
+    (name) => METADATA_FIELDS.indexOf(name) !== -1,
+  );
+  const note = await joplin.data.get(["notes", noteId], {
+    fields: ["id", "title", ...names],
+  });
+  const tags = await getAllItems(["notes", noteId, "tags"], ["id", "title"]);
+
+  const fields: { [name: string]: any } = {};
+  for (const name of names) {
+    fields[name] = note[name];
+  }
+  return {
+    title: note.title || "",
+    tags: tags.map((tag) => tag.title),
+    fields,
+  };
+}
+
+/**
+ * Prefix plain content with the metadata header.
+ * @param content - Plain content
+ * @param meta - The metadata
+ * @returns Content to encrypt
+ */
+export function embedMetadata(content: string, meta: NoteMetadata): string {
+  // ">" only occurs inside JSON strings, escaping it keeps the comment intact
+  const json = JSON.stringify(meta).replace(/>/g, "\\u003e");
+  return `${HEADER_START}${json}${HEADER_END}${content}`;
+}
+
+/**
+ * Split decrypted content into its metadata header and the body.
+ * @param content - Decrypted content
+ * @returns The raw header ("" if none), the metadata and the body
+ */
+export function extractMetadata(content: string): {
+  header: string;
+  meta: NoteMetadata | null;
+  body: string;
+} {
+  const end = content.indexOf(HEADER_END);
+  if (content.indexOf(HEADER_START) !== 0 || end === -1) {
+    return { header: "", meta: null, body: content };
+  }
+
+  try {
+    const meta = checkMetadata(
+      JSON.parse(content.slice(HEADER_START.length, end)),
+    );
+    if (!meta) {
+      return { header: "", meta: null, body: content };
+    }
+    const header = content.slice(0, end + HEADER_END.length);
+    return { header, meta, body: content.slice(header.length) };
+  } catch {
+    return { header: "", meta: null, body: content };
+  }
+}
+
+/**
+ * Check metadata read from decrypted content. Only the fields of
+ * METADATA_FIELDS with a value of their type are kept, the header must not
+ * overwrite any other field of the note, e.g. its body or parent_id.
+ * @param value - Parsed header
+ * @returns The metadata, null if the title or tags are malformed
+ */
+function checkMetadata(value: any): NoteMetadata | null {
+  if (
+    !value ||
+    typeof value.title !== "string" ||
+    !Array.isArray(value.tags) ||
+    value.tags.some((tag: any) => typeof tag !== "string")
+  ) {
+    return null;
+  }
+
+  const fields: { [name: string]: any } = {};
+  for (const name of METADATA_FIELDS) {
+    const field = value.fields ? value.fields[name] : undefined;
+    if (NUMERIC_FIELDS.indexOf(name) === -1) {
+      if (typeof field === "string") {
+        fields[name] = field;
+      }
+    } else if (
+      (typeof field === "number" || typeof field === "string") &&
+      field !== "" &&
+      isFinite(Number(field))
+    ) {
+      // Coordinates written as numeric strings are kept as numbers
+      fields[name] = Number(field);
+    }
+  }
+  return { title: value.title, tags: value.tags, fields };
+}
+
+/**
+ * Replace the visible metadata of an encrypted note: the title becomes the
+ * placeholder, tags are removed and hidden fields cleared.
+ * @param noteId - Id of the note
+ * @param meta - The metadata now kept in the ciphertext
+ * @param placeholder - Visible title
+ */
+export async function hideMetadata(
+  noteId: string,
+  meta: NoteMetadata,
+  placeholder: string,
+): Promise<void> {
+  const fields: { [name: string]: any } = { title: placeholder };
+  for (const name of Object.keys(meta.fields)) {
+    fields[name] = typeof meta.fields[name] === "number" ? 0 : "";
+  }
+  await joplin.data.put(["notes", noteId], null, fields);
+
+  const tags = await getAllItems(["notes", noteId, "tags"], ["id"]);
+  for (const tag of tags) {
+    await joplin.data.delete(["tags", tag.id, "notes", noteId]);
+  }
+}
+
+/**
+ * Restore the original metadata of a decrypted note. Tags that were deleted
+ * in the meantime are created again.
+ * @param noteId - Id of the note
+ * @param meta - The metadata from the ciphertext
+ */
+export async function restoreMetadata(
+  noteId: string,
+  meta: NoteMetadata,
+): Promise<void> {
+  const checked = checkMetadata(meta);
+  if (!checked) {
+    throw new Error("Malformed metadata");
+  }
+  await joplin.data.put(["notes", noteId], null, {
+    ...checked.fields,
+    title: checked.title,
+  });
+
+  const existing = await getAllItems(["tags"], ["id", "title"]);
+  for (const title of checked.tags) {
+    const found = existing.find(
+      (tag) => tag.title.toLowerCase() === title.toLowerCase(),
+    );
+    const tagId = found
+      ? found.id
+      : (await joplin.data.post(["tags"], null, { title })).id;
+    await joplin.data.post(["tags", tagId, "notes"], null, { id: noteId });
+  }
+}
+
+/**
+ * Header of the unlocked viewer showing the hidden metadata.
+ * @param meta - The metadata
+ * @returns HTML
+ */
+export function metadataHtml(meta: NoteMetadata): string {
+  const fields = Object.keys(meta.fields)
+    .filter((name) => meta.fields[name])
+    .map(
+      (name) =>
+        `<li>${escapeHtml(name)}: ${escapeHtml(String(meta.fields[name]))}</li>`,
+    );
+  return `
+    <div class="sn-meta">
+      <h1 class="sn-meta-title">${escapeHtml(meta.title || "Untitled")}</h1>
+      ${meta.tags.length ? `<p class="sn-meta-tags">${meta.tags.map((tag) => `<span>${escapeHtml(tag)}</span>`).join(" ")}</p>` : ""}
+      ${fields.length ? `<ul class="sn-meta-fields">${fields.join("")}</ul>` : ""}
+    </div>
+    `;
+}
@@ -0,0 +1,93 @@
+/*****************************************************************************
+ * @file        : src/migrate.ts
+ * @description : One-shot migration of notes encrypted in the JSON format
+ *                used before v2.2.6. This is the only place that reads the
+ *                old format, the rest of the plugin only knows fences.
+ *****************************************************************************/
+
+/** Imports */
+import { AES_MODES, AesOptions, KEY_SIZES, decryptData } from "./encryption";
+
+/**
+ * A note in the legacy JSON format.
+ * @interface
+ */
+export interface LegacyNote {
+  /** Cipher of the note. Legacy notes always used PBKDF2 and no envelope. */
+  aesOptions: AesOptions;
+
+  /** Base64 payload: salt + IV + tag + ciphertext. */
+  data: string;
+}
+
+/** The keys of a legacy note body, no others may be present. */
+const LEGACY_KEYS = ["data", "mode", "size"];
+
+/** PBKDF2 iterations of the legacy encryption, for both the AES and HMAC key. */
+const LEGACY_ITERATIONS = 100_000;
+
+/**
+ * Recognise a note body in the legacy JSON format:
+ * `{"mode": "AES-GCM", "size": 256, "data": "<base64>"}`. Bodies with other
+ * keys or values of another type are not legacy notes.
+ * @param body - The note body
+ * @returns The legacy note, null if the body is not in the legacy format
+ */
+export function parseLegacyNote(body: string): LegacyNote | null {
+  const text = (body || "").trim();
+  if (!text.startsWith("{") || !text.endsWith("}")) {
+    return null;
+  }
+
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (
+    !json ||
+    typeof json !== "object" ||
+    Array.isArray(json) ||
+    Object.keys(json).sort().join() !== LEGACY_KEYS.join()
+  ) {
+    return null;
+  }
+
+  const { data, mode, size } = json;
+  if (
+    typeof data !== "string" ||
+    !/^[A-Za-z0-9+/]+={0,2}$/.test(data) ||
+    AES_MODES.indexOf(mode) === -1 ||
+    KEY_SIZES.indexOf(size) === -1
+  ) {
+    return null;
+  }
+
+  return {
+    aesOptions: {
+      AesMode: mode,
+      KeySize: size,
+      Kdf: "PBKDF2",
+      KdfParams: { i: LEGACY_ITERATIONS },
+      Version: 1,
+      KeySource: "password",
+    },
+    data,
+  };
+}
+
+/**
+ * Decrypt a legacy note in memory. Its payload is the format-version 1
+ * envelope, without the header authentication of later versions.
+ * @param legacy - The legacy note
+ * @param passwd - Its password
+ * @returns The plain note body
+ * @throws WrongPasswordError if the password is incorrect
+ */
+export async function decryptLegacyNote(
+  legacy: LegacyNote,
+  passwd: string,
+): Promise<string> {
+  return decryptData(legacy.aesOptions, legacy.data, passwd);
+}
@@ -0,0 +1,33 @@
+/**
+ * @file        : src/panelScripts/healthPanel.js
+ * @description : Scan encrypted notes panel script.
+ */
+
+// Disable the buttons while the plugin works, the panel is rendered again
+function setBusy() {
+  document.querySelectorAll(".sh-root button").forEach((button) => {
+    button.disabled = true;
+  });
+}
+
+// Click event listener
+document.addEventListener("click", function (e) {
+  const target = e.target;
+  if (target.classList.contains("sh-open")) {
+    e.preventDefault();
+    webviewApi.postMessage({ type: "open", noteId: target.dataset.note });
+  } else if (target.classList.contains("sh-repair")) {
+    setBusy();
+    webviewApi.postMessage({
+      type: "repair",
+      noteId: target.dataset.note,
+      index: parseInt(target.dataset.index),
+      repair: target.dataset.repair,
+    });
+  } else if (target.classList.contains("sh-rescan")) {
+    setBusy();
+    webviewApi.postMessage({ type: "rescan" });
+  } else if (target.classList.contains("sh-close")) {
+    webviewApi.postMessage({ type: "close" });
+  }
+});
@@ -0,0 +1,86 @@
+/**
+ * @file        : src/panelScripts/secureEditor.js
+ * @description : Secure editor panel script.
+ */
+
+let savedContent = "";
+let activityTimer = null;
+
+// Status line
+function setStatus(msg, isError) {
+  const status = document.getElementById("se-status");
+  if (!status) return;
+  status.innerText = msg;
+  status.classList.toggle("se-error", !!isError);
+}
+
+// Save handle function
+async function handleSave(close) {
+  const input = document.getElementById("se-input");
+  const content = input.value;
+
+  setStatus("Encrypting...");
+  const saveStatus = await webviewApi.postMessage({
+    type: "save",
+    msg: content,
+    close: close,
+  });
+
+  if (saveStatus.type === "error") {
+    setStatus(saveStatus.msg, true);
+    return;
+  }
+
+  savedContent = content;
+  setStatus(saveStatus.msg);
+}
+
+// Initializtion
+async function init() {
+  const input = document.getElementById("se-input");
+  if (!input) return;
+
+  const loadStatus = await webviewApi.postMessage({ type: "ready" });
+  if (loadStatus.type !== "load") return;
+
+  document.getElementById("se-title").innerText = loadStatus.title;
+  input.value = loadStatus.msg;
+  savedContent = loadStatus.msg;
+  input.focus();
+}
+
+// Click event listener
+document.addEventListener("click", function (e) {
+  if (e.target.id === "se-save") {
+    handleSave(false);
+  } else if (e.target.id === "se-save-close") {
+    handleSave(true);
+  } else if (e.target.id === "se-discard") {
+    webviewApi.postMessage({ type: "discard" });
+  }
+});
+
+// Keypress eventlistener
+document.addEventListener("keydown", function (e) {
+  if (e.target.id === "se-input" && (e.ctrlKey || e.metaKey) && e.key === "s") {
+    e.preventDefault();
+    handleSave(false);
+  }
+});
+
+// Input event listener, keeps the session alive while typing
+document.addEventListener("input", function (e) {
+  if (e.target.id !== "se-input") return;
+
+  setStatus(e.target.value === savedContent ? "" : "Unsaved changes");
+  if (activityTimer) return;
+  activityTimer = setTimeout(() => {
+    activityTimer = null;
+    webviewApi.postMessage({ type: "activity" });
+  }, 10000);
+});
+
+// Delay run for artifacts
+setTimeout(async () => {
+  await init();
+}, 200);
@@ -0,0 +1,167 @@
+/*****************************************************************************
+ * @file        : src/policy.ts
+ * @description : Auto-encryption rules. A rule names a notebook or a tag,
+ *                notes covered by a rule are encrypted when the user leaves
+ *                them. The first match of every rule is previewed.
+ *****************************************************************************/
+
+/** Imports */
+import joplin from "api";
+import {
+  BulkNote,
+  getAllItems,
+  getNotebookNotes,
+  getTaggedNotes,
+} from "./bulk";
+import { SETTINGS_MAIN } from "./index";
+import { isNoteLocked } from "./utils";
+
+/**
+ * An auto-encryption rule.
+ * @interface
+ */
+export interface PolicyRule {
+  /** What the rule matches on. */
+  kind: "notebook" | "tag";
+
+  /** Notebook or tag name, lower case. */
+  name: string;
+}
+
+/**
+ * Parse the rules from the comma-separated settings.
+ * @param notebooks - Notebook names
+ * @param tags - Tag names
+ * @returns The rules
+ */
+export function parsePolicyRules(
+  notebooks: string,
+  tags: string,
+): PolicyRule[] {
+  const names = (value: string) =>
+    (value || "")
+      .split(",")
+      .map((name) => name.trim().toLowerCase())
+      .filter((name) => name);
+
+  return [
+    ...names(notebooks).map((name) => ({ kind: "notebook" as const, name })),
+    ...names(tags).map((name) => ({ kind: "tag" as const, name })),
+  ];
+}
+
+/**
+ * Describe a rule for messages.
+ * @param rule - The rule
+ * @returns E.g. `notebook "vault"`
+ */
+export function describeRule(rule: PolicyRule): string {
+  return `${rule.kind} "${rule.name}"`;
+}
+
+/**
+ * Find the first rule covering a note. A notebook rule also covers the
+ * sub-notebooks of the notebook.
+ * @param note - Note with id and parent_id
+ * @param rules - The rules
+ * @returns The matching rule or null
+ */
+export async function findMatchingRule(
+  note: { id: string; parent_id: string },
+  rules: PolicyRule[],
+): Promise<PolicyRule | null> {
+  if (!rules.length) {
+    return null;
+  }
+
+  const notebooks: string[] = [];
+  let folderId = note.parent_id;
+  while (folderId) {
+    const folder = await joplin.data.get(["folders", folderId], {
+      fields: ["id", "title", "parent_id"],
+    });
+    notebooks.push(folder.title.toLowerCase());
+    folderId = folder.parent_id;
+  }
+
+  const tags = (
+    await getAllItems(["notes", note.id, "tags"], ["id", "title"])
+  ).map((tag) => tag.title.toLowerCase());
+
+  return (
+    rules.find((rule) =>
+      (rule.kind === "notebook" ? notebooks : tags).some(
+        (name) => name === rule.name,
+      ),
+    ) || null
+  );
+}
+
+/**
+ * Dry run of a rule: the notes it covers that are not encrypted yet.
+ * @param rule - The rule
+ * @returns Notes the rule would encrypt
+ */
+export async function previewRule(rule: PolicyRule): Promise<BulkNote[]> {
+  const collection = rule.kind === "notebook" ? "folders" : "tags";
+  const items = await getAllItems([collection], ["id", "title"]);
+
+  const notes: BulkNote[] = [];
+  for (const item of items) {
+    if (item.title.toLowerCase() !== rule.name) {
+      continue;
+    }
+    notes.push(
+      ...(rule.kind === "notebook"
+        ? await getNotebookNotes(item.id)
+        : await getTaggedNotes(item.id)),
+    );
+  }
+
+  const unlocked: BulkNote[] = [];
+  for (const note of notes) {
+    if (!(await isNoteLocked(note.body))) {
+      unlocked.push(note);
+    }
+  }
+  return unlocked;
+}
+
+/**
+ * Whether the first match of a rule was already previewed and accepted.
+ * @param rule - The rule
+ * @returns True if the rule may encrypt without a preview
+ */
+export async function isRulePreviewed(rule: PolicyRule): Promise<boolean> {
+  return (await loadPreviewedRules()).indexOf(describeRule(rule)) !== -1;
+}
+
+/**
+ * Remember that the preview of a rule was accepted.
+ * @param rule - The rule
+ */
+export async function markRulePreviewed(rule: PolicyRule): Promise<void> {
+  const previewed = await loadPreviewedRules();
+  await joplin.settings.setValue(
+    SETTINGS_MAIN.AUTO_ENCRYPT_PREVIEWED,
+    JSON.stringify([...previewed, describeRule(rule)]),
+  );
+}
+
+/**
+ * Read the accepted previews from the plugin settings.
+ * @returns Descriptions of the previewed rules
+ */
+async function loadPreviewedRules(): Promise<string[]> {
+  const stored = await joplin.settings.value(
+    SETTINGS_MAIN.AUTO_ENCRYPT_PREVIEWED,
+  );
+  if (!stored) {
+    return [];
+  }
+  try {
+    return JSON.parse(stored) as string[];
+  } catch {
+    return [];
+  }
+}
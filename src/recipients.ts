@@ -0,0 +1,162 @@
+/*****************************************************************************
+ * @file        : src/recipients.ts
+ * @description : Public-key recipients. Each profile can hold an ECDH P-256
+ *                identity (private key wrapped by a passphrase) and a list of
+ *                teammates' public keys to encrypt notes to.
+ *****************************************************************************/
+
+/** Imports */
+import joplin from "api";
+import {
+  AesOptions,
+  generateKeyPair,
+  kdfParamsProblem,
+  publicKeyFingerprint,
+  resolveKdf,
+  unwrapKey,
+  wrapKey,
+} from "./encryption";
+import { SETTINGS_MAIN } from "./index";
+
+/**
+ * The own keypair as stored in the plugin settings.
+ * @interface
+ */
+export interface Identity {
+  /** Fingerprint of the public key, referenced by recipient slots. */
+  fingerprint: string;
+
+  /** Base64 raw P-256 public key, shared with teammates. */
+  publicKey: string;
+
+  /** KDF used to derive the key encryption key (Kdf, KdfParams). */
+  options: AesOptions;
+
+  /** Base64 PKCS#8 private key wrapped by the passphrase, see wrapKey. */
+  data: string;
+}
+
+/**
+ * An imported public key of a teammate.
+ * @interface
+ */
+export interface Contact {
+  /** Display name. */
+  name: string;
+
+  /** Base64 raw P-256 public key. */
+  publicKey: string;
+
+  /** Fingerprint of the public key. */
+  fingerprint: string;
+}
+
+/**
+ * Read the own keypair from the plugin settings.
+ * @returns The identity or null if no keypair was generated
+ */
+export async function loadIdentity(): Promise<Identity | null> {
+  const stored = await joplin.settings.value(SETTINGS_MAIN.IDENTITY);
+  if (!stored) {
+    return null;
+  }
+  try {
+    return JSON.parse(stored) as Identity;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Generate a new keypair and store it, replacing any previous one.
+ * @param passwd - Passphrase protecting the private key
+ * @param options - AES options providing Kdf and KdfParams
+ * @returns The new identity
+ */
+export async function createIdentity(
+  passwd: string,
+  options: AesOptions,
+): Promise<Identity> {
+  const { kdf, params } = resolveKdf(options);
+  const { publicKey, privateKey } = await generateKeyPair();
+
+  const identity: Identity = {
+    fingerprint: await publicKeyFingerprint(publicKey),
+    publicKey,
+    options: { Kdf: kdf, KdfParams: params },
+    data: await wrapKey(privateKey, passwd, { Kdf: kdf, KdfParams: params }),
+  };
+  await joplin.settings.setValue(
+    SETTINGS_MAIN.IDENTITY,
+    JSON.stringify(identity),
+  );
+  return identity;
+}
+
+/**
+ * Unwrap the private key with the passphrase.
+ * @param identity - The identity
+ * @param passwd - Passphrase of the private key
+ * @returns PKCS#8 private key bytes
+ * @throws WrongPasswordError if the passphrase does not match
+ * @throws Error if the KDF parameters of the keypair are out of range
+ */
+export async function unlockIdentity(
+  identity: Identity,
+  passwd: string,
+): Promise<Uint8Array> {
+  const problem = kdfParamsProblem(
+    identity.options.Kdf,
+    identity.options.KdfParams,
+  );
+  if (problem) {
+    throw new Error(`The keypair cannot be unlocked: ${problem}`);
+  }
+  return unwrapKey(identity.data, passwd, identity.options);
+}
+
+/**
+ * Read the imported public keys from the plugin settings.
+ * @returns Imported contacts
+ */
+export async function loadContacts(): Promise<Contact[]> {
+  const stored = await joplin.settings.value(SETTINGS_MAIN.CONTACTS);
+  if (!stored) {
+    return [];
+  }
+  try {
+    return JSON.parse(stored) as Contact[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Import a teammate's public key. A contact with the same name or key is
+ * replaced.
+ * @param name - Display name
+ * @param publicKey - Base64 raw P-256 public key
+ * @returns The imported contact
+ * @throws DOMException if the public key is invalid
+ */
+export async function importContact(
+  name: string,
+  publicKey: string,
+): Promise<Contact> {
+  publicKey = publicKey.replace(/\s/g, "");
+  const contact: Contact = {
+    name: name.replace(/[\r\n#`]/g, " ").trim(),
+    publicKey,
+    fingerprint: await publicKeyFingerprint(publicKey),
+  };
+
+  const contacts = (await loadContacts()).filter(
+    (other) =>
+      other.name !== contact.name && other.fingerprint !== contact.fingerprint,
+  );
+  await joplin.settings.setValue(
+    SETTINGS_MAIN.CONTACTS,
+    JSON.stringify([...contacts, contact]),
+  );
+  return contact;
+}
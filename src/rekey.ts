@@ -0,0 +1,138 @@
+/*****************************************************************************
+ * @file        : src/rekey.ts
+ * @description : Password changes. A fence is opened with its old password
+ *                in memory and written back under the new one, the plaintext
+ *                never reaches the note or its revisions.
+ *****************************************************************************/
+
+/** Imports */
+import {
+  AesOptions,
+  FORMAT_VERSION,
+  WrongPasswordError,
+  decryptData,
+  decryptDataWithKey,
+  encryptData,
+  encryptDataWithKey,
+} from "./encryption";
+import { createPasswordSlot, keyslotsMac, openNoteKeyslots } from "./keyslots";
+import {
+  ParsedNote,
+  generateEncryptedNote,
+  replaceSecureBlock,
+  validateBlocks,
+} from "./utils";
+
+/**
+ * Re-encrypt a fence under a new password. A password-keyed fence is
+ * decrypted and encrypted again with the new options. With keyslots only
+ * the password slot the old password opens is replaced, the body is
+ * re-encrypted with the same data key only if the cipher changes, the other
+ * slots keep working.
+ * @param parsed - The parsed fence
+ * @param oldPasswd - Current password of the fence
+ * @param newPasswd - New password
+ * @param options - Cipher and KDF to use from now on, the fence's own if
+ *                  omitted
+ * @returns The new fence, with the id of the old one
+ * @throws WrongPasswordError if the old password does not open the fence
+ * @throws IntegrityError if the fence was modified
+ */
+export async function rekeyFence(
+  parsed: ParsedNote,
+  oldPasswd: string,
+  newPasswd: string,
+  options?: AesOptions,
+): Promise<string> {
+  const current = parsed.aesOptions;
+  const target: AesOptions = {
+    KeySize: (options || current).KeySize,
+    AesMode: (options || current).AesMode,
+    Kdf: (options || current).Kdf,
+    // Tuned KDF costs are kept unless the KDF itself changes
+    KdfParams:
+      options && options.Kdf !== current.Kdf
+        ? options.KdfParams
+        : current.KdfParams,
+    Compression: current.Compression,
+    Padding: current.Padding,
+  };
+
+  if (current.KeySource !== "keyslots") {
+    const content = await decryptData(current, parsed.data, oldPasswd);
+    const data = await encryptData(target, content, newPasswd);
+    return generateEncryptedNote(target, data, [], parsed.id);
+  }
+
+  // Only password slots, vault and recipient slots have no password to change
+  const { dataKey, slot } = await openNoteKeyslots(parsed, oldPasswd);
+  const others = parsed.keyslots.filter((other) => other.id !== slot.id);
+  const replaced = await createPasswordSlot(
+    others,
+    dataKey,
+    newPasswd,
+    slot.label,
+    options && options.Kdf !== slot.options.Kdf
+      ? { Kdf: options.Kdf, KdfParams: options.KdfParams }
+      : slot.options,
+  );
+  const keyslots = parsed.keyslots.map((other) =>
+    other.id === slot.id ? { ...replaced, id: slot.id } : other,
+  );
+
+  let noteOptions = current;
+  let data = parsed.data;
+  if (
+    target.KeySize !== current.KeySize ||
+    target.AesMode !== current.AesMode
+  ) {
+    const content = await decryptDataWithKey(current, parsed.data, dataKey);
+    noteOptions = {
+      ...target,
+      Version: FORMAT_VERSION,
+      KeySource: "keyslots",
+    };
+    data = await encryptDataWithKey(noteOptions, content, dataKey);
+  }
+  return generateEncryptedNote(
+    noteOptions,
+    data,
+    keyslots,
+    parsed.id,
+    await keyslotsMac(dataKey, noteOptions, data, keyslots),
+  );
+}
+
+/**
+ * Re-encrypt every fence of a note body that the old password opens.
+ * @param body - The note body
+ * @param oldPasswd - Old password
+ * @param newPasswd - New password
+ * @param options - Cipher and KDF to use from now on, each fence's own if
+ *                  omitted
+ * @returns The new body, the number of fences changed and of fences in the
+ *          body
+ * @throws IntegrityError if a fence was modified
+ */
+export async function rekeyBody(
+  body: string,
+  oldPasswd: string,
+  newPasswd: string,
+  options?: AesOptions,
+): Promise<{ body: string; changed: number; total: number }> {
+  const blocks = validateBlocks(body);
+  let changed = 0;
+  // Last fence first, like decryptBlocks
+  for (const parsed of [...blocks].reverse()) {
+    try {
+      const fence = await rekeyFence(parsed, oldPasswd, newPasswd, options);
+      body = replaceSecureBlock(body, parsed.text, fence);
+      changed++;
+    } catch (error) {
+      if (!(error instanceof WrongPasswordError)) {
+        throw error;
+      }
+    }
+  }
+  return { body, changed, total: blocks.length };
+}
@@ -0,0 +1,310 @@
+/*****************************************************************************
+ * @file        : src/resources.ts
+ * @description : Encrypted attachments. Every resource a note links to is
+ *                copied into a new resource holding its encrypted bytes, and
+ *                the link inside the ciphertext points to the copy and
+ *                carries its random key: `:/<id>#sn=<key>`.
+ *****************************************************************************/
+
+/** Imports */
+import joplin from "api";
+import { ModelType } from "api/types";
+import { getAllItems } from "./bulk";
+import {
+  arrayBufferToBase64,
+  bytesToHex,
+  decryptBytesWithKey,
+  encryptBytesWithKey,
+  generateDataKey,
+  hexToBytes,
+} from "./encryption";
+
+/** Plain resource links, e.g. `:/0123...` not followed by a key. */
+const PLAIN_LINK = /:\/([0-9a-f]{32})(?!#sn=)/g;
+
+/** Links to encrypted resources, `:/<id>#sn=<key>`. */
+const ENCRYPTED_LINK = /:\/([0-9a-f]{32})#sn=([0-9a-f]{64})/g;
+
+/**
+ * Token of the download links handed to the viewer while the plugin runs.
+ * Decrypted content cannot know it, a download link it holds itself is not
+ * taken for one of the plugin's.
+ */
+const DOWNLOAD_TOKEN = bytesToHex(generateDataKey().slice(0, 16));
+
+/**
+ * Original metadata of an attachment, kept inside its encrypted bytes.
+ * @interface
+ */
+interface ResourceMeta {
+  title: string;
+  mime: string;
+  filename: string;
+}
+
+/**
+ * A decrypted attachment.
+ * @interface
+ */
+export interface DecryptedResource {
+  meta: ResourceMeta;
+  bytes: Uint8Array;
+}
+
+/**
+ * Outcome of encrypting the attachments of a note body.
+ * @interface
+ */
+export interface EncryptedResources {
+  /** Body with the links rewritten to the encrypted copies. */
+  body: string;
+
+  /** Original resources, to delete once the encrypted body is saved. */
+  originals: string[];
+
+  /** Attachments left alone because other notes link to them too. */
+  shared: number;
+}
+
+/**
+ * Copy every attachment of a note body into an encrypted resource. Resources
+ * other notes link to are left alone, deleting them would break those notes.
+ * @param noteId - Id of the note the body belongs to
+ * @param body - Plain note body
+ * @returns The rewritten body and the resources it no longer links to
+ */
+export async function encryptResources(
+  noteId: string,
+  body: string,
+): Promise<EncryptedResources> {
+  const result: EncryptedResources = { body, originals: [], shared: 0 };
+
+  for (const id of linkedIds(body, PLAIN_LINK)) {
+    if ((await joplin.data.itemType(id)) !== ModelType.Resource) {
+      continue;
+    }
+    const notes = await getAllItems(["resources", id, "notes"], ["id"]);
+    if (notes.some((note) => note.id !== noteId)) {
+      result.shared++;
+      continue;
+    }
+
+    const resource = await joplin.data.get(["resources", id], {
+      fields: ["id", "title", "mime", "filename", "file_extension"],
+    });
+    const file = await joplin.data.get(["resources", id, "file"]);
+    const meta: ResourceMeta = {
+      title: resource.title || "",
+      mime: resource.mime || "application/octet-stream",
+      filename:
+        resource.filename ||
+        `${resource.title || id}${resource.file_extension ? `.${resource.file_extension}` : ""}`,
+    };
+
+    const key = generateDataKey();
+    const sealed = await encryptBytesWithKey(
+      packResource(meta, new Uint8Array(file.body)),
+      key,
+    );
+    const encryptedId = await createResource(sealed, {
+      title: "Encrypted attachment",
+      mime: "application/octet-stream",
+      filename: "attachment.secure",
+    });
+
+    result.body = result.body
+      .split(`:/${id}`)
+      .join(`:/${encryptedId}#sn=${bytesToHex(key)}`);
+    result.originals.push(id);
+  }
+
+  return result;
+}
+
+/**
+ * Turn the encrypted attachments of a decrypted body back into plain
+ * resources with their original metadata.
+ * @param body - Decrypted note body
+ * @returns Body linking to the restored resources, and the encrypted
+ *          resources to delete once it is saved
+ */
+export async function restoreResources(
+  body: string,
+): Promise<{ body: string; encrypted: string[] }> {
+  const encrypted: string[] = [];
+  for (const link of encryptedLinks(body)) {
+    const { meta, bytes } = await decryptResource(link.id, link.key);
+    const restoredId = await createResource(bytes, meta);
+    body = body.split(link.text).join(`:/${restoredId}`);
+    encrypted.push(link.id);
+  }
+  return { body, encrypted };
+}
+
+/**
+ * Replace the encrypted attachments of a decrypted body for the viewer:
+ * images become data URLs, other files a download link the viewer handles.
+ * Nothing is written to disk.
+ * @param content - Decrypted note body
+ * @returns Markdown ready to render
+ */
+export async function inlineResources(content: string): Promise<string> {
+  for (const link of encryptedLinks(content)) {
+    let replacement: string;
+    try {
+      const { meta, bytes } = await decryptResource(link.id, link.key);
+      replacement = /^image\/(gif|png|jpeg|webp)$/.test(meta.mime)
+        ? `data:${meta.mime};base64,${arrayBufferToBase64(bytes)}`
+        : `#sn-resource=${DOWNLOAD_TOKEN}:${link.id}:${link.key}`;
+    } catch {
+      replacement = "#sn-resource-missing";
+    }
+    content = content.split(link.text).join(replacement);
+  }
+  return content;
+}
+
+/**
+ * Read a download link of the viewer, see inlineResources.
+ * @param link - The link after `#sn-resource=`, "<token>:<id>:<key>"
+ * @returns Resource id and key, null unless the plugin wrote the link
+ */
+export function parseDownloadLink(
+  link: string,
+): { id: string; key: string } | null {
+  const [token, id, key] = (link || "").split(":");
+  if (
+    token !== DOWNLOAD_TOKEN ||
+    !/^[0-9a-f]{32}$/.test(id) ||
+    !/^[0-9a-f]{64}$/.test(key)
+  ) {
+    return null;
+  }
+  return { id, key };
+}
+
+/**
+ * Decrypt an encrypted attachment.
+ * @param id - Id of the encrypted resource
+ * @param key - Its key, hex
+ * @returns The original metadata and bytes
+ * @throws IntegrityError if the key does not match
+ */
+export async function decryptResource(
+  id: string,
+  key: string,
+): Promise<DecryptedResource> {
+  const file = await joplin.data.get(["resources", id, "file"]);
+  const packed = await decryptBytesWithKey(
+    new Uint8Array(file.body),
+    hexToBytes(key),
+  );
+  return unpackResource(packed);
+}
+
+/**
+ * Delete resources, e.g. the plain originals after encryption.
+ * @param ids - Ids of the resources
+ */
+export async function deleteResources(ids: string[]): Promise<void> {
+  for (const id of ids) {
+    await joplin.data.delete(["resources", id]);
+  }
+}
+
+/**
+ * Create a resource from bytes through a temporary file in the plugin's
+ * data directory.
+ * @param bytes - Content of the resource
+ * @param meta - Title, mime type and file name
+ * @returns Id of the new resource
+ */
+async function createResource(
+  bytes: Uint8Array,
+  meta: ResourceMeta,
+): Promise<string> {
+  const fs = joplin.require("fs-extra");
+  const path = `${await joplin.plugins.dataDir()}/resource-${bytesToHex(generateDataKey())}`;
+  await fs.writeFile(path, bytes);
+  try {
+    const resource = await joplin.data.post(
+      ["resources"],
+      null,
+      { title: meta.title, mime: meta.mime, filename: meta.filename },
+      [{ path }],
+    );
+    return resource.id;
+  } finally {
+    await fs.remove(path);
+  }
+}
+
+/**
+ * Prefix the bytes of an attachment with its metadata: 4 bytes length
+ * (big endian) followed by the JSON metadata.
+ * @param meta - Metadata
+ * @param bytes - Content
+ * @returns Packed bytes
+ */
+function packResource(meta: ResourceMeta, bytes: Uint8Array): Uint8Array {
+  const json = new TextEncoder().encode(JSON.stringify(meta));
+  const packed = new Uint8Array(4 + json.length + bytes.length);
+  new DataView(packed.buffer).setUint32(0, json.length);
+  packed.set(json, 4);
+  packed.set(bytes, 4 + json.length);
+  return packed;
+}
+
+/**
+ * Split packed bytes into metadata and content, see packResource.
+ * @param packed - Packed bytes
+ * @returns Metadata and content
+ */
+function unpackResource(packed: Uint8Array): DecryptedResource {
+  const length = new DataView(
+    packed.buffer,
+    packed.byteOffset,
+    packed.byteLength,
+  ).getUint32(0);
+  const meta = JSON.parse(
+    new TextDecoder().decode(packed.slice(4, 4 + length)),
+  ) as ResourceMeta;
+  return { meta, bytes: packed.slice(4 + length) };
+}
+
+/**
+ * Distinct resource ids linked in a body.
+ * @param body - Note body
+ * @param regex - Link pattern, the id is its first group
+ * @returns The ids, in order of first appearance
+ */
+function linkedIds(body: string, regex: RegExp): string[] {
+  const ids: string[] = [];
+  let match: RegExpExecArray | null;
+  regex.lastIndex = 0;
+  while ((match = regex.exec(body))) {
+    if (ids.indexOf(match[1]) === -1) {
+      ids.push(match[1]);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Distinct links to encrypted resources in a body.
+ * @param body - Note body
+ * @returns Link text, resource id and key of each link
+ */
+function encryptedLinks(
+  body: string,
+): { text: string; id: string; key: string }[] {
+  const links: { text: string; id: string; key: string }[] = [];
+  let match: RegExpExecArray | null;
+  ENCRYPTED_LINK.lastIndex = 0;
+  while ((match = ENCRYPTED_LINK.exec(body))) {
+    if (!links.some((link) => link.text === match[0])) {
+      links.push({ text: match[0], id: match[1], key: match[2] });
+    }
+  }
+  return links;
+}
@@ -0,0 +1,72 @@
+/*****************************************************************************
+ * @file        : src/rotation.ts
+ * @description : State of a bulk password rotation. The notes still to try
+ *                and the notes already rotated are kept in the plugin
+ *                settings after every note, so a rotation interrupted by a
+ *                crash or by the user can be resumed. Passwords are never
+ *                stored.
+ *****************************************************************************/
+
+/** Imports */
+import joplin from "api";
+import { SETTINGS_MAIN } from "./index";
+
+/**
+ * Progress of a rotation as stored in the plugin settings.
+ * @interface
+ */
+export interface RotationState {
+  /** Ids of the notes still to try, in order. */
+  pending: string[];
+
+  /** Ids of the notes rotated so far. */
+  rotated: string[];
+}
+
+/**
+ * Read the state of an unfinished rotation.
+ * @returns The state, null if no rotation is in progress
+ */
+export async function loadRotation(): Promise<RotationState | null> {
+  const stored = await joplin.settings.value(SETTINGS_MAIN.ROTATION);
+  if (!stored) {
+    return null;
+  }
+  try {
+    const state = JSON.parse(stored) as RotationState;
+    return Array.isArray(state.pending) && Array.isArray(state.rotated)
+      ? state
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write the state of the rotation, or clear it once the rotation finished.
+ * @param state - The state, null to clear it
+ */
+export async function saveRotation(state: RotationState | null): Promise<void> {
+  await joplin.settings.setValue(
+    SETTINGS_MAIN.ROTATION,
+    state ? JSON.stringify(state) : "",
+  );
+}
+
+/**
+ * Record that a note was tried, rotated or not.
+ * @param state - The state, updated in place
+ * @param noteId - Id of the note
+ * @param rotated - Whether the note now uses the new password
+ */
+export async function markRotated(
+  state: RotationState,
+  noteId: string,
+  rotated: boolean,
+): Promise<void> {
+  state.pending = state.pending.filter((id) => id !== noteId);
+  if (rotated) {
+    state.rotated.push(noteId);
+  }
+  await saveRotation(state);
+}
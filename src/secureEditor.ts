@@ -0,0 +1,212 @@
+/*****************************************************************************
+ * @file        : src/secureEditor.ts
+ * @description : "Edit securely" panel. Decrypted Markdown is edited in a
+ *                plugin-owned panel and re-encrypted with the note's keys on
+ *                every save, so plaintext never reaches joplin.data.put.
+ *****************************************************************************/
+
+/** Imports */
+import joplin from "api";
+import { EnvelopeKeys, reencryptData } from "./encryption";
+import {
+  ParsedNote,
+  generateEncryptedNote,
+  replaceSecureBlock,
+  validateBlocks,
+} from "./utils";
+import { onSessionLock, touchSession } from "./session";
+import { extractMetadata } from "./metadata";
+
+/**
+ * The note open in the secure editor.
+ * @interface
+ */
+interface EditorState {
+  /** Id of the note being edited. */
+  noteId: string;
+
+  /** Title shown above the editor. */
+  title: string;
+
+  /** Encrypted body as last read or written by the editor. */
+  body: string;
+
+  /** Parsed encrypted body, provides options, keyslots and salt. */
+  parsed: ParsedNote;
+
+  /** Keys of the note, reused for every save. */
+  keys: EnvelopeKeys;
+
+  /** Decrypted content handed to the editor webview. */
+  content: string;
+
+  /** Hidden metadata header, kept out of the editor and re-added on save. */
+  header: string;
+}
+
+let panel: string | null = null;
+let state: EditorState | null = null;
+let openCount = 0;
+
+/**
+ * Open the decrypted content of a note in the secure editor.
+ * @param note - Note with id, title and encrypted body
+ * @param parsed - Parsed encrypted body
+ * @param keys - Keys of the note
+ * @param content - Decrypted content
+ */
+export async function openSecureEditor(
+  note: { id: string; title: string; body: string },
+  parsed: ParsedNote,
+  keys: EnvelopeKeys,
+  content: string,
+) {
+  const handle = await createPanel();
+  const { header, meta, body } = extractMetadata(content);
+  state = {
+    noteId: note.id,
+    title: (meta ? meta.title : note.title) || "Untitled",
+    body: note.body,
+    parsed,
+    keys,
+    content: body,
+    header,
+  };
+
+  // The content is fetched by the webview through onMessage and never
+  // embedded into the HTML. The counter forces the webview to reload.
+  openCount++;
+  await joplin.views.panels.setHtml(
+    handle,
+    `
+    <div id="se-root" class="se-root" data-open="${openCount}">
+      <div class="se-header">
+        <span id="se-title" class="se-title"></span>
+        <span id="se-status" class="se-status"></span>
+      </div>
+      <textarea id="se-input" class="se-input" spellcheck="false"></textarea>
+      <div class="se-buttons">
+        <button type="button" id="se-save">Save</button>
+        <button type="button" id="se-save-close">Save &amp; Close</button>
+        <button type="button" id="se-discard">Discard</button>
+      </div>
+    </div>
+    `,
+  );
+  await joplin.views.panels.show(handle, true);
+}
+
+/**
+ * Close the secure editor and forget the decrypted content and keys.
+ */
+export async function closeSecureEditor() {
+  state = null;
+  if (!panel) {
+    return;
+  }
+  await joplin.views.panels.setHtml(panel, "");
+  await joplin.views.panels.hide(panel);
+}
+
+/**
+ * Create the editor panel on first use.
+ * @returns Handle of the panel
+ */
+async function createPanel(): Promise<string> {
+  if (panel) {
+    return panel;
+  }
+
+  panel = await joplin.views.panels.create("secureEditor");
+  await joplin.views.panels.addScript(panel, "./panelScripts/secureEditor.css");
+  await joplin.views.panels.addScript(panel, "./panelScripts/secureEditor.js");
+  await joplin.views.panels.onMessage(panel, handleMessage);
+
+  // Locking the session also closes the editor, unsaved changes are lost.
+  onSessionLock(() => {
+    if (state) {
+      closeSecureEditor();
+    }
+  });
+
+  return panel;
+}
+
+/**
+ * Handle messages of the editor webview.
+ * @param message - Message with a type and optional content
+ * @returns Response for the webview
+ */
+async function handleMessage(message: any) {
+  if (message.type === "ready") {
+    if (!state) {
+      return { type: "closed" };
+    }
+    return { type: "load", title: state.title, msg: state.content };
+  }
+
+  if (message.type === "activity") {
+    touchSession();
+    return;
+  }
+
+  if (message.type === "save") {
+    const result = await saveContent(message.msg);
+    if (result.type === "success" && message.close) {
+      await closeSecureEditor();
+    }
+    return result;
+  }
+
+  if (message.type === "discard") {
+    await closeSecureEditor();
+    return;
+  }
+}
+
+/**
+ * Re-encrypt the edited content and write the encrypted body to the note.
+ * @param content - Edited Markdown
+ * @returns Save status and message
+ */
+async function saveContent(content: string) {
+  if (!state) {
+    return { type: "error", msg: "The editor was closed" };
+  }
+
+  const note = await joplin.data.get(["notes", state.noteId], {
+    fields: ["id", "body"],
+  });
+  if (note.body !== state.body) {
+    return {
+      type: "error",
+      msg: "The note was changed outside the secure editor, reopen it",
+    };
+  }
+
+  const { id, text, aesOptions, data, keyslots, keyslotsMac } = state.parsed;
+  const encryptedData = await reencryptData(
+    aesOptions,
+    state.header + content,
+    data,
+    state.keys,
+  );
+  const fence = (
+    await generateEncryptedNote(
+      aesOptions,
+      encryptedData,
+      keyslots,
+      id,
+      keyslotsMac,
+    )
+  ).replace(/\n$/, "");
+  const body = replaceSecureBlock(note.body, text, fence);
+
+  await joplin.data.put(["notes", state.noteId], null, { body });
+  state.body = body;
+  state.parsed = validateBlocks(body).find((other) => other.text === fence);
+  state.content = content;
+  touchSession();
+
+  return { type: "success", msg: "Saved and encrypted" };
+}
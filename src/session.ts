@@ -0,0 +1,208 @@
+/*****************************************************************************
+ * @file        : src/session.ts
+ * @description : In-memory session cache of unlocked keys, so switching back
+ *                to an encrypted note does not re-run the KDF. Keys are kept
+ *                as non-extractable CryptoKeys or wiped byte arrays and are
+ *                never written to disk. The session locks after an idle
+ *                timeout or on request.
+ *****************************************************************************/
+
+/** Imports */
+import {
+  EnvelopeKeys,
+  WrongPasswordError,
+  decryptDataWithKeys,
+  deriveEnvelopeKeys,
+  envelopeSalt,
+  expandEnvelopeKeys,
+  unwrapKeyWithKey,
+} from "./encryption";
+import { openNoteKeyslots, verifyKeyslots } from "./keyslots";
+import { loadIdentity } from "./recipients";
+import { ParsedNote } from "./utils";
+import { loadVault } from "./vault";
+
+/** Keys of unlocked notes, by envelope salt. */
+const noteKeys = new Map<string, EnvelopeKeys>();
+
+/** Unlocked vault keys, by vault id. */
+const vaultKeys = new Map<string, Uint8Array>();
+
+/** Called whenever the session locks. */
+const lockListeners: (() => void)[] = [];
+
+/** Incremented on every lock, lets viewers notice that they must re-lock. */
+let generation = 0;
+
+let idleMinutes = 0;
+let idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Set the idle timeout after which the session locks.
+ * @param minutes - Idle minutes, 0 keeps the session until it is locked
+ */
+export function configureSession(minutes: number) {
+  idleMinutes = minutes > 0 ? minutes : 0;
+  touchSession();
+}
+
+/**
+ * Restart the idle timer, called whenever a cached key is used.
+ */
+export function touchSession() {
+  if (idleTimer) {
+    clearTimeout(idleTimer);
+    idleTimer = null;
+  }
+  if (idleMinutes && (noteKeys.size || vaultKeys.size)) {
+    idleTimer = setTimeout(lockSession, idleMinutes * 60 * 1000);
+  }
+}
+
+/**
+ * Forget all cached keys.
+ */
+export function lockSession() {
+  if (idleTimer) {
+    clearTimeout(idleTimer);
+    idleTimer = null;
+  }
+  noteKeys.clear();
+  vaultKeys.forEach((key) => key.fill(0));
+  vaultKeys.clear();
+  generation++;
+  lockListeners.forEach((listener) => listener());
+}
+
+/**
+ * Register a callback that runs whenever the session locks.
+ * @param listener - Callback
+ */
+export function onSessionLock(listener: () => void) {
+  lockListeners.push(listener);
+}
+
+/**
+ * Current lock generation of the session.
+ * @returns A number that changes every time the session locks
+ */
+export function sessionGeneration(): number {
+  return generation;
+}
+
+/**
+ * Look up the cached keys of a note.
+ * @param parsed - Parsed encrypted note
+ * @returns Keys of the note or null if it is not unlocked in this session
+ */
+export function sessionNoteKeys(parsed: ParsedNote): EnvelopeKeys | null {
+  return noteKeys.get(envelopeSalt(parsed.data)) || null;
+}
+
+/**
+ * Keep an unlocked vault key for the session.
+ * @param vaultId - Id of the vault
+ * @param vaultKey - The vault key
+ */
+export function rememberVaultKey(vaultId: string, vaultKey: Uint8Array) {
+  vaultKeys.set(vaultId, vaultKey.slice());
+  touchSession();
+}
+
+/**
+ * Look up an unlocked vault key.
+ * @param vaultId - Id of the vault
+ * @returns A copy of the vault key or null if the vault is locked
+ */
+export function cachedVaultKey(vaultId: string): Uint8Array | null {
+  const vaultKey = vaultKeys.get(vaultId);
+  if (!vaultKey) {
+    return null;
+  }
+  touchSession();
+  return vaultKey.slice();
+}
+
+/**
+ * Decrypt a note with the password and keep its keys for the session.
+ * @param parsed - Parsed encrypted note
+ * @param passwd - Password, vault password or keypair passphrase
+ * @returns Decrypted content
+ * @throws WrongPasswordError if the password does not open the note
+ * @throws IntegrityError if the note was modified
+ */
+export async function unlockNote(
+  parsed: ParsedNote,
+  passwd: string,
+): Promise<string> {
+  const { aesOptions, data } = parsed;
+  let keys: EnvelopeKeys;
+
+  if (aesOptions.KeySource === "keyslots") {
+    const hasSlot = (type: string) =>
+      parsed.keyslots.some((slot) => slot.type === type);
+    const vault = hasSlot("vault") ? await loadVault() : null;
+    const { dataKey, vaultKey } = await openNoteKeyslots(parsed, passwd, {
+      vault,
+      identity: hasSlot("recipient") ? await loadIdentity() : null,
+    });
+    keys = await expandEnvelopeKeys(aesOptions, dataKey);
+    dataKey.fill(0);
+    if (vaultKey) {
+      rememberVaultKey(vault.id, vaultKey);
+    }
+  } else {
+    keys = await deriveEnvelopeKeys(aesOptions, data, passwd);
+  }
+
+  const content = await decryptDataWithKeys(aesOptions, data, keys);
+  noteKeys.set(envelopeSalt(data), keys);
+  touchSession();
+  return content;
+}
+
+/**
+ * Decrypt a note with keys cached in the session.
+ * @param parsed - Parsed encrypted note
+ * @returns Decrypted content or null if the session holds no key for it
+ * @throws IntegrityError if the note was modified
+ */
+export async function unlockNoteFromSession(
+  parsed: ParsedNote,
+): Promise<string | null> {
+  const { aesOptions, data } = parsed;
+  const salt = envelopeSalt(data);
+  let keys = noteKeys.get(salt);
+
+  if (!keys && aesOptions.KeySource === "keyslots") {
+    for (const slot of parsed.keyslots) {
+      const vaultKey = slot.vault && cachedVaultKey(slot.vault);
+      if (!vaultKey) {
+        continue;
+      }
+      const dataKey = await unwrapKeyWithKey(slot.data, vaultKey);
+      vaultKey.fill(0);
+      await verifyKeyslots(parsed, dataKey);
+      keys = await expandEnvelopeKeys(aesOptions, dataKey);
+      dataKey.fill(0);
+      break;
+    }
+  }
+
+  if (!keys) {
+    return null;
+  }
+
+  try {
+    const content = await decryptDataWithKeys(aesOptions, data, keys);
+    noteKeys.set(salt, keys);
+    touchSession();
+    return content;
+  } catch (error) {
+    if (error instanceof WrongPasswordError) {
+      noteKeys.delete(salt);
+      return null;
+    }
+    throw error;
+  }
+}
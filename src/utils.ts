@@ -7,8 +7,33 @@
 /** Imports */
 import joplin from "api";
 import { ToastType } from "api/types";
-import { AesOptions } from "./encryption";
+import {
+  AesOptions,
+  AES_MODES,
+  COMPRESSION_METHODS,
+  isPaddingPolicy,
+  KDF_DEFAULTS,
+  KEY_SIZES,
+  FORMAT_VERSION,
+  envelopeOverhead,
+  canonicalHeader,
+  parseKdfParams,
+  kdfParamsProblem,
+  decryptData,
+  decryptDataWithKey,
+  generateDataKey,
+  WrongPasswordError,
+} from "./encryption";
+import {
+  KeySlot,
+  formatKeyslots,
+  parseKeyslots,
+  openNoteKeyslots,
+} from "./keyslots";
+import { loadVault } from "./vault";
+import { loadIdentity } from "./recipients";
 import { PLUGIN_ID } from "./index";
+import { fenceIdentity } from "./fence";
 import MarkdownIt = require("markdown-it");
 
 /**
@@ -35,83 +60,720 @@ export async function isNoteLocked(body) {
   return regex.test(body);
 }
 
+/**
+ * Parsed content of a SecureNotes code fence.
+ * @interface
+ */
+export interface ParsedNote {
+  /** Id of the fence, null for a fence without id (a whole encrypted note). */
+  id: string | null;
+
+  /** Identity of the fence content, see fenceIdentity. */
+  fence: string;
+
+  /** The whole fence as found in the note body, see replaceSecureBlock. */
+  text: string;
+
+  /** Options from the Encryption section. */
+  aesOptions: AesOptions;
+
+  /** Keyslots and recipients, empty unless the key source is keyslots. */
+  keyslots: KeySlot[];
+
+  /** MAC of the keyslots under the data key, see keyslotsMac. */
+  keyslotsMac: string;
+
+  /** Base64 payload from the Data section. */
+  data: string;
+}
+
+/** What is wrong with a fence that cannot be parsed. */
+export type FormatErrorCode =
+  | "missing-fence"
+  | "malformed-header"
+  | "unsupported-version"
+  | "unknown-mode"
+  | "unsupported-key-size"
+  | "missing-data"
+  | "invalid-base64"
+  | "payload-too-short";
+
+/**
+ * Custom error class to indicate a fence that cannot be parsed. Thrown by
+ * parseFormat, the message says what is wrong in words for the user.
+ *
+ * @extends Error
+ */
+export class FormatError extends Error {
+  code: FormatErrorCode;
+
+  constructor(code: FormatErrorCode, message: string) {
+    super(message);
+    this.name = "FormatError";
+    this.code = code;
+  }
+}
+
+/**
+ * A SecureNotes code fence found in a note body.
+ * @interface
+ */
+interface SecureBlock {
+  /** Id from the fence info string, null if it has none. */
+  id: string | null;
+
+  /** The whole fence, from the opening to the closing line. */
+  text: string;
+
+  /** Content between the fence lines. */
+  inner: string;
+}
+
+/**
+ * Generate a random id for an inline encrypted block.
+ * @returns 8 hex characters
+ */
+export function generateBlockId(): string {
+  return Array.from(generateDataKey().slice(0, 4))
+    .map((byte) => `0${byte.toString(16)}`.slice(-2))
+    .join("");
+}
+
 /**
  * Function to generate encrypted note body (CodeFence method).
  * @param aesOptions - AES Options used
  * @param encryptedData - Enccrypted data
+ * @param keyslots - Keyslots wrapping the data key, if any
+ * @param blockId - Id of an inline block, omitted for a whole note
+ * @param keyslotsMac - MAC of the keyslots, see keyslotsMac
  * @returns Encrypted note body
  */
 export async function generateEncryptedNote(
   aesOptions: AesOptions,
   encryptedData: string,
+  keyslots: KeySlot[] = [],
+  blockId: string | null = null,
+  keyslotsMac = "",
 ) {
-  const secureNotesBlock = `\`\`\`${PLUGIN_ID}
+  const passwordSlots = keyslots.filter((slot) => slot.type !== "recipient");
+  const recipientSlots = keyslots.filter((slot) => slot.type === "recipient");
+  const keyslotsSection =
+    (passwordSlots.length
+      ? `## Keyslots\n${formatKeyslots(passwordSlots)}\n\n`
+      : "") +
+    (recipientSlots.length
+      ? `## Recipients\n${formatKeyslots(recipientSlots)}\n\n`
+      : "") +
+    (keyslotsMac ? `## Integrity\nkeyslots-mac: ${keyslotsMac}\n\n` : "");
+  const secureNotesBlock = `\`\`\`${PLUGIN_ID}${blockId ? ` id=${blockId}` : ""}
 ## Info
-This is an encrypted note, use Secure Notes plugin and switch to Markdown editor's viewer layout.
+This is an encrypted ${blockId ? "block" : "note"}, use Secure Notes plugin and switch to Markdown editor's viewer layout.
 
 ## Encryption
-mode: ${aesOptions.AesMode}
-size: ${aesOptions.KeySize}
+${canonicalHeader(aesOptions)}
 
-## Data
+${keyslotsSection}## Data
 ${encryptedData}
 \`\`\`
 `;
   return secureNotesBlock;
 }
 
+/** Header lines an inline secret may carry, in the order of the header. */
+const INLINE_HEADER_FIELDS = [
+  "format-version",
+  "mode",
+  "size",
+  "key",
+  "kdf",
+  "kdf-params",
+  "compression",
+  "padding",
+];
+
+/** Fields an inline secret may carry. */
+const INLINE_FIELDS = [
+  ...INLINE_HEADER_FIELDS,
+  "vault",
+  "slot",
+  "keyslots-mac",
+  "data",
+];
+
+/** Fields of the positional inline secrets written before the names. */
+const INLINE_POSITIONAL_FIELDS = [
+  "format-version",
+  "mode",
+  "size",
+  "kdf",
+  "kdf-params",
+  "data",
+];
+
 /**
- * Validate and parse the new encryption format.
+ * Generate an inline secret, e.g. for an API key inside a line of text:
+ * `{{sn:format-version=4;mode=AES-GCM;...;data=<data>}}`. The fields are the
+ * lines of the canonical header as `name=value`, separated by ";". A secret
+ * keyed by the vault carries its vault slot as `vault` and `slot` and the
+ * MAC of the slot as `keyslots-mac`.
+ * @param aesOptions - AES Options used
+ * @param encryptedData - Encrypted data
+ * @param vaultSlot - Vault slot of a secret keyed by the vault
+ * @param keyslotsMac - MAC of the vault slot, see keyslotsMac
+ * @returns The inline secret
+ */
+export function generateInlineSecret(
+  aesOptions: AesOptions,
+  encryptedData: string,
+  vaultSlot: KeySlot | null = null,
+  keyslotsMac = "",
+): string {
+  const fields = canonicalHeader(aesOptions)
+    .split("\n")
+    .map((line) => line.replace(/:\s*/, "="));
+  if (vaultSlot) {
+    fields.push(
+      `vault=${vaultSlot.vault}`,
+      `slot=${vaultSlot.data}`,
+      `keyslots-mac=${keyslotsMac}`,
+    );
+  }
+  return `{{sn:${[...fields, `data=${encryptedData}`].join(";")}}}`;
+}
+
+/**
+ * Parse the payload of an inline secret, the text between `{{sn:` and `}}`.
+ * Payloads of six values without names, written before the fields were
+ * named, are read too.
+ * @param payload - The payload
+ * @returns Parsed encryption data
+ * @throws FormatError if the payload is invalid
+ */
+export function parseInlineSecret(payload: string): ParsedNote {
+  const parts = (payload || "").trim().split(";");
+  const fields: { [name: string]: string } = {};
+  if (parts[0].indexOf("=") === -1) {
+    if (parts.length !== INLINE_POSITIONAL_FIELDS.length) {
+      throw new FormatError(
+        "malformed-header",
+        `An inline secret without field names has 6 fields separated by ";", this one has ${parts.length}`,
+      );
+    }
+    INLINE_POSITIONAL_FIELDS.forEach((name, i) => (fields[name] = parts[i]));
+  } else {
+    for (const part of parts) {
+      const separator = part.indexOf("=");
+      const name = part.slice(0, separator);
+      if (
+        separator <= 0 ||
+        INLINE_FIELDS.indexOf(name) === -1 ||
+        name in fields ||
+        /\s/.test(part)
+      ) {
+        throw new FormatError(
+          "malformed-header",
+          `The inline secret field "${part}" cannot be read`,
+        );
+      }
+      fields[name] = part.slice(separator + 1);
+    }
+  }
+
+  const header = INLINE_HEADER_FIELDS.filter((name) => name in fields).map(
+    (name) => `${name}: ${fields[name]}`,
+  );
+  // The vault slot is the only slot of the secret, see createVaultSlot
+  const vaultSlot =
+    "vault" in fields || "slot" in fields
+      ? `## Keyslots
+slot: id=1 type=vault vault=${fields["vault"] || ""} data=${fields["slot"] || ""} label=Vault
+
+`
+      : "";
+  const integrity =
+    "keyslots-mac" in fields
+      ? `## Integrity
+keyslots-mac: ${fields["keyslots-mac"]}
+
+`
+      : "";
+  return parseSecureBlock({
+    id: null,
+    text: payload,
+    inner: `## Encryption
+${header.join("\n")}
+
+${vaultSlot}${integrity}## Data
+${fields["data"] || ""}`,
+  });
+}
+
+/**
+ * Find the SecureNotes fences of a note body.
+ * @param body - The note body
+ * @returns The fences, in order
+ */
+function findSecureBlocks(body: string): SecureBlock[] {
+  const regex = new RegExp(
+    `^\`\`\`${PLUGIN_ID}(?:[ \\t]+id=([0-9a-f]+))?[ \\t]*\\n([\\s\\S]+?)\\n\`\`\`[ \\t]*$`,
+    "gm",
+  );
+  const blocks: SecureBlock[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(body.replace(/\r\n/g, "\n")))) {
+    blocks.push({ id: match[1] || null, text: match[0], inner: match[2] });
+  }
+  return blocks;
+}
+
+/**
+ * Parse the new encryption format.
+ * @param body - The note body to parse
+ * @param blockId - Id of the fence to parse, the first fence if omitted
+ * @returns Parsed encryption data
+ * @throws FormatError naming what is wrong, "missing-fence" if the body has
+ *         no such fence
+ */
+export function parseFormat(
+  body: string,
+  blockId: string | null = null,
+): ParsedNote {
+  const blocks = findSecureBlocks(body);
+  const block = blockId
+    ? blocks.find((other) => other.id === blockId)
+    : blocks[0];
+  if (!block) {
+    throw new FormatError(
+      "missing-fence",
+      blockId
+        ? `The note has no encrypted block with id ${blockId}`
+        : "The note has no encrypted block",
+    );
+  }
+  return parseSecureBlock(block);
+}
+
+/**
+ * Validate and parse the new encryption format, for callers that only need
+ * to know whether a body holds a valid fence. See parseFormat for the reason
+ * a fence is invalid.
  * @param body - The note body to validate
+ * @param blockId - Id of the fence to parse, the first fence if omitted
  * @returns Parsed encryption data or null if invalid
  */
 export function validateFormat(
   body: string,
-): { aesOptions: AesOptions; data: string } | null {
-  body = body.replace(/\r\n/g, "\n");
-  const blockMatch = body.match(
-    new RegExp(`^\\\`\\\`\\\`${PLUGIN_ID}\\n([\\s\\S]+?)\\n\\\`\\\`\\\`$`, "m"),
-  );
-  if (!blockMatch) {
+  blockId: string | null = null,
+): ParsedNote | null {
+  try {
+    return parseFormat(body, blockId);
+  } catch (error) {
+    if (!(error instanceof FormatError)) {
+      throw error;
+    }
     return null;
   }
+}
+
+/**
+ * Validate and parse every fence of a note body.
+ * @param body - The note body
+ * @returns Parsed fences, invalid fences are left out
+ */
+export function validateBlocks(body: string): ParsedNote[] {
+  const parsed: ParsedNote[] = [];
+  for (const block of findSecureBlocks(body)) {
+    try {
+      parsed.push(parseSecureBlock(block));
+    } catch (error) {
+      if (!(error instanceof FormatError)) {
+        throw error;
+      }
+    }
+  }
+  return parsed;
+}
 
-  const inner = blockMatch[1];
+/**
+ * Find a fence of a note body by its identity.
+ * @param body - The note body
+ * @param fence - Identity sent by the viewer
+ * @returns Parsed encryption data or null if the body has no such fence
+ * @throws FormatError if the fence is found but cannot be parsed
+ */
+export function findFence(body: string, fence: string): ParsedNote | null {
+  const block = findSecureBlocks(body).find(
+    (other) => fenceIdentity(other.inner) === fence,
+  );
+  return block ? parseSecureBlock(block) : null;
+}
+
+/**
+ * Replace a fence of a note body, e.g. with its decrypted content or an
+ * updated fence. The fence is found by its exact text, fences without id
+ * cannot be told apart otherwise.
+ * @param body - The note body
+ * @param fenceText - The whole fence, the text of its ParsedNote
+ * @param replacement - New text for the fence
+ * @returns The new note body, just the replacement if the fence was the
+ *          whole note
+ */
+export function replaceSecureBlock(
+  body: string,
+  fenceText: string,
+  replacement: string,
+): string {
+  body = body.replace(/\r\n/g, "\n");
+  const index = body.indexOf(fenceText);
+  if (index === -1) {
+    return body;
+  }
+  if (body.trim() === fenceText) {
+    return replacement;
+  }
+  return (
+    body.slice(0, index) +
+    replacement.replace(/\n$/, "") +
+    body.slice(index + fenceText.length)
+  );
+}
+
+/**
+ * Parse the content of a fence.
+ * @param block - The fence
+ * @returns Parsed encryption data
+ * @throws FormatError naming what is wrong with the fence
+ */
+function parseSecureBlock(block: SecureBlock): ParsedNote {
+  const inner = block.inner;
 
   const encryptionMatch = inner.match(/##\s*Encryption\s*\n([\s\S]+?)(?=##|$)/);
   if (!encryptionMatch) {
-    return null;
+    throw new FormatError(
+      "malformed-header",
+      "The encrypted block has no Encryption section",
+    );
   }
 
   const encryptionSection = encryptionMatch[1];
 
+  const versionMatch = encryptionSection.match(/^format-version:\s*(\d+)/m);
   const modeMatch = encryptionSection.match(/mode:\s*([^\n]+)/);
-  const sizeMatch = encryptionSection.match(/size:\s*(\d+)/);
+  const sizeMatch = encryptionSection.match(/size:\s*([^\n]+)/);
+  const kdfMatch = encryptionSection.match(/^kdf:\s*([^\n]+)/m);
+  const kdfParamsMatch = encryptionSection.match(/^kdf-params:\s*([^\n]+)/m);
+  const keyMatch = encryptionSection.match(/^key:\s*([^\n]+)/m);
+  const compressionMatch = encryptionSection.match(/^compression:\s*([^\n]+)/m);
+  const paddingMatch = encryptionSection.match(/^padding:\s*([^\n]+)/m);
+  const keyslotsMatch = inner.match(/##\s*Keyslots\s*\n([\s\S]+?)(?=##|$)/);
+  const recipientsMatch = inner.match(/##\s*Recipients\s*\n([\s\S]+?)(?=##|$)/);
+  const keyslotsMacMatch = inner.match(
+    /##\s*Integrity\s*\n\s*keyslots-mac:\s*([A-Za-z0-9+/]+={0,2})\s*(?=##|$)/,
+  );
   const dataMatch = inner.match(/##\s*Data\s*\n([\s\S]+)$/);
 
-  if (!modeMatch || !sizeMatch || !dataMatch) {
-    return null;
+  if (!modeMatch || !sizeMatch) {
+    throw new FormatError(
+      "malformed-header",
+      `The Encryption section has no ${modeMatch ? "size" : "mode"} line`,
+    );
+  }
+
+  const mode = modeMatch[1].trim() as AesOptions["AesMode"];
+  if (AES_MODES.indexOf(mode) === -1) {
+    throw new FormatError(
+      "unknown-mode",
+      `Unknown cipher mode "${mode}", expected ${AES_MODES.join(", ")}`,
+    );
+  }
+
+  const size = sizeMatch[1].trim();
+  const keySize = parseInt(size) as AesOptions["KeySize"];
+  if (!/^\d+$/.test(size) || KEY_SIZES.indexOf(keySize) === -1) {
+    throw new FormatError(
+      "unsupported-key-size",
+      `Unsupported key size "${size}", expected ${KEY_SIZES.join(" or ")} bits`,
+    );
+  }
+
+  // Notes written before format-version was introduced are version 1.
+  const version = versionMatch ? parseInt(versionMatch[1]) : 1;
+  if (version < 1 || version > FORMAT_VERSION) {
+    throw new FormatError(
+      "unsupported-version",
+      `format-version ${version} is not supported, this plugin reads 1 to ${FORMAT_VERSION}`,
+    );
+  }
+
+  // Notes written before the KDF choice carry no kdf lines: PBKDF2 defaults.
+  const kdf = (kdfMatch ? kdfMatch[1].trim() : "PBKDF2") as AesOptions["Kdf"];
+  if (!(kdf in KDF_DEFAULTS)) {
+    throw new FormatError("malformed-header", `Unknown KDF "${kdf}"`);
+  }
+
+  const kdfParams = kdfParamsMatch ? parseKdfParams(kdfParamsMatch[1]) : {};
+  if (!kdfParams) {
+    throw new FormatError(
+      "malformed-header",
+      `The kdf-params line "${kdfParamsMatch[1].trim()}" cannot be read`,
+    );
+  }
+  const kdfProblem = kdfParamsProblem(kdf, kdfParams);
+  if (kdfProblem) {
+    throw new FormatError("malformed-header", kdfProblem);
+  }
+
+  const keySource = (
+    keyMatch ? keyMatch[1].trim() : "password"
+  ) as AesOptions["KeySource"];
+  const passwordSlots = keyslotsMatch ? parseKeyslots(keyslotsMatch[1]) : [];
+  const recipientSlots = recipientsMatch
+    ? parseKeyslots(recipientsMatch[1])
+    : [];
+  if (!passwordSlots || !recipientSlots) {
+    throw new FormatError(
+      "malformed-header",
+      `The ${passwordSlots ? "Recipients" : "Keyslots"} section cannot be read`,
+    );
+  }
+  const keyslots = [...passwordSlots, ...recipientSlots];
+  if (keySource === "keyslots") {
+    if (!keyslots.length || version < 3) {
+      throw new FormatError(
+        "malformed-header",
+        keyslots.length
+          ? `Keyslots need format-version 3, the block has ${version}`
+          : "The block is keyed by keyslots but has none",
+      );
+    }
+    if (!keyslotsMacMatch) {
+      throw new FormatError(
+        "malformed-header",
+        "The keyslots of the block have no keyslots-mac",
+      );
+    }
+  } else if (keySource !== "password") {
+    throw new FormatError(
+      "malformed-header",
+      `Unknown key source "${keySource}"`,
+    );
+  }
+
+  if ((compressionMatch || paddingMatch) && version < 4) {
+    throw new FormatError(
+      "malformed-header",
+      `Compression and padding need format-version 4, the block has ${version}`,
+    );
+  }
+  // Notes written before compression and padding carry no such lines.
+  const compression = (
+    compressionMatch ? compressionMatch[1].trim() : "none"
+  ) as AesOptions["Compression"];
+  if (COMPRESSION_METHODS.indexOf(compression) === -1) {
+    throw new FormatError(
+      "malformed-header",
+      `Unknown compression "${compression}"`,
+    );
+  }
+  const padding = paddingMatch ? paddingMatch[1].trim() : "none";
+  if (!isPaddingPolicy(padding)) {
+    throw new FormatError("malformed-header", `Unknown padding "${padding}"`);
+  }
+
+  const data = dataMatch ? dataMatch[1].trim() : "";
+  if (!data) {
+    throw new FormatError(
+      "missing-data",
+      "The encrypted block has no Data section",
+    );
+  }
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(data) || data.length % 4 !== 0) {
+    throw new FormatError(
+      "invalid-base64",
+      "The Data section is not valid base64, it may have been cut off or edited",
+    );
+  }
+
+  const aesOptions: AesOptions = {
+    AesMode: mode,
+    KeySize: keySize,
+    Kdf: kdf,
+    KdfParams: kdfParams,
+    Version: version,
+    KeySource: keySource,
+    Compression: compression,
+    Padding: padding,
+  };
+  const base64Padding = data.endsWith("==") ? 2 : data.endsWith("=") ? 1 : 0;
+  const length = (data.length / 4) * 3 - base64Padding;
+  if (length < envelopeOverhead(aesOptions)) {
+    throw new FormatError(
+      "payload-too-short",
+      `The payload of ${length} bytes is shorter than the ${envelopeOverhead(aesOptions)} bytes of salt, IV and tag of ${mode}`,
+    );
   }
 
   return {
-    aesOptions: {
-      AesMode: modeMatch[1].trim() as AesOptions["AesMode"],
-      KeySize: parseInt(sizeMatch[1].trim()) as AesOptions["KeySize"],
-    },
-    data: dataMatch[1].trim(),
+    id: block.id,
+    fence: fenceIdentity(block.inner),
+    text: block.text,
+    aesOptions,
+    keyslots,
+    keyslotsMac: keyslotsMacMatch ? keyslotsMacMatch[1] : "",
+    data,
   };
 }
 
 /**
- * Get Render markdown HTML using MardownIt.
+ * Decrypt the content of a parsed note with a password, either directly or
+ * through one of its keyslots.
+ * @param parsed - Parsed note from validateFormat
+ * @param passwd - Password of the note, of one of its keyslots, the vault or
+ *                 the own keypair
+ * @returns Decrypted note content
+ * @throws WrongPasswordError, IntegrityError (see decryptData)
+ */
+export async function decryptContent(
+  parsed: ParsedNote,
+  passwd: string,
+): Promise<string> {
+  if (parsed.aesOptions.KeySource === "keyslots") {
+    const hasSlot = (type: KeySlot["type"]) =>
+      parsed.keyslots.some((slot) => slot.type === type);
+    const { dataKey } = await openNoteKeyslots(parsed, passwd, {
+      vault: hasSlot("vault") ? await loadVault() : null,
+      identity: hasSlot("recipient") ? await loadIdentity() : null,
+    });
+    return decryptDataWithKey(parsed.aesOptions, parsed.data, dataKey);
+  }
+  return decryptData(parsed.aesOptions, parsed.data, passwd);
+}
+
+/**
+ * Decrypt every fence of a note body that the password opens. Fences with
+ * other passwords stay encrypted.
+ * @param body - The note body
+ * @param passwd - The password
+ * @returns The new note body and the number of fences left encrypted
+ * @throws WrongPasswordError if the password opens no fence
+ */
+export async function decryptBlocks(
+  body: string,
+  passwd: string,
+): Promise<{ body: string; remaining: number }> {
+  const blocks = validateBlocks(body);
+  let remaining = 0;
+  // Last fence first, decrypted content never comes before a fence to replace
+  for (const parsed of [...blocks].reverse()) {
+    try {
+      const content = await decryptContent(parsed, passwd);
+      body = replaceSecureBlock(body, parsed.text, content);
+    } catch (error) {
+      if (!(error instanceof WrongPasswordError)) {
+        throw error;
+      }
+      remaining++;
+    }
+  }
+  if (blocks.length && remaining === blocks.length) {
+    throw new WrongPasswordError();
+  }
+  return { body, remaining };
+}
+
+/** Start of a raw HTML tag or comment, but not of an autolink. */
+const RAW_HTML_TAG =
+  /<(?=[A-Za-z/!?])(?![A-Za-z][A-Za-z0-9+.-]*:[^\s<>]*>)(?![^\s<>@]+@[^\s<>]+>)/g;
+
+/**
+ * Escape the raw HTML of markdown so it is shown as text. Code blocks and
+ * code spans are left alone, autolinks like <https://...> keep working.
+ * @param markupContent Markdown language content
+ * @returns Markdown without raw HTML
+ */
+export function escapeRawHtml(markupContent: string): string {
+  const lines = markupContent.split("\n");
+  const code = lines.map(() => false);
+  for (const token of new MarkdownIt().parse(markupContent, {})) {
+    if ((token.type === "fence" || token.type === "code_block") && token.map) {
+      for (let i = token.map[0]; i < token.map[1]; i++) {
+        code[i] = true;
+      }
+    }
+  }
+
+  return lines
+    .map((line, i) =>
+      code[i]
+        ? line
+        : line
+            .split(/(`+[^`]*`+)/)
+            .map((part, j) =>
+              j % 2 ? part : part.replace(RAW_HTML_TAG, "&lt;"),
+            )
+            .join(""),
+    )
+    .join("\n");
+}
+
+/**
+ * Rendered markup and the styles it needs.
+ * @interface
+ */
+export interface RenderedMarkup {
+  /** Renderable HTML. */
+  html: string;
+
+  /** CSS of the renderer plugins the content uses, e.g. KaTeX. */
+  css: string[];
+}
+
+/** MarkupLanguage.Markdown of Joplin's renderer. */
+const MARKUP_MARKDOWN = 1;
+
+/**
+ * Render markdown with Joplin's own renderer, so decrypted content looks
+ * like a normal note: KaTeX, checkboxes, syntax highlighting and the rules
+ * of other markdown plugins. Falls back to a bare MarkdownIt where the
+ * renderMarkup command is not available.
  * @param markupContent Markdown language content
- * @returns Renderable HTML of the given content
+ * @returns Renderable HTML of the given content and its styles
  */
-export async function renderMarkdown(markupContent: string): Promise<string> {
+export async function renderMarkdown(
+  markupContent: string,
+): Promise<RenderedMarkup> {
+  try {
+    const result = await joplin.commands.execute(
+      "renderMarkup",
+      MARKUP_MARKDOWN,
+      markupContent,
+    );
+    if (result && typeof result.html === "string") {
+      return { html: result.html, css: rendererCss(result) };
+    }
+  } catch {
+    // Joplin versions without renderMarkup use the fallback
+  }
+
   const markdownIt = new MarkdownIt({
     linkify: true,
     breaks: true,
     html: true,
   });
-  return markdownIt.render(markupContent);
+  return { html: markdownIt.render(markupContent), css: [] };
+}
+
+/**
+ * Collect the inline styles of a render result of Joplin's renderer.
+ * @param result Result of the renderMarkup command
+ * @returns CSS strings
+ */
+function rendererCss(result: any): string[] {
+  const css: string[] = [...(result.cssStrings || [])];
+  for (const asset of result.pluginAssets || []) {
+    if (asset.mime === "text/css" && asset.inline && asset.text) {
+      css.push(asset.text);
+    }
+  }
+  return css;
 }
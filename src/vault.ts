@@ -0,0 +1,169 @@
+/*****************************************************************************
+ * @file        : src/vault.ts
+ * @description : Optional vault mode. A single random vault key, wrapped by
+ *                the vault password and kept in the plugin settings, wraps
+ *                the data keys of notes. Changing the vault password only
+ *                re-wraps the vault key. The settings are not synced, the
+ *                vault is exported and imported to use it on other devices.
+ *****************************************************************************/
+
+/** Imports */
+import joplin from "api";
+import {
+  AesOptions,
+  KDF_DEFAULTS,
+  generateDataKey,
+  kdfParamsProblem,
+  resolveKdf,
+  unwrapKey,
+  wrapKey,
+} from "./encryption";
+import { SETTINGS_MAIN } from "./index";
+
+/** Start of an exported vault. */
+const VAULT_EXPORT_PREFIX = "securenotes-vault:";
+
+/**
+ * The vault as stored in the plugin settings.
+ * @interface
+ */
+export interface Vault {
+  /** Random identifier, referenced by the vault keyslots of notes. */
+  id: string;
+
+  /** KDF used to derive the key encryption key (Kdf, KdfParams). */
+  options: AesOptions;
+
+  /** Base64 vault key wrapped by the vault password, see wrapKey. */
+  data: string;
+}
+
+/**
+ * Read the vault from the plugin settings.
+ * @returns The vault or null if none was set up
+ */
+export async function loadVault(): Promise<Vault | null> {
+  const stored = await joplin.settings.value(SETTINGS_MAIN.VAULT);
+  if (!stored) {
+    return null;
+  }
+  try {
+    return JSON.parse(stored) as Vault;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write the vault to the plugin settings.
+ * @param vault - Vault to store
+ */
+export async function saveVault(vault: Vault): Promise<void> {
+  await joplin.settings.setValue(SETTINGS_MAIN.VAULT, JSON.stringify(vault));
+}
+
+/**
+ * Export the vault for another device. The vault key stays wrapped by the
+ * vault password, the export is as safe as a note encrypted with it.
+ * @param vault - The vault
+ * @returns The vault as text
+ */
+export function exportVault(vault: Vault): string {
+  return `${VAULT_EXPORT_PREFIX}${btoa(JSON.stringify(vault))}`;
+}
+
+/**
+ * Read a vault exported by exportVault.
+ * @param text - The exported vault
+ * @returns The vault
+ * @throws Error if the text is not an exported vault
+ */
+export function importVault(text: string): Vault {
+  const trimmed = (text || "").trim();
+  let vault: any = null;
+  if (trimmed.indexOf(VAULT_EXPORT_PREFIX) === 0) {
+    try {
+      vault = JSON.parse(atob(trimmed.slice(VAULT_EXPORT_PREFIX.length)));
+    } catch {
+      vault = null;
+    }
+  }
+  if (
+    !vault ||
+    typeof vault.id !== "string" ||
+    !/^[0-9a-f]+$/.test(vault.id) ||
+    typeof vault.data !== "string" ||
+    !vault.options ||
+    !(vault.options.Kdf in KDF_DEFAULTS) ||
+    kdfParamsProblem(vault.options.Kdf, vault.options.KdfParams)
+  ) {
+    throw new Error("Not an exported vault");
+  }
+  return {
+    id: vault.id,
+    options: { Kdf: vault.options.Kdf, KdfParams: vault.options.KdfParams },
+    data: vault.data,
+  };
+}
+
+/**
+ * Create a new vault with a random vault key.
+ * @param passwd - Vault password
+ * @param options - AES options providing Kdf and KdfParams
+ * @returns The vault and its unwrapped vault key
+ */
+export async function createVault(
+  passwd: string,
+  options: AesOptions,
+): Promise<{ vault: Vault; vaultKey: Uint8Array }> {
+  const vaultKey = generateDataKey();
+  const id = Array.from(generateDataKey().slice(0, 8))
+    .map((byte) => `0${byte.toString(16)}`.slice(-2))
+    .join("");
+
+  return {
+    vault: await wrapVault(id, vaultKey, passwd, options),
+    vaultKey,
+  };
+}
+
+/**
+ * Unwrap the vault key with the vault password.
+ * @param vault - The vault
+ * @param passwd - Vault password
+ * @returns The vault key
+ * @throws WrongPasswordError if the password does not open the vault
+ * @throws Error if the KDF parameters of the vault are out of range
+ */
+export async function unlockVault(
+  vault: Vault,
+  passwd: string,
+): Promise<Uint8Array> {
+  const problem = kdfParamsProblem(vault.options.Kdf, vault.options.KdfParams);
+  if (problem) {
+    throw new Error(`The vault cannot be unlocked: ${problem}`);
+  }
+  return unwrapKey(vault.data, passwd, vault.options);
+}
+
+/**
+ * Wrap a vault key under a (new) vault password.
+ * @param id - Vault identifier
+ * @param vaultKey - The vault key
+ * @param passwd - Vault password
+ * @param options - AES options providing Kdf and KdfParams
+ * @returns The vault
+ */
+export async function wrapVault(
+  id: string,
+  vaultKey: Uint8Array,
+  passwd: string,
+  options: AesOptions,
+): Promise<Vault> {
+  const { kdf, params } = resolveKdf(options);
+  return {
+    id,
+    options: { Kdf: kdf, KdfParams: params },
+    data: await wrapKey(vaultKey, passwd, { Kdf: kdf, KdfParams: params }),
+  };
+}
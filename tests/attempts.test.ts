@@ -0,0 +1,99 @@
+/*****************************************************************************
+ * @file        : tests/attempts.test.ts
+ * @description : Wrong-password limit and the persistent exponential
+ *                lockout, kept in the in-memory settings of the API mock.
+ *****************************************************************************/
+
+/** Imports */
+import joplin from "api";
+import {
+  clearFailures,
+  formatLockout,
+  lockoutRemaining,
+  recordFailure,
+} from "../src/attempts";
+import { SETTINGS_MAIN } from "../src/index";
+
+const NOW = 1_760_000_000_000;
+const HOUR = 60 * 60 * 1000;
+
+let now = NOW;
+
+beforeEach(async () => {
+  now = NOW;
+  jest.spyOn(Date, "now").mockImplementation(() => now);
+  await joplin.settings.setValue(SETTINGS_MAIN.ATTEMPTS, "");
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+it("counts down the attempts before the first lockout", async () => {
+  expect(await recordFailure("note", 3, 30)).toEqual({
+    attemptsLeft: 2,
+    lockout: 0,
+  });
+  expect(await recordFailure("note", 3, 30)).toEqual({
+    attemptsLeft: 1,
+    lockout: 0,
+  });
+  expect(await lockoutRemaining("note")).toBe(0);
+
+  expect(await recordFailure("note", 3, 30)).toEqual({
+    attemptsLeft: 0,
+    lockout: 30_000,
+  });
+  expect(await lockoutRemaining("note")).toBe(30_000);
+});
+
+it("doubles the lockout with every further wrong password", async () => {
+  const lockouts: number[] = [];
+  for (let i = 0; i < 5; i++) {
+    lockouts.push((await recordFailure("note", 1, 30)).lockout);
+  }
+  expect(lockouts).toEqual([30_000, 60_000, 120_000, 240_000, 480_000]);
+});
+
+it("caps the lockout at 24 hours", async () => {
+  let status = await recordFailure("note", 1, 3600);
+  for (let i = 0; i < 30; i++) {
+    status = await recordFailure("note", 1, 3600);
+  }
+  expect(status.lockout).toBe(24 * HOUR);
+  expect(formatLockout(await lockoutRemaining("note"))).toBe("24h 0m");
+});
+
+it("keeps the lockout in the settings and lets it run out", async () => {
+  await recordFailure("note", 1, 60);
+  expect(
+    JSON.parse(await joplin.settings.value(SETTINGS_MAIN.ATTEMPTS)),
+  ).toEqual({ note: { failures: 1, lockedUntil: NOW + 60_000 } });
+
+  now += 45_000;
+  expect(await lockoutRemaining("note")).toBe(15_000);
+  now += 15_000;
+  expect(await lockoutRemaining("note")).toBe(0);
+});
+
+it("counts every note on its own", async () => {
+  await recordFailure("first", 1, 60);
+  expect(await lockoutRemaining("first")).toBe(60_000);
+  expect(await lockoutRemaining("second")).toBe(0);
+});
+
+it("clears the failures of a note after a correct password", async () => {
+  await recordFailure("note", 2, 60);
+  await recordFailure("other", 2, 60);
+  await recordFailure("note", 2, 60);
+  expect(await lockoutRemaining("note")).toBe(60_000);
+
+  await clearFailures("note");
+  expect(await lockoutRemaining("note")).toBe(0);
+  expect(await recordFailure("note", 2, 60)).toEqual({
+    attemptsLeft: 1,
+    lockout: 0,
+  });
+  // Other notes keep their count
+  expect((await recordFailure("other", 2, 60)).lockout).toBe(60_000);
+});
@@ -0,0 +1,49 @@
+/*****************************************************************************
+ * @file        : tests/deflate.test.ts
+ * @description : Raw DEFLATE against zlib in both directions.
+ *****************************************************************************/
+
+/** Imports */
+import { randomBytes } from "crypto";
+import { deflateRawSync, inflateRawSync } from "zlib";
+import { deflateRaw, inflateRaw } from "../src/deflate";
+
+const markdown = Buffer.from(
+  Array.from(
+    { length: 400 },
+    (_, i) => `- [ ] Task ${i % 37}: review the *notes* of week ${i % 52}\n`,
+  ).join(""),
+);
+
+const inputs: [string, Buffer][] = [
+  ["empty input", Buffer.alloc(0)],
+  ["a single byte", Buffer.from("x")],
+  ["repetitive Markdown", markdown],
+  ["random bytes", randomBytes(70_000)],
+  ["a long run", Buffer.alloc(100_000, 0x61)],
+];
+
+describe.each(inputs)("%s", (_name, input) => {
+  it("is inflated by zlib", () => {
+    expect(Buffer.compare(inflateRawSync(deflateRaw(input)), input)).toBe(0);
+  });
+
+  it.each([1, 6, 9])("inflates zlib level %i", (level) => {
+    const compressed = deflateRawSync(input, { level });
+    expect(Buffer.compare(Buffer.from(inflateRaw(compressed)), input)).toBe(0);
+  });
+});
+
+it("inflates stored blocks", () => {
+  const compressed = deflateRawSync(markdown, { level: 0 });
+  expect(Buffer.compare(Buffer.from(inflateRaw(compressed)), markdown)).toBe(0);
+});
+
+it("compresses repetitive text", () => {
+  expect(deflateRaw(markdown).length).toBeLessThan(markdown.length / 4);
+});
+
+it("rejects truncated data", () => {
+  const compressed = deflateRawSync(markdown);
+  expect(() => inflateRaw(compressed.subarray(0, 40))).toThrow();
+});
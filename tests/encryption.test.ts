@@ -0,0 +1,322 @@
+/*****************************************************************************
+ * @file        : tests/encryption.test.ts
+ * @description : Known-answer and round-trip tests of the encryption module.
+ *                Known answers come from the KDF specifications or are built
+ *                with Node's crypto, independently of the module.
+ *****************************************************************************/
+
+/** Imports */
+import {
+  createCipheriv,
+  createHash,
+  createHmac,
+  hkdfSync,
+  pbkdf2Sync,
+} from "crypto";
+import {
+  AesOptions,
+  IntegrityError,
+  WrongPasswordError,
+  decryptData,
+  deriveKey,
+  encryptData,
+} from "../src/encryption";
+
+/**
+ * Encrypt a block of zeros with a derived key, to compare it with a key
+ * given in hex.
+ * @param key - Key from deriveKey
+ * @returns Ciphertext and tag in hex
+ */
+async function fingerprint(key: CryptoKey): Promise<string> {
+  const encrypted = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv: new Uint8Array(12), tagLength: 128 },
+    key,
+    new Uint8Array(16),
+  );
+  return Buffer.from(encrypted).toString("hex");
+}
+
+/**
+ * The same as fingerprint, for a raw key with Node's crypto.
+ * @param hex - Raw AES-256 key
+ * @returns Ciphertext and tag in hex
+ */
+function expectedFingerprint(hex: string): string {
+  const cipher = createCipheriv(
+    "aes-256-gcm",
+    Buffer.from(hex, "hex"),
+    Buffer.alloc(12),
+  );
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.alloc(16)),
+    cipher.final(),
+  ]);
+  return Buffer.concat([ciphertext, cipher.getAuthTag()]).toString("hex");
+}
+
+/**
+ * Build an envelope of format-version 2 or later with Node's crypto.
+ * @param header - Encryption header, authenticated as AAD
+ * @param salt - KDF salt
+ * @param check - Key check value
+ * @param key - Raw AES key
+ * @param hmacKey - Raw HMAC key, for CBC and CTR modes
+ * @param body - Plaintext
+ * @returns The Base64 payload
+ */
+function sealWithNode(
+  header: string,
+  salt: Buffer,
+  check: Buffer,
+  key: Buffer,
+  hmacKey: Buffer | null,
+  body: string,
+): string {
+  const aad = Buffer.from(header, "utf8");
+  const mode = header.match(/^mode: AES-(\w+)$/m)[1].toLowerCase();
+  const cipherName = `aes-${key.length * 8}-${mode}`;
+
+  if (mode === "gcm") {
+    const iv = Buffer.alloc(12, 3);
+    const cipher = createCipheriv(cipherName, key, iv) as any;
+    cipher.setAAD(aad);
+    const ciphertext = Buffer.concat([cipher.update(body), cipher.final()]);
+    return Buffer.concat([
+      salt,
+      check,
+      iv,
+      cipher.getAuthTag(),
+      ciphertext,
+    ]).toString("base64");
+  }
+
+  // The low half of the counter stays clear of a carry
+  const iv = Buffer.concat([Buffer.alloc(8, 3), Buffer.alloc(8)]);
+  const cipher = createCipheriv(cipherName, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(body), cipher.final()]);
+  const aadLength = Buffer.alloc(4);
+  aadLength.writeUInt32BE(aad.length);
+  const tag = createHmac("sha256", hmacKey)
+    .update(Buffer.concat([aadLength, aad, salt, iv, ciphertext]))
+    .digest();
+  return Buffer.concat([salt, check, iv, tag, ciphertext]).toString("base64");
+}
+
+describe("key derivation", () => {
+  it("matches the PBKDF2-HMAC-SHA256 vector of RFC 7914", async () => {
+    const key = await deriveKey(
+      "passwd",
+      new TextEncoder().encode("salt"),
+      256,
+      "AES-GCM",
+      { Kdf: "PBKDF2", KdfParams: { i: 1 } },
+    );
+    expect(await fingerprint(key)).toBe(
+      expectedFingerprint(
+        "55ac046e56e3089fec1691c22544b605f94185216dde0465e68b9d57c20dacbc",
+      ),
+    );
+  });
+
+  it("matches the scrypt vector of RFC 7914", async () => {
+    const key = await deriveKey(
+      "password",
+      new TextEncoder().encode("NaCl"),
+      256,
+      "AES-GCM",
+      { Kdf: "scrypt", KdfParams: { N: 1024, r: 8, p: 16 } },
+    );
+    expect(await fingerprint(key)).toBe(
+      expectedFingerprint(
+        "fdbabe1c9d3472007856e7190d01e9fe7c6ad7cbc8237830e77376634b373162",
+      ),
+    );
+  });
+
+  it("matches the Argon2id vector of the reference implementation", async () => {
+    const key = await deriveKey(
+      "password",
+      new TextEncoder().encode("somesalt"),
+      256,
+      "AES-GCM",
+      { Kdf: "Argon2id", KdfParams: { t: 2, m: 65536, p: 1 } },
+    );
+    expect(await fingerprint(key)).toBe(
+      expectedFingerprint(
+        "09316115d5cf24ed5a15a31a3ba326e5cf32edc24702987c02b6566f61913cf7",
+      ),
+    );
+  });
+
+  it("opens a format-version 1 note built with Node's crypto", async () => {
+    const salt = Buffer.alloc(16, 7);
+    const iv = Buffer.alloc(12, 9);
+    const key = pbkdf2Sync("hunter2", salt, 1000, 32, "sha256");
+    const cipher = createCipheriv("aes-256-gcm", key, iv);
+    const ciphertext = Buffer.concat([
+      cipher.update("Legacy note", "utf8"),
+      cipher.final(),
+    ]);
+    const data = Buffer.concat([
+      salt,
+      iv,
+      cipher.getAuthTag(),
+      ciphertext,
+    ]).toString("base64");
+
+    const options: AesOptions = {
+      Version: 1,
+      AesMode: "AES-GCM",
+      KeySize: 256,
+      Kdf: "PBKDF2",
+      KdfParams: { i: 1000 },
+    };
+    expect(await decryptData(options, data, "hunter2")).toBe("Legacy note");
+  });
+});
+
+describe("round trip per KDF", () => {
+  const kdfs: AesOptions[] = [
+    { Kdf: "PBKDF2", KdfParams: { i: 1000 } },
+    { Kdf: "scrypt", KdfParams: { N: 1024, r: 8, p: 1 } },
+    { Kdf: "Argon2id", KdfParams: { t: 1, m: 64, p: 1 } },
+  ];
+
+  it.each(kdfs)("encrypts and decrypts with $Kdf", async (kdf) => {
+    const data = await encryptData(kdf, "Secret ✓", "pw");
+    expect(await decryptData(kdf, data, "pw")).toBe("Secret ✓");
+    await expect(decryptData(kdf, data, "other")).rejects.toThrow(
+      WrongPasswordError,
+    );
+  });
+});
+
+describe("format-version 2", () => {
+  const salt = Buffer.alloc(16, 5);
+  const secret = pbkdf2Sync("hunter2", salt, 1000, 32, "sha256");
+  const check = createHash("sha256")
+    .update(Buffer.concat([Buffer.from("SecureNotes key check"), secret]))
+    .digest()
+    .subarray(0, 8);
+
+  it("opens an AES-GCM note built with Node's crypto", async () => {
+    const header =
+      "format-version: 2\nmode: AES-GCM\nsize: 256\nkdf: PBKDF2\nkdf-params: i=1000";
+    const data = sealWithNode(header, salt, check, secret, null, "GCM note");
+
+    const options: AesOptions = {
+      Version: 2,
+      AesMode: "AES-GCM",
+      KeySize: 256,
+      Kdf: "PBKDF2",
+      KdfParams: { i: 1000 },
+    };
+    expect(await decryptData(options, data, "hunter2")).toBe("GCM note");
+  });
+
+  it("opens an AES-CBC note built with Node's crypto", async () => {
+    const header =
+      "format-version: 2\nmode: AES-CBC\nsize: 128\nkdf: PBKDF2\nkdf-params: i=1000";
+    const data = sealWithNode(
+      header,
+      salt,
+      check,
+      secret.subarray(0, 16),
+      secret,
+      "CBC note",
+    );
+
+    const options: AesOptions = {
+      Version: 2,
+      AesMode: "AES-CBC",
+      KeySize: 128,
+      Kdf: "PBKDF2",
+      KdfParams: { i: 1000 },
+    };
+    expect(await decryptData(options, data, "hunter2")).toBe("CBC note");
+  });
+
+  it("is read but no longer written", async () => {
+    const options: AesOptions = {
+      Version: 2,
+      Kdf: "PBKDF2",
+      KdfParams: { i: 1000 },
+    };
+    await expect(encryptData(options, "Secret", "pw")).rejects.toThrow(
+      "format-version 2 is read-only",
+    );
+  });
+});
+
+describe("format-version 3", () => {
+  const salt = Buffer.alloc(16, 6);
+  const secret = pbkdf2Sync("hunter2", salt, 1000, 32, "sha256");
+  const expand = (info: string, length: number) =>
+    Buffer.from(hkdfSync("sha256", secret, Buffer.alloc(0), info, length));
+  const check = expand("SecureNotes check", 8);
+
+  it.each([
+    ["AES-CTR", 256],
+    ["AES-CBC", 128],
+    ["AES-GCM", 128],
+  ] as const)(
+    "opens an %s-%d note built with Node's crypto",
+    async (mode, size) => {
+      const header = `format-version: 3\nmode: ${mode}\nsize: ${size}\nkdf: PBKDF2\nkdf-params: i=1000`;
+      const data = sealWithNode(
+        header,
+        salt,
+        check,
+        expand("SecureNotes aes", size / 8),
+        expand("SecureNotes hmac", 32),
+        "HKDF note",
+      );
+
+      const options: AesOptions = {
+        Version: 3,
+        AesMode: mode,
+        KeySize: size,
+        Kdf: "PBKDF2",
+        KdfParams: { i: 1000 },
+      };
+      expect(await decryptData(options, data, "hunter2")).toBe("HKDF note");
+      await expect(decryptData(options, data, "other")).rejects.toThrow(
+        WrongPasswordError,
+      );
+      // Version 2 keys come from the same KDF output without HKDF
+      await expect(
+        decryptData({ ...options, Version: 2 }, data, "hunter2"),
+      ).rejects.toThrow(WrongPasswordError);
+    },
+  );
+});
+
+describe("header authentication", () => {
+  it.each(["AES-GCM", "AES-CBC", "AES-CTR"] as const)(
+    "tells a changed header from a wrong password with %s",
+    async (mode) => {
+      const options: AesOptions = {
+        AesMode: mode,
+        KeySize: 256,
+        Kdf: "PBKDF2",
+        KdfParams: { i: 1000 },
+      };
+      const data = await encryptData(options, "Secret", "pw");
+      expect(await decryptData(options, data, "pw")).toBe("Secret");
+      await expect(decryptData(options, data, "other")).rejects.toThrow(
+        WrongPasswordError,
+      );
+
+      // The key check still passes, authentication fails
+      await expect(
+        decryptData({ ...options, KeySize: 128 }, data, "pw"),
+      ).rejects.toThrow(IntegrityError);
+      const bytes = Buffer.from(data, "base64");
+      bytes[bytes.length - 1] ^= 1;
+      await expect(
+        decryptData(options, bytes.toString("base64"), "pw"),
+      ).rejects.toThrow(IntegrityError);
+    },
+  );
+});
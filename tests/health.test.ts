@@ -0,0 +1,101 @@
+/*****************************************************************************
+ * @file        : tests/health.test.ts
+ * @description : Repairs of damaged fences from Joplin revisions. The
+ *                revision rows are taken from Joplin's revisions table, in
+ *                the JSON patch format and in the text format of older
+ *                Joplin versions.
+ *****************************************************************************/
+
+/** Imports */
+import joplin from "api";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { repairFence, scanNotes } from "../src/health";
+
+/**
+ * Load revision rows of a fixture.
+ * @param name - File name in tests/fixtures
+ * @returns The rows
+ */
+function fixture(name: string): any[] {
+  return JSON.parse(readFileSync(join(__dirname, "fixtures", name), "utf8"));
+}
+
+const revisions = fixture("revisions.json");
+const legacyRevisions = fixture("revisions-legacy.json");
+
+const NOTE_ID = "9c8b7a6f5e4d4c3b2a1908f7e6d5c4b3";
+
+/** Body of the note as of its newest revision. */
+const INTACT = `# Trip
+
+Door codes:
+
+\`\`\`SecureNotes id=0a1b2c3d
+## Info
+This is an encrypted block, use Secure Notes plugin and switch to Markdown editor's viewer layout.
+
+## Encryption
+format-version: 3
+mode: AES-GCM
+size: 256
+kdf: PBKDF2
+kdf-params: i=1000
+
+## Data
+kvU0IyfbnOH5zQPe0kK6QnbIesmhLkioXZt0eszlIYXPDcMSb3ibSOHD2/RsVXIO1MPH9pdcvMji2gkcpAzyHgeJpQ==
+\`\`\`
+
+Bring passport and tickets.
+`;
+
+/** The same body with the data cut short by a bad sync. */
+const DAMAGED = INTACT.replace("AzyHgeJpQ==", "");
+
+/**
+ * Serve a note and its revisions from the data API.
+ * @param rows - Revision rows of the note
+ * @returns Bodies put to the note
+ */
+function mockData(rows: any[]): string[] {
+  const puts: string[] = [];
+  joplin.data.get = async (path: string[]) => {
+    if (path[0] === "revisions") {
+      return { items: rows, has_more: false };
+    }
+    const note = { id: NOTE_ID, title: "Trip", body: DAMAGED };
+    return path.length > 1 ? note : { items: [note], has_more: false };
+  };
+  joplin.data.put = async (_path: string[], _query: any, data: any) => {
+    puts.push(data.body);
+  };
+  return puts;
+}
+
+describe.each([
+  ["JSON patches", revisions],
+  ["text patches", legacyRevisions],
+])("restoring from revisions with %s", (_name, rows) => {
+  it("finds the intact fence in the newest revision", async () => {
+    mockData(rows);
+    const [note] = await scanNotes();
+    expect(note.fences).toHaveLength(1);
+    expect(note.fences[0].status).not.toBe("valid");
+    expect(note.fences[0].repairs).toEqual(["revision"]);
+    expect(note.fences[0].revisionTime).toBe(1760000600000);
+  });
+
+  it("puts the intact fence back into the note", async () => {
+    const puts = mockData(rows);
+    const [note] = await scanNotes();
+    await repairFence(NOTE_ID, note.fences[0], "revision");
+    expect(puts).toEqual([INTACT]);
+  });
+});
+
+it("stops at a revision whose patch does not parse", async () => {
+  mockData([revisions[0], { ...revisions[1], body_diff: "[{not json" }]);
+  const [note] = await scanNotes();
+  // The first revision still holds the fence
+  expect(note.fences[0].revisionTime).toBe(1760000000000);
+});
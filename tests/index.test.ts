@@ -0,0 +1,82 @@
+/*****************************************************************************
+ * @file        : tests/index.test.ts
+ * @description : Viewer messages act on the rendered fence of the note shown
+ *                in the active window.
+ *****************************************************************************/
+
+/** Imports */
+import joplin from "api";
+import { AesOptions, encryptData } from "../src/encryption";
+import { fenceIdentity } from "../src/fence";
+import { handlePasswdSubmit } from "../src/index";
+import { generateEncryptedNote } from "../src/utils";
+
+const OPTIONS: AesOptions = {
+  AesMode: "AES-GCM",
+  KeySize: 256,
+  Kdf: "PBKDF2",
+  KdfParams: { i: 1000 },
+};
+
+/**
+ * Show a note in the active window. The data API is not expected to be
+ * read, the viewer's note comes from the workspace.
+ * @param body - Body of the note, null if no note is shown
+ */
+function showNote(body: string | null) {
+  joplin.workspace.selectedNote = async () =>
+    body === null ? null : { id: "shown", title: "Shown", body };
+  joplin.data.get = async (path: string[]) => {
+    throw new Error(`Unexpected read of ${path.join("/")}`);
+  };
+}
+
+describe("handlePasswdSubmit", () => {
+  let fence: string;
+  let identity: string;
+
+  beforeAll(async () => {
+    const data = await encryptData(OPTIONS, "Rendered note", "pw");
+    fence = await generateEncryptedNote(OPTIONS, data);
+    identity = fenceIdentity(fence.split("\n").slice(1, -2).join("\n"));
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("decrypts the rendered fence of the shown note", async () => {
+    showNote(`# Shown\n\n${fence}`);
+    const status = await handlePasswdSubmit("pw", identity);
+    expect(status.type).toBe("success");
+  });
+
+  it("decrypts the first fence for viewers that send no identity", async () => {
+    showNote(fence);
+    const status = await handlePasswdSubmit("pw");
+    expect(status.type).toBe("success");
+  });
+
+  it("does not decrypt another fence if the shown note changed", async () => {
+    const data = await encryptData(OPTIONS, "Other note", "pw");
+    showNote(await generateEncryptedNote(OPTIONS, data));
+    const status = await handlePasswdSubmit("pw", identity);
+    expect(status).toEqual({
+      type: "error",
+      msg: "The encrypted block was not found",
+    });
+  });
+
+  it("reports a missing fence if no note is shown", async () => {
+    showNote(null);
+    const status = await handlePasswdSubmit("pw", identity);
+    expect(status).toEqual({
+      type: "error",
+      msg: "The encrypted block was not found",
+    });
+  });
+});
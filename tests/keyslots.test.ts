@@ -0,0 +1,192 @@
+/*****************************************************************************
+ * @file        : tests/keyslots.test.ts
+ * @description : Password slots of a note. Known answers are built with
+ *                Node's crypto, independently of the module.
+ *****************************************************************************/
+
+/** Imports */
+import { createCipheriv, hkdfSync, pbkdf2Sync } from "crypto";
+import {
+  AesOptions,
+  IntegrityError,
+  WrongPasswordError,
+  decryptDataWithKey,
+  encryptDataWithKey,
+  generateDataKey,
+} from "../src/encryption";
+import {
+  createPasswordSlot,
+  formatKeyslots,
+  keyslotsMac,
+  openKeyslots,
+  parseKeyslots,
+} from "../src/keyslots";
+import {
+  FormatError,
+  decryptBlocks,
+  generateEncryptedNote,
+  parseFormat,
+} from "../src/utils";
+
+/** Data key of the known-answer note. */
+const DATA_KEY = Buffer.alloc(32, 0x42);
+
+/**
+ * Expand keys from a 256-bit secret like format-version 3.
+ * @param secret - KDF output or data key
+ * @param info - HKDF info label
+ * @param length - Length in bytes
+ * @returns The expanded key
+ */
+function expand(secret: Buffer, info: string, length = 32): Buffer {
+  return Buffer.from(hkdfSync("sha256", secret, Buffer.alloc(0), info, length));
+}
+
+/**
+ * Seal bytes with AES-256-GCM, tag appended.
+ * @param key - Raw key
+ * @param iv - 12-byte IV
+ * @param plaintext - Bytes to seal
+ * @param aad - Additional authenticated data
+ * @returns Ciphertext and tag
+ */
+function sealGcm(
+  key: Buffer,
+  iv: Buffer,
+  plaintext: Buffer,
+  aad = Buffer.alloc(0),
+): Buffer {
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  cipher.setAAD(aad);
+  return Buffer.concat([
+    cipher.update(plaintext),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+}
+
+it("opens a password slot built with Node's crypto", async () => {
+  const salt = Buffer.alloc(16, 1);
+  const iv = Buffer.alloc(12, 2);
+  const kek = expand(
+    pbkdf2Sync("slot pw", salt, 1000, 32, "sha256"),
+    "SecureNotes aes",
+  );
+  const data = Buffer.concat([salt, iv, sealGcm(kek, iv, DATA_KEY)]);
+
+  const slots = parseKeyslots(
+    `slot: id=1 type=password kdf=PBKDF2 kdf-params=i=1000 data=${data.toString("base64")} label=Personal`,
+  );
+  const { dataKey, slot } = await openKeyslots(slots, "slot pw");
+  expect(Buffer.from(dataKey)).toEqual(DATA_KEY);
+  expect(slot.label).toBe("Personal");
+});
+
+it("opens a note body encrypted with a data key by Node's crypto", async () => {
+  const key = expand(DATA_KEY, "SecureNotes aes");
+  const check = expand(DATA_KEY, "SecureNotes check", 8);
+  const iv = Buffer.alloc(12, 3);
+  const sealed = sealGcm(
+    key,
+    iv,
+    Buffer.from("Slot note"),
+    Buffer.from("format-version: 3\nmode: AES-GCM\nsize: 256\nkey: keyslots"),
+  );
+  const data = Buffer.concat([
+    Buffer.alloc(16),
+    check,
+    iv,
+    sealed.subarray(-16),
+    sealed.subarray(0, -16),
+  ]).toString("base64");
+
+  const options: AesOptions = {
+    Version: 3,
+    AesMode: "AES-GCM",
+    KeySize: 256,
+    KeySource: "keyslots",
+  };
+  expect(await decryptDataWithKey(options, data, DATA_KEY)).toBe("Slot note");
+});
+
+it("opens the note with the password of every slot", async () => {
+  const options: AesOptions = { Kdf: "PBKDF2", KdfParams: { i: 1000 } };
+  const dataKey = generateDataKey();
+  const slots = [await createPasswordSlot([], dataKey, "first", "", options)];
+  slots.push(
+    await createPasswordSlot(slots, dataKey, "second", "Team", options),
+  );
+
+  const parsed = parseKeyslots(formatKeyslots(slots));
+  expect(parsed).toEqual(slots);
+  expect(parsed.map((slot) => slot.label)).toEqual(["Slot 1", "Team"]);
+
+  const noteOptions: AesOptions = { Version: 3, KeySource: "keyslots" };
+  const data = await encryptDataWithKey(noteOptions, "Shared", dataKey);
+  for (const passwd of ["first", "second"]) {
+    const opened = await openKeyslots(parsed, passwd);
+    expect(await decryptDataWithKey(noteOptions, data, opened.dataKey)).toBe(
+      "Shared",
+    );
+  }
+  await expect(openKeyslots(parsed, "other")).rejects.toThrow(
+    WrongPasswordError,
+  );
+});
+
+describe("keyslots MAC", () => {
+  /**
+   * Encrypt a note with two password slots.
+   * @returns The fence
+   */
+  async function slotFence(): Promise<string> {
+    const options: AesOptions = { Kdf: "PBKDF2", KdfParams: { i: 1000 } };
+    const dataKey = generateDataKey();
+    const slots = [
+      await createPasswordSlot([], dataKey, "first", "Personal", options),
+    ];
+    slots.push(
+      await createPasswordSlot(slots, dataKey, "second", "Team", options),
+    );
+    const noteOptions: AesOptions = { KeySource: "keyslots" };
+    const data = await encryptDataWithKey(noteOptions, "Shared", dataKey);
+    return generateEncryptedNote(
+      noteOptions,
+      data,
+      slots,
+      null,
+      await keyslotsMac(dataKey, noteOptions, data, slots),
+    );
+  }
+
+  it("opens a note whose keyslots are unchanged", async () => {
+    const text = await slotFence();
+    expect((await decryptBlocks(text, "second")).body).toBe("Shared");
+  });
+
+  it("detects a relabelled slot", async () => {
+    const text = (await slotFence()).replace("label=Team", "label=Admin");
+    await expect(decryptBlocks(text, "first")).rejects.toThrow(IntegrityError);
+  });
+
+  it("detects reordered slots", async () => {
+    const text = (await slotFence()).replace(
+      /^(slot: id=1 .*)\n(slot: id=2 .*)$/m,
+      "$2\n$1",
+    );
+    expect(text).toMatch(/^slot: id=2 .*\nslot: id=1 /m);
+    await expect(decryptBlocks(text, "first")).rejects.toThrow(IntegrityError);
+  });
+
+  it("detects a slot added from another note", async () => {
+    const [own, other] = [await slotFence(), await slotFence()];
+    const foreign = other.match(/^slot: id=2 .*$/m)[0].replace("id=2", "id=3");
+    const text = own.replace(/(label=Team)\n/, `$1\n${foreign}\n`);
+    await expect(decryptBlocks(text, "first")).rejects.toThrow(IntegrityError);
+  });
+
+  it("rejects keyslots without a MAC", async () => {
+    const text = (await slotFence()).replace(/## Integrity\n.*\n\n/, "");
+    expect(() => parseFormat(text)).toThrow(FormatError);
+  });
+});
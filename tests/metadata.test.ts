@@ -0,0 +1,50 @@
+/*****************************************************************************
+ * @file        : tests/metadata.test.ts
+ * @description : Hidden metadata read back from decrypted content.
+ *****************************************************************************/
+
+/** Imports */
+import joplin from "api";
+import {
+  embedMetadata,
+  extractMetadata,
+  restoreMetadata,
+} from "../src/metadata";
+
+describe("restoreMetadata", () => {
+  it("only writes the hidden fields, with values of their type", async () => {
+    const puts: any[] = [];
+    joplin.data.put = async (_path: string[], _query: any, data: any) => {
+      puts.push(data);
+    };
+    joplin.data.get = async () => ({ items: [], has_more: false });
+
+    const content = embedMetadata("Body", {
+      title: "Title",
+      tags: [],
+      fields: {
+        author: "Ada",
+        latitude: "48.85",
+        longitude: { toString: "x" },
+        source_url: 42,
+        body: "Overwritten",
+        parent_id: "0123456789abcdef0123456789abcdef",
+        is_conflict: 1,
+      },
+    });
+    const { meta, body } = extractMetadata(content);
+    expect(body).toBe("Body");
+    await restoreMetadata("note", meta);
+
+    expect(puts).toEqual([{ author: "Ada", latitude: 48.85, title: "Title" }]);
+  });
+
+  it("ignores a header with a malformed title or tags", () => {
+    const content = embedMetadata("Body", {
+      title: "Title",
+      tags: [{ id: "tag" }] as any,
+      fields: {},
+    });
+    expect(extractMetadata(content).meta).toBeNull();
+  });
+});
@@ -0,0 +1,50 @@
+/*****************************************************************************
+ * @file        : tests/migrate.test.ts
+ * @description : Legacy JSON notes. The fixtures were encrypted by the
+ *                encryption module of Secure Notes 1.2.4.
+ *****************************************************************************/
+
+/** Imports */
+import { readFileSync } from "fs";
+import { join } from "path";
+import { WrongPasswordError } from "../src/encryption";
+import { decryptLegacyNote, parseLegacyNote } from "../src/migrate";
+
+const notes: { password: string; plaintext: string; body: string }[] =
+  JSON.parse(
+    readFileSync(join(__dirname, "fixtures", "legacy-notes.json"), "utf8"),
+  );
+
+describe.each(notes)("legacy note $body", ({ password, plaintext, body }) => {
+  it("decrypts with its password", async () => {
+    const legacy = parseLegacyNote(body);
+    expect(legacy).not.toBeNull();
+    expect(await decryptLegacyNote(legacy, password)).toBe(plaintext);
+  });
+
+  it("rejects another password", async () => {
+    await expect(
+      decryptLegacyNote(parseLegacyNote(body), "wrong"),
+    ).rejects.toThrow(WrongPasswordError);
+  });
+});
+
+describe("parseLegacyNote", () => {
+  const { mode, size, data } = JSON.parse(notes[0].body);
+
+  it.each([
+    ["a missing mode", { size, data }],
+    ["a missing size", { mode, data }],
+    ["an extra key", { mode, size, data, title: "Note" }],
+    ["a nested cipher", { encryption: { mode, size }, data }],
+    ["a renamed field", { aesMode: mode, size, data }],
+    ["a size as string", { mode, size: String(size), data }],
+    ["an unknown mode", { mode: "AES-ECB", size, data }],
+    [
+      "wrapped base64",
+      { mode, size, data: `${data.slice(0, 20)}\n${data.slice(20)}` },
+    ],
+  ])("rejects a body with %s", (_name, json) => {
+    expect(parseLegacyNote(JSON.stringify(json))).toBeNull();
+  });
+});
@@ -0,0 +1,41 @@
+/*****************************************************************************
+ * @file        : tests/mocks/api.ts
+ * @description : Stand-in for the Joplin plugin API in unit tests. Settings
+ *                are kept in memory, tests replace the data API methods
+ *                they need.
+ *****************************************************************************/
+
+const settings: Record<string, any> = {};
+
+const joplin: any = {
+  plugins: { register: () => undefined },
+  settings: {
+    value: async (key: string) => settings[key],
+    values: async (keys: string[]) =>
+      Object.fromEntries(keys.map((key) => [key, settings[key]])),
+    setValue: async (key: string, value: any) => {
+      settings[key] = value;
+    },
+  },
+  data: {
+    get: async () => {
+      throw new Error("joplin.data.get is not mocked");
+    },
+    put: async () => {
+      throw new Error("joplin.data.put is not mocked");
+    },
+    post: async () => {
+      throw new Error("joplin.data.post is not mocked");
+    },
+    delete: async () => {
+      throw new Error("joplin.data.delete is not mocked");
+    },
+  },
+  workspace: {
+    selectedNote: async (): Promise<any> => null,
+    selectedNoteIds: async () => [] as string[],
+  },
+  views: { dialogs: { showToast: async () => undefined } },
+};
+
+export default joplin;
@@ -0,0 +1,70 @@
+/*****************************************************************************
+ * @file        : tests/policy.test.ts
+ * @description : Auto-encryption rules matched against the notebooks and
+ *                tags of a note, served by a mocked data API.
+ *****************************************************************************/
+
+/** Imports */
+import joplin from "api";
+import { findMatchingRule, parsePolicyRules } from "../src/policy";
+
+/** Notebook tree: Vault > Banking > 2026, and Work. */
+const FOLDERS: Record<
+  string,
+  { id: string; title: string; parent_id: string }
+> = {
+  f1: { id: "f1", title: "Vault", parent_id: "" },
+  f2: { id: "f2", title: "Banking", parent_id: "f1" },
+  f3: { id: "f3", title: "2026", parent_id: "f2" },
+  f4: { id: "f4", title: "Work", parent_id: "" },
+};
+
+beforeEach(() => {
+  joplin.data.get = async (path: string[]) => {
+    if (path[0] === "folders") {
+      return FOLDERS[path[1]];
+    }
+    const tags = path[1] === "tagged" ? [{ id: "t1", title: "Private" }] : [];
+    return { items: tags, has_more: false };
+  };
+});
+
+it("parses the rules from the settings", () => {
+  expect(parsePolicyRules(" Vault, ,Work ", "Private")).toEqual([
+    { kind: "notebook", name: "vault" },
+    { kind: "notebook", name: "work" },
+    { kind: "tag", name: "private" },
+  ]);
+  expect(parsePolicyRules("", undefined)).toEqual([]);
+});
+
+it("matches a note in a sub-notebook of a rule's notebook", async () => {
+  const rules = parsePolicyRules("vault", "");
+  expect(await findMatchingRule({ id: "n1", parent_id: "f3" }, rules)).toEqual({
+    kind: "notebook",
+    name: "vault",
+  });
+  expect(await findMatchingRule({ id: "n1", parent_id: "f4" }, rules)).toBe(
+    null,
+  );
+});
+
+it("does not cover the parent notebooks of a rule's notebook", async () => {
+  const rules = parsePolicyRules("banking", "");
+  expect(
+    await findMatchingRule({ id: "n1", parent_id: "f3" }, rules),
+  ).not.toBeNull();
+  expect(await findMatchingRule({ id: "n1", parent_id: "f1" }, rules)).toBe(
+    null,
+  );
+});
+
+it("returns the first rule in the order of the settings", async () => {
+  const rules = parsePolicyRules("work, 2026", "private");
+  expect(
+    await findMatchingRule({ id: "tagged", parent_id: "f3" }, rules),
+  ).toEqual({ kind: "notebook", name: "2026" });
+  expect(
+    await findMatchingRule({ id: "tagged", parent_id: "f1" }, rules),
+  ).toEqual({ kind: "tag", name: "private" });
+});
@@ -0,0 +1,102 @@
+/*****************************************************************************
+ * @file        : tests/recipients.test.ts
+ * @description : Public-key recipients: wrapping a data key for a teammate's
+ *                P-256 key and opening it through a recipient slot.
+ *****************************************************************************/
+
+/** Imports */
+import { createCipheriv, createECDH, createHash, hkdfSync } from "crypto";
+import {
+  AesOptions,
+  WrongPasswordError,
+  generateDataKey,
+  generateKeyPair,
+  unwrapKeyFromSender,
+  wrapKeyForRecipient,
+} from "../src/encryption";
+import { createRecipientSlot, openKeyslots } from "../src/keyslots";
+import { createIdentity, importContact } from "../src/recipients";
+
+const OPTIONS: AesOptions = { Kdf: "PBKDF2", KdfParams: { i: 1000 } };
+
+it("unwraps a data key wrapped with Node's crypto", async () => {
+  const { publicKey, privateKey } = await generateKeyPair();
+  const dataKey = Buffer.alloc(32, 0x24);
+
+  // Sender side: ephemeral ECDH, HKDF, AES-256-GCM
+  const ephemeral = createECDH("prime256v1");
+  ephemeral.generateKeys();
+  const shared = ephemeral.computeSecret(Buffer.from(publicKey, "base64"));
+  const kek = Buffer.from(
+    hkdfSync("sha256", shared, Buffer.alloc(0), "SecureNotes aes", 32),
+  );
+  const iv = Buffer.alloc(12, 5);
+  const cipher = createCipheriv("aes-256-gcm", kek, iv);
+  const data = Buffer.concat([
+    iv,
+    cipher.update(dataKey),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]).toString("base64");
+
+  const unwrapped = await unwrapKeyFromSender(
+    data,
+    ephemeral.getPublicKey().toString("base64"),
+    privateKey,
+  );
+  expect(Buffer.from(unwrapped)).toEqual(dataKey);
+});
+
+it("wraps a data key that only the recipient's private key opens", async () => {
+  const recipient = await generateKeyPair();
+  const other = await generateKeyPair();
+  const dataKey = generateDataKey();
+
+  const { epk, data } = await wrapKeyForRecipient(dataKey, recipient.publicKey);
+  expect(await unwrapKeyFromSender(data, epk, recipient.privateKey)).toEqual(
+    dataKey,
+  );
+  await expect(
+    unwrapKeyFromSender(data, epk, other.privateKey),
+  ).rejects.toThrow(WrongPasswordError);
+});
+
+it("opens a recipient slot with the passphrase of the own keypair", async () => {
+  const identity = await createIdentity("passphrase", OPTIONS);
+  const contact = await importContact("Alice", identity.publicKey);
+  expect(contact.fingerprint).toBe(identity.fingerprint);
+  expect(contact.fingerprint).toBe(
+    createHash("sha256")
+      .update(Buffer.from(identity.publicKey, "base64"))
+      .digest("hex")
+      .slice(0, 16),
+  );
+
+  const dataKey = generateDataKey();
+  const slots = [await createRecipientSlot([], dataKey, contact)];
+  const opened = await openKeyslots(slots, "passphrase", { identity });
+  expect(opened.dataKey).toEqual(dataKey);
+  expect(opened.slot.label).toBe("Alice");
+
+  await expect(openKeyslots(slots, "other", { identity })).rejects.toThrow(
+    WrongPasswordError,
+  );
+});
+
+it("does not open a slot of another recipient", async () => {
+  const alice = await createIdentity("alice", OPTIONS);
+  const contact = await importContact("Alice", alice.publicKey);
+  const slots = [await createRecipientSlot([], generateDataKey(), contact)];
+
+  const bob = await createIdentity("bob", OPTIONS);
+  await expect(openKeyslots(slots, "bob", { identity: bob })).rejects.toThrow(
+    WrongPasswordError,
+  );
+
+  // The slot names Alice's key, Bob's private key cannot open it either
+  await expect(
+    openKeyslots(slots, "bob", {
+      identity: { ...bob, fingerprint: alice.fingerprint },
+    }),
+  ).rejects.toThrow(WrongPasswordError);
+});
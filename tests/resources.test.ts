@@ -0,0 +1,162 @@
+/*****************************************************************************
+ * @file        : tests/resources.test.ts
+ * @description : Encrypted attachments, kept in an in-memory resource store
+ *                behind the mocked data API.
+ *****************************************************************************/
+
+/** Imports */
+import joplin from "api";
+import { ModelType } from "api/types";
+import { randomBytes } from "crypto";
+import { promises as fs, mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  encryptResources,
+  inlineResources,
+  parseDownloadLink,
+  restoreResources,
+} from "../src/resources";
+
+/**
+ * A resource of the mocked store.
+ * @interface
+ */
+interface StoredResource {
+  title: string;
+  mime: string;
+  filename: string;
+  bytes: Buffer;
+  notes: string[];
+}
+
+const IMAGE = "a".repeat(32);
+const DOCUMENT = "b".repeat(32);
+const SHARED = "c".repeat(32);
+
+const dataDir = mkdtempSync(join(tmpdir(), "securenotes-"));
+
+let store: Record<string, StoredResource>;
+
+afterAll(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  store = {
+    [IMAGE]: {
+      title: "Scan",
+      mime: "image/png",
+      filename: "scan.png",
+      bytes: randomBytes(300),
+      notes: ["note"],
+    },
+    [DOCUMENT]: {
+      title: "Contract",
+      mime: "application/pdf",
+      filename: "contract.pdf",
+      bytes: randomBytes(500),
+      notes: ["note"],
+    },
+    [SHARED]: {
+      title: "Logo",
+      mime: "image/png",
+      filename: "logo.png",
+      bytes: randomBytes(100),
+      notes: ["note", "other"],
+    },
+  };
+
+  joplin.plugins.dataDir = async () => dataDir;
+  joplin.require = () => ({
+    writeFile: fs.writeFile,
+    remove: (path: string) => fs.rm(path, { force: true }),
+  });
+  joplin.data.itemType = async (id: string) =>
+    store[id] ? ModelType.Resource : ModelType.Note;
+  joplin.data.get = async (path: string[]) => {
+    const resource = store[path[1]];
+    if (path[2] === "notes") {
+      return {
+        items: resource.notes.map((id) => ({ id })),
+        has_more: false,
+      };
+    }
+    return path[2] === "file" ? { body: resource.bytes } : resource;
+  };
+  joplin.data.post = async (
+    _path: string[],
+    _query: any,
+    meta: any,
+    files: { path: string }[],
+  ) => {
+    const id = randomBytes(16).toString("hex");
+    store[id] = { ...meta, bytes: readFileSync(files[0].path), notes: [] };
+    return { id };
+  };
+});
+
+it("restores the attachments of a decrypted body", async () => {
+  const body = `![Scan](:/${IMAGE})\n[Contract](:/${DOCUMENT})\n![Scan](:/${IMAGE})`;
+  const encrypted = await encryptResources("note", body);
+  expect(encrypted.originals).toEqual([IMAGE, DOCUMENT]);
+  expect(encrypted.shared).toBe(0);
+  expect(encrypted.body).toMatch(
+    /^!\[Scan\]\(:\/([0-9a-f]{32})#sn=[0-9a-f]{64}\)\n\[Contract\]\(:\/[0-9a-f]{32}#sn=[0-9a-f]{64}\)\n!\[Scan\]\(:\/\1#sn=/,
+  );
+
+  const restored = await restoreResources(encrypted.body);
+  expect(restored.encrypted).toHaveLength(2);
+  const ids = restored.body
+    .match(/:\/[0-9a-f]{32}\)/g)
+    .map((link) => link.slice(2, -1));
+  expect(restored.body).toBe(
+    `![Scan](:/${ids[0]})\n[Contract](:/${ids[1]})\n![Scan](:/${ids[0]})`,
+  );
+  for (const [id, original] of [
+    [ids[0], IMAGE],
+    [ids[1], DOCUMENT],
+  ]) {
+    const { bytes, notes, ...meta } = store[original];
+    expect(store[id]).toMatchObject(meta);
+    expect(store[id].bytes).toEqual(bytes);
+  }
+});
+
+it("leaves attachments of other notes alone", async () => {
+  const body = `![Logo](:/${SHARED})`;
+  const encrypted = await encryptResources("note", body);
+  expect(encrypted).toEqual({ body, originals: [], shared: 1 });
+});
+
+it("inlines images and links other files for the viewer", async () => {
+  const { body } = await encryptResources(
+    "note",
+    `![Scan](:/${IMAGE}) [Contract](:/${DOCUMENT})`,
+  );
+  const [, documentLink] = body.match(/:\/[0-9a-f]{32}#sn=[0-9a-f]{64}/g);
+  const [id, key] = documentLink.slice(2).split("#sn=");
+
+  const inlined = await inlineResources(body);
+  const [, image, download] = inlined.match(
+    /^!\[Scan\]\((.*)\) \[Contract\]\(#sn-resource=(.*)\)$/,
+  );
+  expect(image).toBe(
+    `data:image/png;base64,${store[IMAGE].bytes.toString("base64")}`,
+  );
+  expect(parseDownloadLink(download)).toEqual({ id, key });
+
+  // A wrong key leaves a marker instead of failing the whole note
+  const wrongKey = body.replace(/#sn=[0-9a-f]{64}/g, `#sn=${"0".repeat(64)}`);
+  expect(await inlineResources(wrongKey)).toBe(
+    "![Scan](#sn-resource-missing) [Contract](#sn-resource-missing)",
+  );
+});
+
+it("refuses download links the plugin did not write", () => {
+  const id = DOCUMENT;
+  const key = "0".repeat(64);
+  expect(parseDownloadLink(`${id}:${key}`)).toBeNull();
+  expect(parseDownloadLink(`${"1".repeat(32)}:${id}:${key}`)).toBeNull();
+  expect(parseDownloadLink("")).toBeNull();
+});
@@ -0,0 +1,129 @@
+/*****************************************************************************
+ * @file        : tests/rotation.test.ts
+ * @description : Bulk password rotation state, kept in the in-memory
+ *                settings of the API mock, and resuming a rotation that
+ *                stopped part way.
+ *****************************************************************************/
+
+/** Imports */
+import joplin from "api";
+import { AesOptions, encryptData } from "../src/encryption";
+import { SETTINGS_MAIN } from "../src/index";
+import { rekeyBody } from "../src/rekey";
+import {
+  RotationState,
+  loadRotation,
+  markRotated,
+  saveRotation,
+} from "../src/rotation";
+import { decryptBlocks, generateEncryptedNote } from "../src/utils";
+
+const OPTIONS: AesOptions = { Kdf: "PBKDF2", KdfParams: { i: 1000 } };
+
+/**
+ * Encrypt a note body.
+ * @param content - Plain content
+ * @param passwd - Password
+ * @returns Body holding one fence
+ */
+async function encryptedBody(content: string, passwd: string): Promise<string> {
+  const data = await encryptData(OPTIONS, content, passwd);
+  return `# ${content}\n\n${await generateEncryptedNote(OPTIONS, data)}`;
+}
+
+/**
+ * Try a note of the rotation like the rotate command: re-encrypt it if the
+ * old password opens it, or count it rotated if it is the note the rotation
+ * stopped at and already opens with the new password.
+ * @param notes - Note bodies by id, updated in place
+ * @param state - The rotation state
+ * @param noteId - Id of the note
+ * @param interrupted - Id of the note the rotation stopped at
+ */
+async function rotateNote(
+  notes: Record<string, string>,
+  state: RotationState,
+  noteId: string,
+  interrupted: string | null = null,
+): Promise<void> {
+  const { body, changed } = await rekeyBody(notes[noteId], "old", "new");
+  let rotated = changed > 0;
+  if (rotated) {
+    notes[noteId] = body;
+  } else if (noteId === interrupted) {
+    rotated = await decryptBlocks(notes[noteId], "new").then(
+      () => true,
+      () => false,
+    );
+  }
+  await markRotated(state, noteId, rotated);
+}
+
+beforeEach(async () => {
+  await saveRotation(null);
+});
+
+it("has no rotation in progress by default", async () => {
+  expect(await loadRotation()).toBeNull();
+});
+
+it.each([
+  ["text that is not JSON", "{"],
+  ["a state without lists", JSON.stringify({ pending: "a" })],
+])("ignores %s in the settings", async (_name, stored) => {
+  await joplin.settings.setValue(SETTINGS_MAIN.ROTATION, stored);
+  expect(await loadRotation()).toBeNull();
+});
+
+it("saves the progress after every note", async () => {
+  const state: RotationState = { pending: ["a", "b", "c"], rotated: [] };
+  await saveRotation(state);
+  await markRotated(state, "a", true);
+  await markRotated(state, "b", false);
+
+  expect(await loadRotation()).toEqual({ pending: ["c"], rotated: ["a"] });
+});
+
+it("resumes a rotation after a partial run", async () => {
+  const notes: Record<string, string> = {
+    a: await encryptedBody("First", "old"),
+    b: await encryptedBody("Second", "old"),
+    c: await encryptedBody("Third", "old"),
+    d: await encryptedBody("Other", "other"),
+  };
+  const state: RotationState = { pending: ["a", "b", "c", "d"], rotated: [] };
+  await saveRotation(state);
+
+  // First run: a is rotated, b is saved but the run stops before its
+  // progress is recorded
+  await rotateNote(notes, state, "a");
+  notes.b = (await rekeyBody(notes.b, "old", "new")).body;
+
+  const resumed = await loadRotation();
+  expect(resumed).toEqual({ pending: ["b", "c", "d"], rotated: ["a"] });
+
+  const interrupted = resumed.pending[0];
+  for (const noteId of [...resumed.pending]) {
+    await rotateNote(notes, resumed, noteId, interrupted);
+  }
+  expect(await loadRotation()).toEqual({
+    pending: [],
+    rotated: ["a", "b", "c"],
+  });
+
+  for (const [noteId, content] of [
+    ["a", "First"],
+    ["b", "Second"],
+    ["c", "Third"],
+  ]) {
+    expect((await decryptBlocks(notes[noteId], "new")).body).toBe(
+      `# ${content}\n\n${content}\n`,
+    );
+  }
+  expect((await decryptBlocks(notes.d, "other")).body).toBe(
+    "# Other\n\nOther\n",
+  );
+
+  await saveRotation(null);
+  expect(await loadRotation()).toBeNull();
+});
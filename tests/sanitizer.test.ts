@@ -0,0 +1,216 @@
+/**
+ * @jest-environment jsdom
+ */
+
+/*****************************************************************************
+ * @file        : tests/sanitizer.test.ts
+ * @description : Allowlist sanitiser of decrypted HTML and the viewer
+ *                runtime that shows its result, loaded into jsdom as the
+ *                viewer loads them.
+ *****************************************************************************/
+
+/** Imports */
+import { readFileSync } from "fs";
+import { join } from "path";
+
+/**
+ * Functions of the viewer scripts under test.
+ * @interface
+ */
+interface ViewerScripts {
+  sanitizeHtml(html: string): { nodes: Node[]; blocked: string[] };
+  describeBlocked(blocked: string[]): string;
+  showUnlocked(container: HTMLElement, status: any): void;
+}
+
+const postMessage = jest.fn();
+
+/**
+ * Load the sanitiser and the runtime like content scripts of the viewer.
+ * @returns Their functions
+ */
+function loadScripts(): ViewerScripts {
+  const source = ["sanitizer.js", "runtime.js"]
+    .map((name) =>
+      readFileSync(
+        join(__dirname, "..", "src", "contentScripts", name),
+        "utf8",
+      ),
+    )
+    .join("\n");
+  return new Function(
+    "webviewApi",
+    `${source}\nreturn { sanitizeHtml, describeBlocked, showUnlocked };`,
+  )({ postMessage });
+}
+
+jest.useFakeTimers();
+const scripts = loadScripts();
+
+/**
+ * Sanitise HTML into a detached element.
+ * @param html - Decrypted HTML
+ * @returns The sanitised HTML and what was removed
+ */
+function sanitize(html: string): { html: string; blocked: string[] } {
+  const { nodes, blocked } = scripts.sanitizeHtml(html);
+  const root = document.createElement("div");
+  root.append(...nodes);
+  return { html: root.innerHTML, blocked };
+}
+
+beforeEach(() => {
+  postMessage.mockReset();
+  postMessage.mockResolvedValue({ type: "success", msg: 1 });
+});
+
+afterEach(() => {
+  jest.clearAllTimers();
+  document.body.innerHTML = "";
+});
+
+describe("sanitizeHtml", () => {
+  it("keeps the allowlisted Markdown output", () => {
+    const html =
+      '<h1 id="top">Title</h1><p><a href="https://example.com">Link</a> <img src="data:image/png;base64,AAAA" alt="Scan"></p>';
+    expect(sanitize(html)).toEqual({ html, blocked: [] });
+  });
+
+  it("removes scripts with their content", () => {
+    expect(sanitize("<p>Text</p><script>alert(1)</script>")).toEqual({
+      html: "<p>Text</p>",
+      blocked: ["<script>"],
+    });
+  });
+
+  it("removes event handler attributes", () => {
+    expect(
+      sanitize('<img src="data:image/png;base64,AAAA" onerror="alert(1)">'),
+    ).toEqual({
+      html: '<img src="data:image/png;base64,AAAA">',
+      blocked: ["onerror attribute"],
+    });
+    expect(sanitize('<p onclick="alert(1)">Text</p>').blocked).toEqual([
+      "onclick attribute",
+    ]);
+  });
+
+  it.each([
+    ["javascript:", "javascript:alert(1)"],
+    ["javascript: with control characters", "java\tscript:alert(1)"],
+    ["data:text/html", "data:text/html;base64,PHNjcmlwdD4="],
+  ])("removes %s links", (_name, url) => {
+    expect(sanitize(`<a href="${url}">Link</a>`)).toEqual({
+      html: "<a>Link</a>",
+      blocked: ["href attribute"],
+    });
+  });
+
+  it("removes unsafe links of SVG elements", () => {
+    const { html, blocked } = sanitize(
+      '<svg><use href="#shape"></use><a xlink:href="javascript:alert(1)"><text>Click</text></a></svg>',
+    );
+    expect(html).toBe("<svg><a><text>Click</text></a></svg>");
+    expect(blocked).toEqual(["<use>", "xlink:href attribute"]);
+  });
+
+  it("removes style sheets and styles loading URLs", () => {
+    expect(
+      sanitize(
+        '<style>body { background: url(https://example.com/t) }</style><p style="background: url(https://example.com/t)">Text</p><p style="color: red">Red</p>',
+      ),
+    ).toEqual({
+      html: '<p>Text</p><p style="color: red">Red</p>',
+      blocked: ["<style>", "style attribute"],
+    });
+  });
+
+  it("removes the class names of the plugin's controls", () => {
+    const { html, blocked } = sanitize(
+      '<span class="sn-secret note" data-secret="x"><button class="sn-secret-reveal">👁</button></span><button class="md-edit-btn">Edit</button>',
+    );
+    expect(html).toBe(
+      '<span class="note" data-secret="x"><button>👁</button></span><button>Edit</button>',
+    );
+    expect(blocked).toEqual(["plugin class", "plugin class", "plugin class"]);
+  });
+
+  it("keeps the metadata header of the plugin", () => {
+    const html =
+      '<div class="sn-meta"><h1 class="sn-meta-title">Title</h1></div>';
+    expect(sanitize(html)).toEqual({ html, blocked: [] });
+  });
+
+  it("summarises what was removed", () => {
+    const { blocked } = sanitize(
+      '<script></script><script></script><p onclick="x">Text</p>',
+    );
+    expect(scripts.describeBlocked(blocked)).toBe(
+      "<script> ×2, onclick attribute",
+    );
+  });
+});
+
+describe("viewer", () => {
+  /**
+   * Add an encrypted note container like the SecureView renderer.
+   * @returns The container
+   */
+  function addContainer(): HTMLElement {
+    document.body.innerHTML = `
+      <div class="sn-md" data-fence="f" data-cs-id="cs">
+        <div class="md-lock"><button class="md-lock-btn">Unlock</button></div>
+        <div class="md-unlock">
+          <div class="md-unlock-info">
+            <button class="md-edit-btn">Edit securely</button>
+          </div>
+          <div class="md-unlock-blocked"></div>
+          <div class="md-unlock-box"><div class="md-unlock-content"></div></div>
+        </div>
+      </div>`;
+    return document.querySelector(".sn-md");
+  }
+
+  it("shows the user what was removed", () => {
+    const container = addContainer();
+    scripts.showUnlocked(container, {
+      msg: '<p onclick="alert(1)">Text</p><script>alert(1)</script>',
+      css: [],
+      session: 1,
+    });
+
+    expect(container.querySelector(".md-unlock-content").innerHTML).toBe(
+      "<p>Text</p>",
+    );
+    const notice = container.querySelector<HTMLElement>(".md-unlock-blocked");
+    expect(notice.textContent).toBe(
+      "⚠ Unsafe content was removed: onclick attribute, <script>",
+    );
+    expect(notice.style.display).toBe("block");
+  });
+
+  it("hides the notice if nothing was removed", () => {
+    const container = addContainer();
+    scripts.showUnlocked(container, { msg: "<p>Text</p>", session: 1 });
+    const notice = container.querySelector<HTMLElement>(".md-unlock-blocked");
+    expect(notice.textContent).toBe("");
+    expect(notice.style.display).toBe("none");
+  });
+
+  it("ignores controls inside the decrypted content", () => {
+    const container = addContainer();
+    container.querySelector(".md-unlock-content").innerHTML =
+      '<span class="sn-secret" data-cs-id="cs" data-secret="x"><button class="sn-secret-reveal">👁</button></span><button class="md-edit-btn">Edit</button>';
+
+    container
+      .querySelectorAll<HTMLElement>(".md-unlock-content button")
+      .forEach((button) => button.click());
+    expect(postMessage).not.toHaveBeenCalled();
+
+    container.querySelector<HTMLElement>(".md-unlock-info button").click();
+    expect(postMessage).toHaveBeenCalledWith("cs", {
+      type: "editSecurely",
+      fence: "f",
+    });
+  });
+});
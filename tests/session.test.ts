@@ -0,0 +1,105 @@
+/*****************************************************************************
+ * @file        : tests/session.test.ts
+ * @description : Session cache of unlocked keys: reuse, idle expiry and
+ *                locking.
+ *****************************************************************************/
+
+/** Imports */
+import { AesOptions, encryptData } from "../src/encryption";
+import {
+  cachedVaultKey,
+  configureSession,
+  lockSession,
+  onSessionLock,
+  rememberVaultKey,
+  sessionGeneration,
+  sessionNoteKeys,
+  touchSession,
+  unlockNote,
+  unlockNoteFromSession,
+} from "../src/session";
+import { ParsedNote, generateEncryptedNote, parseFormat } from "../src/utils";
+
+const OPTIONS: AesOptions = { Kdf: "PBKDF2", KdfParams: { i: 1000 } };
+
+/**
+ * Encrypt a note and parse its fence.
+ * @param content - Plain content
+ * @returns The parsed fence
+ */
+async function encryptedNote(content: string): Promise<ParsedNote> {
+  const data = await encryptData(OPTIONS, content, "pw");
+  return parseFormat(await generateEncryptedNote(OPTIONS, data));
+}
+
+afterEach(() => {
+  configureSession(0);
+  lockSession();
+  jest.useRealTimers();
+});
+
+it("reopens an unlocked note without the password", async () => {
+  const parsed = await encryptedNote("Cached");
+  expect(await unlockNoteFromSession(parsed)).toBeNull();
+
+  expect(await unlockNote(parsed, "pw")).toBe("Cached");
+  expect(sessionNoteKeys(parsed)).not.toBeNull();
+  expect(await unlockNoteFromSession(parsed)).toBe("Cached");
+});
+
+it("locks after the idle timeout", async () => {
+  const parsed = await encryptedNote("Idle");
+  await unlockNote(parsed, "pw");
+  rememberVaultKey("ab", new Uint8Array(32).fill(7));
+
+  jest.useFakeTimers({ doNotFake: ["nextTick", "queueMicrotask"] });
+  configureSession(5);
+  jest.advanceTimersByTime(4 * 60 * 1000);
+  // Using a key restarts the idle timer
+  touchSession();
+  jest.advanceTimersByTime(4 * 60 * 1000);
+  expect(sessionNoteKeys(parsed)).not.toBeNull();
+
+  jest.advanceTimersByTime(60 * 1000);
+  expect(sessionNoteKeys(parsed)).toBeNull();
+  expect(cachedVaultKey("ab")).toBeNull();
+});
+
+it("keeps keys without a timeout until the session is locked", async () => {
+  const parsed = await encryptedNote("Kept");
+  await unlockNote(parsed, "pw");
+
+  jest.useFakeTimers({ doNotFake: ["nextTick", "queueMicrotask"] });
+  configureSession(0);
+  jest.advanceTimersByTime(24 * 60 * 60 * 1000);
+  expect(sessionNoteKeys(parsed)).not.toBeNull();
+});
+
+it("forgets note and vault keys when the session is locked", async () => {
+  const parsed = await encryptedNote("Locked");
+  await unlockNote(parsed, "pw");
+  const vaultKey = new Uint8Array(32).fill(7);
+  rememberVaultKey("ab", vaultKey);
+  expect(cachedVaultKey("ab")).toEqual(vaultKey);
+
+  const listener = jest.fn();
+  onSessionLock(listener);
+  const generation = sessionGeneration();
+  lockSession();
+
+  expect(sessionNoteKeys(parsed)).toBeNull();
+  expect(await unlockNoteFromSession(parsed)).toBeNull();
+  expect(cachedVaultKey("ab")).toBeNull();
+  expect(listener).toHaveBeenCalledTimes(1);
+  expect(sessionGeneration()).toBe(generation + 1);
+});
+
+it("wipes the cached vault key bytes on lock", async () => {
+  const fills = jest.spyOn(Uint8Array.prototype, "fill");
+  rememberVaultKey("ab", new Uint8Array(32).fill(7));
+  fills.mockClear();
+
+  lockSession();
+  expect(fills).toHaveBeenCalledWith(0);
+  fills.mockRestore();
+});
@@ -0,0 +1,273 @@
+/*****************************************************************************
+ * @file        : tests/utils.test.ts
+ * @description : Fences of note bodies and inline secrets: generating,
+ *                parsing and replacing.
+ *****************************************************************************/
+
+/** Imports */
+import {
+  AesOptions,
+  IntegrityError,
+  WrongPasswordError,
+  decryptData,
+  encryptData,
+  encryptDataWithKey,
+  envelopeOverhead,
+  generateDataKey,
+} from "../src/encryption";
+import { createVaultSlot, keyslotsMac, parseKeyslots } from "../src/keyslots";
+import { rekeyBody } from "../src/rekey";
+import { unlockNote } from "../src/session";
+import {
+  FormatError,
+  decryptBlocks,
+  generateEncryptedNote,
+  generateInlineSecret,
+  parseFormat,
+  parseInlineSecret,
+  replaceSecureBlock,
+  validateBlocks,
+} from "../src/utils";
+import { createVault, saveVault } from "../src/vault";
+
+const OPTIONS: AesOptions = {
+  AesMode: "AES-GCM",
+  KeySize: 256,
+  Kdf: "PBKDF2",
+  KdfParams: { i: 1000 },
+};
+
+/**
+ * Encrypt content into a fence.
+ * @param content - Plain content
+ * @param passwd - Password
+ * @param blockId - Id of the fence
+ * @param options - Cipher options
+ * @returns The fence without its trailing newline
+ */
+async function fence(
+  content: string,
+  passwd: string,
+  blockId: string | null = null,
+  options: AesOptions = OPTIONS,
+): Promise<string> {
+  const data = await encryptData(options, content, passwd);
+  return (await generateEncryptedNote(options, data, [], blockId)).replace(
+    /\n$/,
+    "",
+  );
+}
+
+describe("fence round trip", () => {
+  it("parses a generated fence back", async () => {
+    const text = await fence("Content", "pw", "00ff");
+    const parsed = parseFormat(`Before\n\n${text}\n\nAfter`, "00ff");
+    expect(parsed.id).toBe("00ff");
+    expect(parsed.text).toBe(text);
+    expect(parsed.aesOptions).toMatchObject(OPTIONS);
+  });
+});
+
+describe("fences without id", () => {
+  it("replaces the fence it was given, not the first one", async () => {
+    const first = await fence("First", "one");
+    const second = await fence("Second", "two");
+    const body = `${first}\n\nMiddle\n\n${second}\n`;
+
+    const [, parsed] = validateBlocks(body);
+    expect(replaceSecureBlock(body, parsed.text, "Replaced")).toBe(
+      `${first}\n\nMiddle\n\nReplaced\n`,
+    );
+  });
+
+  it("decrypts only the fence the password opens", async () => {
+    const first = await fence("First", "one");
+    const second = await fence("Second", "two");
+    const result = await decryptBlocks(`${first}\n\n${second}\n`, "two");
+    expect(result).toEqual({ body: `${first}\n\nSecond\n`, remaining: 1 });
+  });
+
+  it("decrypts every fence a shared password opens", async () => {
+    const first = await fence("First", "pw");
+    const second = await fence(`Quoted:\n\n${first}`, "pw");
+    const result = await decryptBlocks(`${first}\n\n${second}\n`, "pw");
+    expect(result.body).toBe(`First\n\nQuoted:\n\n${first}\n`);
+  });
+
+  it("rekeys only the fence the old password opens", async () => {
+    const first = await fence("First", "one");
+    const second = await fence("Second", "two");
+    const result = await rekeyBody(`${first}\n\n${second}\n`, "two", "new");
+    expect(result.changed).toBe(1);
+
+    const [kept, rekeyed] = validateBlocks(result.body);
+    expect(kept.text).toBe(first);
+    expect((await decryptBlocks(rekeyed.text, "new")).body).toBe("Second");
+    await expect(decryptBlocks(rekeyed.text, "two")).rejects.toThrow(
+      WrongPasswordError,
+    );
+  });
+});
+
+describe("compressed and padded fences", () => {
+  const COMPRESSED: AesOptions = {
+    ...OPTIONS,
+    Compression: "deflate",
+    Padding: "pow2",
+  };
+  const content = "A line of a long note.\n".repeat(500);
+
+  it("round trips with format-version 4", async () => {
+    const text = await fence(content, "pw", null, COMPRESSED);
+    const parsed = parseFormat(text);
+    expect(parsed.aesOptions).toMatchObject({
+      Version: 4,
+      Compression: "deflate",
+      Padding: "pow2",
+    });
+    expect((await decryptBlocks(text, "pw")).body).toBe(content);
+  });
+
+  it.each([
+    ["pow2", "x", 256],
+    ["pow2", "x".repeat(300), 512],
+    ["block-1024", "x", 1024],
+    ["block-1024", "x".repeat(1021), 2048],
+  ])("pads with %s to the expected length", async (policy, plain, length) => {
+    const options: AesOptions = { ...OPTIONS, Padding: policy as any };
+    const data = await encryptData(options, plain, "pw");
+    expect(Buffer.from(data, "base64").length).toBe(
+      envelopeOverhead({ ...options, Version: 4 }) + length,
+    );
+  });
+
+  it("rejects compression in a format-version 3 header", async () => {
+    const text = (await fence(content, "pw", null, COMPRESSED)).replace(
+      "format-version: 4",
+      "format-version: 3",
+    );
+    expect(() => parseFormat(text)).toThrow(FormatError);
+  });
+
+  it("authenticates the padding line", async () => {
+    const text = (await fence("Short", "pw", null, COMPRESSED)).replace(
+      "\npadding: pow2",
+      "\npadding: block-16",
+    );
+    await expect(decryptBlocks(text, "pw")).rejects.toThrow(IntegrityError);
+  });
+});
+
+describe("KDF cost parameters", () => {
+  it.each([
+    ["PBKDF2", "i=0"],
+    ["PBKDF2", "i=100000000"],
+    ["scrypt", "N=1000,r=8,p=1"],
+    ["scrypt", "N=1048576,r=8,p=1"],
+    ["scrypt", "N=16384,r=8,p=0"],
+    ["Argon2id", "t=2,m=4194304,p=1"],
+    ["Argon2id", "t=2,m=16,p=4"],
+  ])("rejects %s with %s", async (kdf, params) => {
+    const text = (await fence("Content", "pw")).replace(
+      "kdf: PBKDF2\nkdf-params: i=1000",
+      `kdf: ${kdf}\nkdf-params: ${params}`,
+    );
+    expect(() => parseFormat(text)).toThrow(FormatError);
+    // Never derived from, the fence is left alone
+    expect(validateBlocks(text)).toEqual([]);
+  });
+
+  it("rejects a password slot with out-of-range parameters", () => {
+    expect(
+      parseKeyslots(
+        "slot: id=1 type=password kdf=PBKDF2 kdf-params=i=0 data=AA",
+      ),
+    ).toBeNull();
+    expect(
+      parseKeyslots(
+        "slot: id=1 type=password kdf=PBKDF2 kdf-params=i=1000 data=AA",
+      ),
+    ).toHaveLength(1);
+  });
+});
+
+describe("inline secrets", () => {
+  const PADDED: AesOptions = { ...OPTIONS, Padding: "pow2" };
+
+  /**
+   * Encrypt a value into the payload of an inline secret.
+   * @param value - Plain value
+   * @param options - Cipher options
+   * @returns The text between `{{sn:` and `}}`
+   */
+  async function inlinePayload(
+    value: string,
+    options: AesOptions = PADDED,
+  ): Promise<string> {
+    const data = await encryptData(options, value, "pw");
+    return generateInlineSecret(options, data).slice(5, -2);
+  }
+
+  it("names the header fields and keeps the padding", async () => {
+    const payload = await inlinePayload("sk-123");
+    expect(payload).toMatch(
+      /^format-version=4;mode=AES-GCM;size=256;kdf=PBKDF2;kdf-params=i=1000;padding=pow2;data=[A-Za-z0-9+/]+={0,2}$/,
+    );
+
+    const parsed = parseInlineSecret(payload);
+    expect(parsed.aesOptions).toMatchObject(PADDED);
+    expect(await decryptData(parsed.aesOptions, parsed.data, "pw")).toBe(
+      "sk-123",
+    );
+  });
+
+  it("reads secrets written with six values without names", async () => {
+    const data = await encryptData(OPTIONS, "sk-123", "pw");
+    const parsed = parseInlineSecret(`4;AES-GCM;256;PBKDF2;i=1000;${data}`);
+    expect(await decryptData(parsed.aesOptions, parsed.data, "pw")).toBe(
+      "sk-123",
+    );
+  });
+
+  it("opens a secret keyed by the vault with the vault password", async () => {
+    const { vault, vaultKey } = await createVault("vault pw", OPTIONS);
+    await saveVault(vault);
+
+    const dataKey = generateDataKey();
+    const options: AesOptions = { ...PADDED, KeySource: "keyslots" };
+    const data = await encryptDataWithKey(options, "sk-123", dataKey);
+    const slot = await createVaultSlot([], dataKey, vault, vaultKey);
+    const payload = generateInlineSecret(
+      options,
+      data,
+      slot,
+      await keyslotsMac(dataKey, options, data, [slot]),
+    ).slice(5, -2);
+    expect(payload).toMatch(/;key=keyslots;padding=pow2;vault=[0-9a-f]+;/);
+
+    const parsed = parseInlineSecret(payload);
+    expect(parsed.keyslots).toEqual([slot]);
+    expect(await unlockNote(parsed, "vault pw")).toBe("sk-123");
+  });
+
+  it.each([
+    ["an unknown field", (payload: string) => `salt=00;${payload}`],
+    ["a repeated field", (payload: string) => `size=256;${payload}`],
+    ["a field without name", (payload: string) => `=1;${payload}`],
+    ["five values without names", () => "4;AES-GCM;256;PBKDF2;i=1000"],
+  ])("rejects %s", async (_name, change) => {
+    const payload = await inlinePayload("sk-123");
+    expect(() => parseInlineSecret(change(payload))).toThrow(FormatError);
+  });
+
+  it("authenticates the named header fields", async () => {
+    const payload = (await inlinePayload("sk-123")).replace(
+      ";padding=pow2",
+      "",
+    );
+    const parsed = parseInlineSecret(payload);
+    await expect(
+      decryptData(parsed.aesOptions, parsed.data, "pw"),
+    ).rejects.toThrow(IntegrityError);
+  });
+});
@@ -0,0 +1,65 @@
+/*****************************************************************************
+ * @file        : tests/vault.test.ts
+ * @description : Vault export and import between devices.
+ *****************************************************************************/
+
+/** Imports */
+import { AesOptions, WrongPasswordError } from "../src/encryption";
+import {
+  createVault,
+  exportVault,
+  importVault,
+  loadVault,
+  saveVault,
+  unlockVault,
+} from "../src/vault";
+
+const OPTIONS: AesOptions = { Kdf: "PBKDF2", KdfParams: { i: 1000 } };
+
+it("opens an imported vault with the vault password", async () => {
+  const { vault, vaultKey } = await createVault("vault pw", OPTIONS);
+  const imported = importVault(exportVault(vault));
+  expect(imported).toEqual(vault);
+
+  await saveVault(imported);
+  const loaded = await loadVault();
+  expect(await unlockVault(loaded, "vault pw")).toEqual(vaultKey);
+  await expect(unlockVault(loaded, "other")).rejects.toThrow(
+    WrongPasswordError,
+  );
+});
+
+it("accepts an export with surrounding whitespace", async () => {
+  const { vault } = await createVault("vault pw", OPTIONS);
+  expect(importVault(`\n  ${exportVault(vault)}  \n`)).toEqual(vault);
+});
+
+it.each([
+  ["empty text", ""],
+  ["a missing prefix", btoa(JSON.stringify({ id: "ab", data: "x" }))],
+  ["data that is not base64", "securenotes-vault:%%%"],
+  [
+    "an unknown KDF",
+    `securenotes-vault:${btoa(
+      JSON.stringify({ id: "ab", data: "x", options: { Kdf: "MD5" } }),
+    )}`,
+  ],
+  [
+    "KDF parameters out of range",
+    `securenotes-vault:${btoa(
+      JSON.stringify({
+        id: "ab",
+        data: "x",
+        options: { Kdf: "Argon2id", KdfParams: { t: 2, m: 4194304, p: 1 } },
+      }),
+    )}`,
+  ],
+  [
+    "an id that is not hex",
+    `securenotes-vault:${btoa(
+      JSON.stringify({ id: "zz", data: "x", options: { Kdf: "PBKDF2" } }),
+    )}`,
+  ],
+])("rejects %s", (_name, text) => {
+  expect(() => importVault(text)).toThrow("Not an exported vault");
+});